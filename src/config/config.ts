@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { FigmaConfig } from '../types/figma.js';
+import { parseFixtureMode } from '../utils/fixture-store.js';
 
 /**
  * Load configuration from file and environment variables
@@ -24,6 +25,8 @@ export function loadConfig(): FigmaConfig {
     default_file_url: process.env.FIGMA_DEFAULT_FILE_URL || config.default_file_url,
     default_team_url: process.env.FIGMA_DEFAULT_TEAM_URL || config.default_team_url,
     project_urls: process.env.FIGMA_PROJECT_URLS?.split(',') || config.project_urls || [],
+    component_matching: config.component_matching,
+    watch: config.watch,
   };
 }
 
@@ -56,6 +59,26 @@ export function validateConfig(config: FigmaConfig): { valid: boolean; errors: s
     });
   }
 
+  const matching = config.component_matching;
+  for (const key of ['exact_threshold', 'similar_threshold'] as const) {
+    const value = matching?.[key];
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+      errors.push(`component_matching.${key} must be a number between 0 and 1`);
+    }
+  }
+
+  const watch = config.watch;
+  for (const key of ['interval_seconds', 'max_backoff_seconds'] as const) {
+    const value = watch?.[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 10))) {
+      errors.push(`watch.${key} must be a number of at least 10 seconds`);
+    }
+  }
+  const tokens = watch?.on_change?.export_tokens;
+  if (tokens && typeof tokens.output_path !== 'string') {
+    errors.push('watch.on_change.export_tokens.output_path is required');
+  }
+
   return {
     valid: errors.length === 0,
     errors
@@ -81,8 +104,44 @@ export function getAppConfig() {
   return {
     port: process.env.PORT || 3000,
     nodeEnv: process.env.NODE_ENV || 'development',
-    figmaApiBase: 'https://api.figma.com/v1',
+    figmaApiBase: (process.env.FIGMA_API_BASE || 'https://api.figma.com/v1').replace(/\/+$/, ''),
+    figmaMaxRetries: integerFromEnv('FIGMA_MAX_RETRIES', 3, 0),
+    figmaTimeoutMs: integerFromEnv('FIGMA_TIMEOUT_MS', 30000, 1),
+    figmaMaxConcurrentRequests: integerFromEnv('FIGMA_MAX_CONCURRENT_REQUESTS', 4, 1),
+    figmaCacheEnabled: process.env.FIGMA_CACHE !== 'off',
+    figmaCacheDir: process.env.FIGMA_CACHE_DIR || path.join(process.cwd(), '.figma-cache'),
+    figmaCacheFreshnessMs: integerFromEnv('FIGMA_CACHE_FRESHNESS_MS', 30000, 0),
+    figmaFixtureMode: parseFixtureMode(process.env.FIGMA_FIXTURE_MODE),
+    figmaFixtureDir: process.env.FIGMA_FIXTURE_DIR || path.join(process.cwd(), 'fixtures/figma'),
+    // on/off override for the watch.enabled setting in figma.config.json
+    figmaWatch: process.env.FIGMA_WATCH === 'on' ? true : process.env.FIGMA_WATCH === 'off' ? false : undefined,
+    figmaWatchIntervalSeconds: process.env.FIGMA_WATCH_INTERVAL_SECONDS ? parseInt(process.env.FIGMA_WATCH_INTERVAL_SECONDS, 10) : undefined,
+    figmaCodeMapPath: process.env.FIGMA_CODE_MAP_PATH || path.join(process.cwd(), 'figma-code-map.json'),
     corsEnabled: process.env.CORS_ENABLED !== 'false',
     logLevel: process.env.LOG_LEVEL || 'info',
   };
-} 
\ No newline at end of file
+}
+
+// Env problems already logged, so repeated getAppConfig() calls don't log them again
+const reportedEnvProblems = new Set<string>();
+
+/**
+ * Read a whole-number setting from the environment, falling back to the default (and logging why)
+ * when it is not a number or below `min`
+ */
+function integerFromEnv(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (Number.isInteger(value) && value >= min) {
+    return value;
+  }
+  if (!reportedEnvProblems.has(name)) {
+    reportedEnvProblems.add(name);
+    console.error(`Invalid ${name}=${raw}: expected a whole number of at least ${min}; using ${fallback}`);
+  }
+  return fallback;
+}
@@ -3,23 +3,118 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import * as fs from 'fs';
 import * as path from 'path';
-
-// Figma API configuration
-const FIGMA_API_BASE = 'https://api.figma.com/v1';
+import { FigmaApiError, FigmaClient, FigmaDownload } from '../utils/figma-client.js';
+import { FigmaCache } from '../utils/figma-cache.js';
+import { FixtureStore } from '../utils/fixture-store.js';
+import { summarizeDocument } from '../utils/document-summarizer.js';
+import { extractDesignTokens, ExtractedTokens } from '../utils/design-tokens.js';
+import { formatTokenName, getTokenFormatter, listTokenFormats } from '../utils/token-formatters.js';
+import { findStyleInconsistencies, SourceFile, StyleConsistencyReport } from '../utils/style-consistency.js';
+import { buildComponentApis, componentApiForNode, findComponentApi, findNodeById, findNodePath, parseVariantName } from '../utils/component-api.js';
+import { compareComponentApi } from '../utils/component-consistency.js';
+import { componentNameFromPath, primaryComponent, scanComponentModule, ScannedModule } from '../utils/code-scanner.js';
+import { rankNameMatches } from '../utils/name-matching.js';
+import { CodeMapRegistry, defaultImportSpecifier } from '../utils/code-map.js';
+import { extractFigmaAnnotations, FigmaAnnotation } from '../utils/figma-annotations.js';
+import { formatNewFilePatch, scaffoldComponent, ScaffoldFile } from '../utils/component-scaffold.js';
+import { CodegenComponent, generateNodeCode } from '../utils/node-codegen.js';
+import { inspectNode } from '../utils/node-inspector.js';
+import {
+  AssetManifest,
+  AssetTarget,
+  hashAsset,
+  isAssetCurrent,
+  loadAssetManifest,
+  planAssetExport,
+  saveAssetManifest,
+  ASSET_MANIFEST_FILE,
+} from '../utils/asset-export.js';
+import { generateIconPackage, iconComponentName, IconDefinition, iconName, normalizeSvg } from '../utils/icon-pipeline.js';
+import { collectImageFills, imageExtension, ImageFillUsage } from '../utils/image-fills.js';
+import { diffFigmaFiles, FileDiff, formatDesignChangelog } from '../utils/file-diff.js';
+import { FigmaFileChange, FigmaWatcher } from '../utils/figma-watcher.js';
+import {
+  CodeComponent,
+  ComponentApi,
+  ComponentMappingEntry,
+  ComponentMatchingConfig,
+  ComponentIssue,
+  FigmaFile,
+  FigmaLink,
+  FigmaLocalVariablesResponse,
+  FigmaImageResponse,
+  FigmaNode,
+  FigmaNodesResponse,
+  WatchConfig,
+} from '../types/figma.js';
+import { getAppConfig, validateConfig } from '../config/config.js';
 
 // Configuration interface
 interface FigmaConfig {
   default_file_url?: string;
   default_team_url?: string;
   project_urls?: string[];
+  component_matching?: ComponentMatchingConfig;
+  watch?: WatchConfig;
+}
+
+// The latest change the watcher saw in a file, with the results of its on_change actions
+interface WatchedChange extends FigmaFileChange {
+  diff_summary?: FileDiff['summary'];
+  changelog?: string;
+  changelog_path?: string;
+  tokens_path?: string;
+  errors?: string[];
+}
+
+// A code component the usage guide points a Figma component at
+interface UsageGuideMapping {
+  code_component: string;
+  import_specifier?: string;
+  code_path?: string;
+  source: 'registry' | 'manual';
+}
+
+// A Figma component, or a component set standing in for all of its variants
+interface FigmaComponentGroup {
+  id: string;
+  key?: string;
+  name: string;
+  description?: string;
+  variant_count?: number;
+  variant_ids?: string[];
+  variant_keys?: string[];
 }
 
+// MIME types of the image formats that can be returned as image content
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+};
+
+// Image content above this size is flagged, since clients may truncate or reject it
+const LARGE_IMAGE_BYTES = 1024 * 1024;
+
+// Node IDs per render request when exporting assets in bulk, keeping the URL well under length limits
+const ASSET_RENDER_BATCH_SIZE = 100;
+
+// Resource URI of a watched file, followed by its file key
+const WATCHED_FILE_URI = 'figma://file/';
+
+// Source files scanned for hard-coded style values
+const STYLE_FILE_EXTENSIONS = ['.css', '.scss', '.sass', '.less', '.tsx', '.jsx', '.ts', '.js', '.vue', '.svelte'];
+
 // Figma URL patterns
 const FIGMA_URL_PATTERNS = {
   file: /https:\/\/(?:www\.)?figma\.com\/(?:file|design)\/([a-zA-Z0-9]{22,128})\/[^?]*(?:\?.*?node-id=([^&]+))?/,
@@ -31,6 +126,14 @@ class FigmaMCPServer {
   private server: Server;
   private figmaToken: string | undefined;
   private config: FigmaConfig;
+  // Problems found in figma.config.json when it was loaded
+  private configErrors: string[] = [];
+  private figmaClient: FigmaClient;
+  private figmaCache: FigmaCache;
+  private codeMap: CodeMapRegistry;
+  private watcher?: FigmaWatcher;
+  private watchedChanges = new Map<string, WatchedChange>();
+  private resourceSubscriptions = new Set<string>();
 
   constructor() {
     this.server = new Server(
@@ -41,38 +144,37 @@ class FigmaMCPServer {
       {
   capabilities: {
     tools: {},
+    resources: { subscribe: true },
   },
       }
     );
 
     this.figmaToken = process.env.FIGMA_ACCESS_TOKEN;
     this.config = this.loadConfig();
+
+    const appConfig = getAppConfig();
+    this.figmaClient = new FigmaClient({
+      token: this.figmaToken,
+      baseUrl: appConfig.figmaApiBase,
+      maxRetries: appConfig.figmaMaxRetries,
+      timeoutMs: appConfig.figmaTimeoutMs,
+      maxConcurrent: appConfig.figmaMaxConcurrentRequests,
+      fixtures: new FixtureStore(appConfig.figmaFixtureDir, appConfig.figmaFixtureMode),
+    });
+    this.figmaCache = new FigmaCache({
+      directory: appConfig.figmaCacheDir,
+      enabled: appConfig.figmaCacheEnabled,
+      freshnessTtlMs: appConfig.figmaCacheFreshnessMs,
+    });
+    this.codeMap = new CodeMapRegistry(appConfig.figmaCodeMapPath);
     this.setupToolHandlers();
+    this.setupResourceHandlers();
   }
 
   private async makeRequest(endpoint: string): Promise<any> {
-    if (!this.figmaToken) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        'Figma access token not provided. Set FIGMA_ACCESS_TOKEN environment variable.'
-      );
-    }
-
-    const response = await fetch(`${FIGMA_API_BASE}${endpoint}`, {
-      headers: {
-        'X-Figma-Token': this.figmaToken,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Figma API error: ${response.status} ${response.statusText}`
-      );
-    }
-
-    return response.json();
+    // Retries, rate-limit backoff and error mapping live in the client;
+    // the cache serves unchanged file versions from disk
+    return this.figmaCache.get(endpoint, (uncached) => this.figmaClient.get(uncached));
   }
 
   private setupToolHandlers(): void {
@@ -89,6 +191,93 @@ class FigmaMCPServer {
                    type: 'string',
                    description: 'Figma file key OR complete Figma URL (e.g., https://figma.com/file/ABC123/My-Design)',
                  },
+                 detail: {
+                   type: 'string',
+                   enum: ['outline', 'layout', 'full'],
+                   default: 'layout',
+                   description: 'outline: names and types only; layout: adds bounds, auto-layout and text; full: every property except vector geometry',
+                 },
+                 max_depth: {
+                   type: 'number',
+                   description: 'Maximum tree depth below the document (1 = pages only)',
+                 },
+                 node_types: {
+                   type: 'array',
+                   items: { type: 'string' },
+                   description: 'Only include nodes of these types (e.g., ["FRAME", "COMPONENT", "INSTANCE"]); pages are always kept',
+                 },
+                 properties: {
+                   type: 'array',
+                   items: { type: 'string' },
+                   description: 'Extra node properties to include regardless of detail level (e.g., ["fills", "effects"])',
+                 },
+                 include_hidden: {
+                   type: 'boolean',
+                   default: false,
+                   description: 'Keep layers with visible: false',
+                 },
+                 token_budget: {
+                   type: 'number',
+                   default: 20000,
+                   description: 'Approximate maximum output tokens; depth is reduced until the summary fits',
+                 },
+               },
+               required: [],
+             },
+           },
+           {
+             name: 'get_figma_nodes',
+             description: 'Get specific node subtrees from a Figma file, with their component and style dictionaries, without downloading the whole document',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key_or_url: {
+                   type: 'string',
+                   description: 'Figma file key OR complete Figma URL; a URL with ?node-id=... selects the nodes',
+                 },
+                 node_ids: {
+                   oneOf: [
+                     { type: 'array', items: { type: 'string' } },
+                     { type: 'string' },
+                   ],
+                   description: 'Node IDs as an array, a comma-separated list ("1:2,1:3") or a Figma URL with node-id',
+                 },
+                 depth: {
+                   type: 'number',
+                   description: 'How many levels below each node to return (optional, full subtree when omitted)',
+                 },
+                 include_geometry: {
+                   type: 'boolean',
+                   default: false,
+                   description: 'Include vector path data (geometry=paths)',
+                 },
+                 version: {
+                   type: 'string',
+                   description: 'Fetch nodes as they were at this file version ID (optional)',
+                 },
+               },
+               required: [],
+             },
+           },
+           {
+             name: 'inspect_figma_node',
+             description: 'Developer handoff specs for one node: size, spacing to parent and siblings, typography, fills, strokes, effects and radii as CSS, each annotated with its style or variable, plus a CSS snippet',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key_or_url: {
+                   type: 'string',
+                   description: 'Figma URL with ?node-id=..., or a file key (uses default_file_url if omitted)',
+                 },
+                 node_id: {
+                   type: 'string',
+                   description: 'Node to inspect, e.g. "1:2" (optional when the URL has a node-id)',
+                 },
+                 include_variables: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Resolve bound variables to their names (variables need an Enterprise plan)',
+                 },
                },
                required: [],
              },
@@ -107,9 +296,27 @@ class FigmaMCPServer {
               required: ['file_key'],
             },
           },
+          {
+            name: 'get_component_api',
+            description: 'Get the normalized API of component sets and components with properties: variant axes with allowed values and defaults, BOOLEAN / TEXT / INSTANCE_SWAP properties with defaults and the layers they drive, and every variant',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                file_key_or_url: {
+                  type: 'string',
+                  description: 'Figma file key OR complete Figma URL; a URL with ?node-id=... selects that component',
+                },
+                component: {
+                  type: 'string',
+                  description: 'Only return this component set or component, by key, node ID or name (optional)',
+                },
+              },
+              required: [],
+            },
+          },
           {
             name: 'export_figma_image',
-            description: 'Export images from specific nodes in a Figma file',
+            description: 'Export images from specific nodes in a Figma file, as download URLs or as image content the assistant can see',
             inputSchema: {
               type: 'object',
               properties: {
@@ -133,10 +340,131 @@ class FigmaMCPServer {
                   default: 1,
                   description: 'Scale factor (1-4)',
                 },
+                output: {
+                  type: 'string',
+                  enum: ['urls', 'image', 'thumbnail'],
+                  default: 'urls',
+                  description: 'urls returns temporary download URLs; image downloads the renders and returns them as image content; thumbnail does the same at a reduced scale',
+                },
+                max_dimension: {
+                  type: 'number',
+                  default: 512,
+                  description: 'Longest side in pixels for thumbnail output',
+                },
               },
               required: ['file_key', 'node_ids'],
             },
           },
+          {
+            name: 'export_figma_assets',
+            description: 'Export every node with Figma export settings (or matching a layer name pattern) to a local assets directory, with a manifest of content hashes so unchanged files are left alone',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                file_key_or_url: {
+                  type: 'string',
+                  description: 'Figma file key or URL (optional if default_file_url is configured); a node-id in the URL limits the export to that subtree',
+                },
+                node_ids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Pages or frames to search instead of the whole document',
+                },
+                name_pattern: {
+                  type: 'string',
+                  description: 'Export layers whose name matches this glob, e.g. "icon/*", instead of nodes with export settings. * stays within one "/" segment, ** crosses them',
+                },
+                output_directory: {
+                  type: 'string',
+                  default: 'assets/figma',
+                  description: 'Directory the assets and assets-manifest.json are written to',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['jpg', 'png', 'svg', 'pdf'],
+                  default: 'png',
+                  description: 'Format for name pattern matches that have no export settings of their own',
+                },
+                scale: {
+                  type: 'number',
+                  default: 1,
+                  description: 'Scale (0.01-4) for name pattern matches that have no export settings of their own',
+                },
+                force: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Render every asset again even when the file version and the file on disk are unchanged',
+                },
+              },
+            },
+          },
+          {
+            name: 'export_figma_icons',
+            description: 'Turn an icon library of Figma components into a typed icon package: SVGs normalized to currentColor with prefixed IDs and a 0 0 viewBox, one React or Vue component per icon, an index with an IconName union, and optionally an SVG sprite',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                file_key_or_url: {
+                  type: 'string',
+                  description: 'Figma file key or URL (optional if default_file_url is configured)',
+                },
+                name_prefix: {
+                  type: 'string',
+                  default: 'Icons/',
+                  description: 'Components whose name starts with this, or that sit on a page or frame with this name, are icons',
+                },
+                output_directory: {
+                  type: 'string',
+                  default: 'src/icons',
+                  description: 'Directory the icon package is written to',
+                },
+                framework: {
+                  type: 'string',
+                  enum: ['react', 'vue'],
+                  default: 'react',
+                  description: 'Framework to generate icon components for',
+                },
+                sprite: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Also write sprite.svg with one <symbol> per icon',
+                },
+                current_color: {
+                  type: 'boolean',
+                  default: true,
+                  description: 'Replace the paint of single-color icons with currentColor; multi-color icons keep their colors',
+                },
+              },
+            },
+          },
+          {
+            name: 'export_figma_image_fills',
+            description: 'Download the original images behind image fills in a file or subtree, one file per image however many layers use it, and report which layers use each image with their scale mode and matching CSS',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                file_key_or_url: {
+                  type: 'string',
+                  description: 'Figma file key or URL (optional if default_file_url is configured); a node-id in the URL limits the search to that subtree',
+                },
+                node_ids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Pages or frames to search instead of the whole document',
+                },
+                output_directory: {
+                  type: 'string',
+                  default: 'assets/images',
+                  description: 'Directory the images are written to',
+                },
+                download: {
+                  type: 'boolean',
+                  default: true,
+                  description: 'Download the images; when false only their temporary URLs and usages are returned',
+                },
+              },
+            },
+          },
           {
             name: 'get_figma_team_projects',
             description: 'Get all projects for a specific team',
@@ -207,6 +535,68 @@ class FigmaMCPServer {
                required: ['file_key'],
              },
            },
+           {
+             name: 'extract_design_tokens',
+             description: 'Resolve every color, text, effect and grid style in a Figma file to its concrete value and emit W3C Design Tokens (DTCG) JSON',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key: {
+                   type: 'string',
+                   description: 'The Figma file key (found in the URL)',
+                 },
+                 include_variables: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Also emit local variables as tokens and keep style-to-variable aliases (requires variables API access)',
+                 },
+                 output_path: {
+                   type: 'string',
+                   description: 'Write tokens.json to this path (optional, returned inline when omitted)',
+                 },
+               },
+               required: ['file_key'],
+             },
+           },
+           {
+             name: 'export_design_tokens',
+             description: 'Export resolved Figma design tokens as CSS custom properties, SCSS maps, a Tailwind theme extension, a typed TypeScript module or DTCG JSON',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key: {
+                   type: 'string',
+                   description: 'The Figma file key (found in the URL)',
+                 },
+                 format: {
+                   type: 'string',
+                   enum: ['css', 'scss', 'tailwind', 'typescript', 'json'],
+                   default: 'css',
+                   description: 'Output format',
+                 },
+                 naming: {
+                   type: 'string',
+                   enum: ['kebab', 'camel', 'snake'],
+                   default: 'kebab',
+                   description: 'Naming convention for generated variable names and keys',
+                 },
+                 prefix: {
+                   type: 'string',
+                   description: 'Prefix for every token name, e.g. "ds" gives --ds-brand-primary-500 (optional)',
+                 },
+                 include_variables: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Include local variables and aliases (requires variables API access)',
+                 },
+                 output_path: {
+                   type: 'string',
+                   description: 'Write the output to this file (optional, returned inline when omitted)',
+                 },
+               },
+               required: ['file_key'],
+             },
+           },
            {
              name: 'get_figma_version_history',
              description: 'Get version history and comments for a Figma file',
@@ -221,6 +611,27 @@ class FigmaMCPServer {
                required: ['file_key'],
              },
            },
+           {
+             name: 'diff_figma_versions',
+             description: 'Compare two versions of a Figma file: added, removed, renamed and moved layers, changed fills, text, layout and sizes, added or removed components and styles, and changed variant axes and component properties. Returns a machine-readable diff and a markdown design changelog',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key_or_url: {
+                   type: 'string',
+                   description: 'Figma file key or URL (optional if default_file_url is configured)',
+                 },
+                 from_version: {
+                   type: 'string',
+                   description: 'Version ID to compare from (optional, defaults to the latest named version before to_version, or the version right before it)',
+                 },
+                 to_version: {
+                   type: 'string',
+                   description: 'Version ID to compare to (optional, defaults to the current file)',
+                 },
+               },
+             },
+           },
            {
              name: 'map_figma_to_code_components',
              description: 'Analyze Figma components and suggest mappings to existing code components based on naming patterns, structure, and properties',
@@ -246,93 +657,299 @@ class FigmaMCPServer {
                    default: true,
                    description: 'Whether to analyze component properties and variants',
                  },
+                 exact_threshold: {
+                   type: 'number',
+                   minimum: 0,
+                   maximum: 1,
+                   description: 'Minimum name score (0-1) for an exact match. Defaults to component_matching.exact_threshold in the config, or 0.95',
+                 },
+                 similar_threshold: {
+                   type: 'number',
+                   minimum: 0,
+                   maximum: 1,
+                   description: 'Minimum name score (0-1) for a similar match. Defaults to component_matching.similar_threshold in the config, or 0.5',
+                 },
                },
                required: ['file_key', 'code_directory'],
              },
            },
            {
-             name: 'generate_component_usage_guide',
-             description: 'Generate a usage guide showing how to use existing coded components based on Figma designs',
+             name: 'update_component_mapping',
+             description: 'Confirm, reject or remove a Figma-to-code component mapping in the checked-in figma-code-map.json registry. The mapping, usage guide and consistency tools honour these decisions',
              inputSchema: {
                type: 'object',
                properties: {
                  file_key: {
                    type: 'string',
-                   description: 'The Figma file key (found in the URL)',
+                   description: 'The Figma file key or URL containing the component',
                  },
-                 component_mappings: {
-                   type: 'object',
-                   description: 'Manual mappings between Figma components and code components (optional)',
+                 component: {
+                   type: 'string',
+                   description: 'Figma component or component set key, node ID or name. Variants resolve to their component set',
                  },
-                 output_format: {
+                 action: {
                    type: 'string',
-                   enum: ['markdown', 'json', 'typescript'],
-                   default: 'markdown',
-                   description: 'Output format for the usage guide',
+                   enum: ['confirm', 'reject', 'remove'],
+                   description: 'confirm pins code_path (also used to override a suggestion); reject with code_path stops that file being suggested, without it marks the component as design-only; remove deletes the entry',
+                 },
+                 code_path: {
+                   type: 'string',
+                   description: 'Path of the code component file (required for confirm)',
+                 },
+                 code_component: {
+                   type: 'string',
+                   description: 'Exported component name. Defaults to the scanned component name or the file name',
+                 },
+                 import_specifier: {
+                   type: 'string',
+                   description: 'Module specifier to import the component from, e.g. @/components/Button. Defaults to the path without extension',
+                 },
+                 note: {
+                   type: 'string',
+                   description: 'Optional reason recorded with the decision',
                  },
                },
-               required: ['file_key'],
+               required: ['file_key', 'component', 'action'],
              },
            },
            {
-             name: 'analyze_design_code_consistency',
-             description: 'Compare Figma designs with existing code components to identify inconsistencies and missing implementations',
+             name: 'scaffold_figma_components',
+             description: 'Scaffold code for Figma components that have no implementation yet: a typed props interface from the variant axes and component properties (unions for variants, boolean for toggles, slots for instance swaps) and a component skeleton whose styles reference the design tokens. Returned as a patch or written into code_directory',
              inputSchema: {
                type: 'object',
                properties: {
                  file_key: {
                    type: 'string',
-                   description: 'The Figma file key (found in the URL)',
+                   description: 'The Figma file key or URL',
                  },
                  code_directory: {
                    type: 'string',
-                   description: 'Path to your components directory',
+                   description: 'Path to your components directory; scaffolds are placed here and existing components are scanned to find what is missing',
                  },
-                 check_styles: {
-                   type: 'boolean',
-                   default: true,
-                   description: 'Whether to check style consistency (colors, typography, spacing)',
+                 framework: {
+                   type: 'string',
+                   enum: ['react', 'vue', 'angular', 'svelte'],
+                   default: 'react',
+                   description: 'Framework to generate components for',
                  },
-                 check_components: {
+                 components: {
+                   type: 'array',
+                   items: { type: 'string' },
+                   description: 'Figma component or component set keys, node IDs or names to scaffold (optional, defaults to every component map_figma_to_code_components reports as missing_in_code)',
+                 },
+                 output: {
+                   type: 'string',
+                   enum: ['patch', 'write'],
+                   default: 'patch',
+                   description: 'patch returns a unified diff of the new files; write creates them in code_directory. Existing files are never overwritten',
+                 },
+                 include_variables: {
                    type: 'boolean',
                    default: true,
-                   description: 'Whether to check component implementation consistency',
+                   description: 'Match style values against local variables as well as styles (variables need an Enterprise plan)',
                  },
                },
                required: ['file_key', 'code_directory'],
              },
            },
-        ],
-      };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-                 switch (name) {
-           case 'get_figma_file':
-             return await this.getFigmaFile(args);
-           case 'get_figma_components':
-             return await this.getFigmaComponents(args);
-           case 'export_figma_image':
-             return await this.exportFigmaImage(args);
-           case 'get_figma_team_projects':
-             return await this.getFigmaTeamProjects(args);
-           case 'search_figma_files':
-             return await this.searchFigmaFiles(args);
-           case 'get_figma_styles':
+           {
+             name: 'generate_code_for_node',
+             description: 'Convert a Figma node subtree into semantic JSX or HTML with flexbox CSS or Tailwind classes. Instances of mapped components render as the code component with props',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key_or_url: {
+                   type: 'string',
+                   description: 'Figma file key or a URL with ?node-id=... (uses default_file_url if omitted)',
+                 },
+                 node_id: {
+                   type: 'string',
+                   description: 'Node to convert, e.g. "1:2" (optional when the URL has a node-id)',
+                 },
+                 format: {
+                   type: 'string',
+                   enum: ['jsx', 'html'],
+                   default: 'jsx',
+                   description: 'Markup to generate. Mapped instances only render as components in JSX',
+                 },
+                 styling: {
+                   type: 'string',
+                   enum: ['css', 'tailwind'],
+                   default: 'css',
+                   description: 'css returns a stylesheet for generated class names; tailwind inlines utility classes',
+                 },
+                 code_directory: {
+                   type: 'string',
+                   description: 'Components directory to match instances against (optional). Confirmed figma-code-map.json mappings are always used',
+                 },
+                 framework: {
+                   type: 'string',
+                   enum: ['react', 'vue', 'angular', 'svelte'],
+                   default: 'react',
+                   description: 'Framework of the components in code_directory',
+                 },
+                 include_variables: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Reference local variables as well as styles (variables need an Enterprise plan)',
+                 },
+               },
+             },
+           },
+           {
+             name: 'generate_component_usage_guide',
+             description: 'Generate a usage guide showing how to use existing coded components based on Figma designs',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key: {
+                   type: 'string',
+                   description: 'The Figma file key (found in the URL)',
+                 },
+                 component_mappings: {
+                   type: 'object',
+                   description: 'Manual mappings from Figma component name to a code component name or { code_component, import_specifier, code_path } (optional). Merged over figma-code-map.json',
+                   additionalProperties: {
+                     oneOf: [
+                       { type: 'string' },
+                       {
+                         type: 'object',
+                         properties: {
+                           code_component: { type: 'string' },
+                           import_specifier: { type: 'string' },
+                           code_path: { type: 'string' },
+                         },
+                         required: ['code_component'],
+                       },
+                     ],
+                   },
+                 },
+                 output_format: {
+                   type: 'string',
+                   enum: ['markdown', 'json', 'typescript'],
+                   default: 'markdown',
+                   description: 'Output format for the usage guide',
+                 },
+               },
+               required: ['file_key'],
+             },
+           },
+           {
+             name: 'analyze_design_code_consistency',
+             description: 'Compare Figma designs with existing code components to identify inconsistencies and missing implementations',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key: {
+                   type: 'string',
+                   description: 'The Figma file key (found in the URL)',
+                 },
+                 code_directory: {
+                   type: 'string',
+                   description: 'Path to your components directory',
+                 },
+                 check_styles: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Whether to check style consistency (colors, typography, spacing)',
+                 },
+                 check_components: {
+                   type: 'boolean',
+                   default: true,
+                   description: 'Whether to check component implementation consistency',
+                 },
+                 framework: {
+                   type: 'string',
+                   enum: ['react', 'vue', 'angular', 'svelte', 'vanilla'],
+                   default: 'react',
+                   description: 'Frontend framework used in your codebase',
+                 },
+               },
+               required: ['file_key', 'code_directory'],
+             },
+           },
+           {
+             name: 'clear_cache',
+             description: 'Clear cached Figma responses for one file or the whole cache, and report cache statistics',
+             inputSchema: {
+               type: 'object',
+               properties: {
+                 file_key: {
+                   type: 'string',
+                   description: 'Only clear entries for this Figma file key or URL (optional, clears everything when omitted)',
+                 },
+               },
+               required: [],
+             },
+           },
+           {
+             name: 'get_cache_stats',
+             description: 'Show cache hit/miss counters and on-disk size of cached Figma responses',
+             inputSchema: {
+               type: 'object',
+               properties: {},
+               required: [],
+             },
+           },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+                 switch (name) {
+           case 'get_figma_file':
+             return await this.getFigmaFile(args);
+           case 'get_figma_nodes':
+             return await this.getFigmaNodes(args);
+           case 'inspect_figma_node':
+             return await this.inspectFigmaNode(args);
+           case 'get_figma_components':
+             return await this.getFigmaComponents(args);
+           case 'get_component_api':
+             return await this.getComponentApi(args);
+           case 'export_figma_image':
+             return await this.exportFigmaImage(args);
+           case 'export_figma_assets':
+             return await this.exportFigmaAssets(args);
+           case 'export_figma_icons':
+             return await this.exportFigmaIcons(args);
+           case 'export_figma_image_fills':
+             return await this.exportFigmaImageFills(args);
+           case 'get_figma_team_projects':
+             return await this.getFigmaTeamProjects(args);
+           case 'search_figma_files':
+             return await this.searchFigmaFiles(args);
+           case 'get_figma_styles':
              return await this.getFigmaStyles(args);
            case 'analyze_figma_design_system':
              return await this.analyzeFigmaDesignSystem(args);
+           case 'extract_design_tokens':
+             return await this.extractDesignTokens(args);
+           case 'export_design_tokens':
+             return await this.exportDesignTokens(args);
            case 'get_figma_version_history':
              return await this.getFigmaVersionHistory(args);
+           case 'diff_figma_versions':
+             return await this.diffFigmaVersions(args);
            case 'map_figma_to_code_components':
              return await this.mapFigmaToCodeComponents(args);
+           case 'update_component_mapping':
+             return await this.updateComponentMapping(args);
+           case 'scaffold_figma_components':
+             return await this.scaffoldFigmaComponents(args);
+           case 'generate_code_for_node':
+             return await this.generateCodeForNode(args);
            case 'generate_component_usage_guide':
              return await this.generateComponentUsageGuide(args);
            case 'analyze_design_code_consistency':
              return await this.analyzeDesignCodeConsistency(args);
+           case 'clear_cache':
+             return await this.clearCache(args);
+           case 'get_cache_stats':
+             return await this.getCacheStats();
            default:
              throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
          }
@@ -345,69 +962,829 @@ class FigmaMCPServer {
     });
   }
 
+  private setupResourceHandlers(): void {
+    // Each watched file is a resource; subscribers hear about edits through resources/updated
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: (this.watcher?.list() || []).map(file => ({
+        uri: `${WATCHED_FILE_URI}${file.file_key}`,
+        name: file.name || file.file_key,
+        description: `Version and latest change of the watched Figma file ${file.file_key}`,
+        mimeType: 'application/json',
+      })),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const file = this.findWatchedFile(request.params.uri);
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              ...file,
+              last_change: this.watchedChanges.get(file.file_key) || null,
+              watcher: this.watcher?.status(),
+            }, null, 2),
+          },
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.findWatchedFile(request.params.uri);
+      this.resourceSubscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private findWatchedFile(uri: string) {
+    const file = uri.startsWith(WATCHED_FILE_URI) ? this.watcher?.get(uri.slice(WATCHED_FILE_URI.length)) : undefined;
+    if (!file) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource: ${uri}. Watched files appear in resources/list once the watcher is on and has polled them`
+      );
+    }
+    return file;
+  }
+
+  /**
+   * Poll the default file and project_urls for edits when watching is switched on in
+   * figma.config.json or with FIGMA_WATCH=on
+   */
+  private startWatcher(): void {
+    const appConfig = getAppConfig();
+    const watch = this.config.watch || {};
+    if (!(appConfig.figmaWatch ?? watch.enabled)) {
+      return;
+    }
+
+    // Each poll costs one request per file plus one per project, so the interval has a floor
+    const watchErrors = this.configErrors.filter(error => error.startsWith('watch.'));
+    const envInterval = appConfig.figmaWatchIntervalSeconds;
+    if (envInterval !== undefined && !(envInterval >= 10)) {
+      watchErrors.push('FIGMA_WATCH_INTERVAL_SECONDS must be a number of at least 10 seconds');
+    }
+    if (watchErrors.length > 0) {
+      console.error(`Figma watcher not started: ${watchErrors.join('; ')}`);
+      return;
+    }
+
+    const { fileKeys, projectIds } = this.watchTargets();
+    if (fileKeys.length === 0 && projectIds.length === 0) {
+      console.error('Figma watcher not started: set default_file_url or project_urls in figma.config.json');
+      return;
+    }
+
+    const intervalSeconds = envInterval ?? watch.interval_seconds ?? 300;
+    this.watcher = new FigmaWatcher({
+      fileKeys,
+      projectIds,
+      intervalMs: intervalSeconds * 1000,
+      maxBackoffMs: Math.max(intervalSeconds, watch.max_backoff_seconds ?? 3600) * 1000,
+      // Straight to the API: the cache would answer from its own version check
+      fetch: (endpoint) => this.figmaClient.get(endpoint),
+      onChange: (change) => this.handleFigmaChange(change),
+      onError: (error) => console.error(`Figma watcher: ${error instanceof Error ? error.message : error}`),
+    });
+    this.watcher.start();
+    console.error(`Watching ${fileKeys.length} Figma file(s) and ${projectIds.length} project(s) every ${intervalSeconds}s`);
+  }
+
+  private watchTargets(): { fileKeys: string[]; projectIds: string[] } {
+    const fileKeys = new Set<string>();
+    const projectIds = new Set<string>();
+    const urls = [this.config.default_file_url, ...(this.config.project_urls || [])].filter((url): url is string => Boolean(url));
+
+    for (const url of urls) {
+      // project_urls may point at whole projects or at single files
+      const project = url.match(FIGMA_URL_PATTERNS.project);
+      if (project || /^\d+$/.test(url)) {
+        projectIds.add(project ? project[1] : url);
+        continue;
+      }
+      try {
+        fileKeys.add(this.parseFileKey(url));
+      } catch (error) {
+        console.error(`Figma watcher skips ${url}: not a file or project URL`);
+      }
+    }
+    return { fileKeys: [...fileKeys], projectIds: [...projectIds] };
+  }
+
+  private async handleFigmaChange(change: FigmaFileChange): Promise<void> {
+    const actions = this.config.watch?.on_change || {};
+    const result: WatchedChange = { ...change };
+    const errors: string[] = [];
+    // The cache may have confirmed the old version moments ago
+    this.figmaCache.expireVersion(change.file_key);
+
+    if (actions.diff || actions.changelog_directory) {
+      try {
+        const fromVersion = change.previous_version || await this.versionAt(change.file_key, change.previous_last_modified);
+        const diff = await this.loadVersionDiff(change.file_key, fromVersion);
+        result.diff_summary = diff.summary;
+        result.changelog = diff.changelog;
+        if (actions.changelog_directory) {
+          const changelogPath = path.join(actions.changelog_directory, `${change.file_key}-${diff.to.id}.md`);
+          fs.mkdirSync(actions.changelog_directory, { recursive: true });
+          fs.writeFileSync(changelogPath, diff.changelog);
+          result.changelog_path = changelogPath;
+        }
+      } catch (error) {
+        errors.push(`Diff failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // Every file would export to the same path, so tokens follow the default file only
+    if (actions.export_tokens && this.config.default_file_url && change.file_key === this.resolveFileKey()) {
+      try {
+        await this.exportDesignTokens({ file_key: change.file_key, ...actions.export_tokens });
+        result.tokens_path = actions.export_tokens.output_path;
+      } catch (error) {
+        errors.push(`Token export failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      result.errors = errors;
+    }
+    this.watchedChanges.set(change.file_key, result);
+
+    const uri = `${WATCHED_FILE_URI}${change.file_key}`;
+    if (this.resourceSubscriptions.has(uri)) {
+      await this.server.sendResourceUpdated({ uri });
+    }
+  }
+
+  /**
+   * The newest saved version at a point in time, for files whose version was never polled
+   */
+  private async versionAt(fileKey: string, timestamp?: string): Promise<string | undefined> {
+    if (!timestamp) {
+      return undefined;
+    }
+    const versionsData = await this.figmaClient.get(`/files/${fileKey}/versions`);
+    const versions: Array<{ id: string; created_at: string }> = versionsData.versions || [];
+    return versions.find(version => Date.parse(version.created_at) <= Date.parse(timestamp))?.id;
+  }
+
   private async getFigmaFile(args: any) {
     const schema = z.object({
       file_key_or_url: z.string().optional(),
+      detail: z.enum(['outline', 'layout', 'full']).default('layout'),
+      max_depth: z.number().int().min(1).optional(),
+      node_types: z.array(z.string()).optional(),
+      properties: z.array(z.string()).optional(),
+      include_hidden: z.boolean().default(false),
+      token_budget: z.number().int().min(100).default(20000),
     });
-    const { file_key_or_url } = schema.parse(args);
+    const { file_key_or_url, detail, max_depth, node_types, properties, include_hidden, token_budget } = schema.parse(args);
+
+    const file_key = this.resolveFileKey(file_key_or_url);
+    // Let the API trim the tree when the caller already limits depth
+    const endpoint = max_depth !== undefined ? `/files/${file_key}?depth=${max_depth + 1}` : `/files/${file_key}`;
+    const data: FigmaFile = await this.makeRequest(endpoint);
+
+    const summary = summarizeDocument(data.document, {
+      detail,
+      maxDepth: max_depth,
+      nodeTypes: node_types,
+      properties,
+      includeHidden: include_hidden,
+      tokenBudget: token_budget,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            extracted_file_key: file_key,
+            original_input: file_key_or_url,
+            name: data.name,
+            version: data.version,
+            lastModified: data.lastModified,
+            summary: summary.stats,
+            ...(detail === 'full'
+              ? { components: data.components, componentSets: data.componentSets, styles: data.styles }
+              : {
+                components_count: Object.keys(data.components || {}).length,
+                styles_count: Object.keys(data.styles || {}).length,
+              }),
+            document: summary.document,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getFigmaNodes(args: any) {
+    const schema = z.object({
+      file_key_or_url: z.string().optional(),
+      node_ids: z.union([z.array(z.string()), z.string()]).optional(),
+      depth: z.number().int().min(1).optional(),
+      include_geometry: z.boolean().default(false),
+      version: z.string().optional(),
+    });
+    const { file_key_or_url, node_ids, depth, include_geometry, version } = schema.parse(args);
+
+    const file_key = this.resolveFileKey(file_key_or_url);
+    const ids = this.resolveNodeIds(file_key_or_url, node_ids);
+
+    const params = new URLSearchParams({ ids: ids.join(',') });
+    if (depth !== undefined) {
+      params.set('depth', depth.toString());
+    }
+    if (include_geometry) {
+      params.set('geometry', 'paths');
+    }
+    if (version) {
+      params.set('version', version);
+    }
+
+    const data: FigmaNodesResponse = await this.makeRequest(`/files/${file_key}/nodes?${params}`);
+    const missing = ids.filter(id => !data.nodes?.[id]);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            extracted_file_key: file_key,
+            node_ids: ids,
+            name: data.name,
+            version: data.version,
+            lastModified: data.lastModified,
+            missing_node_ids: missing,
+            nodes: data.nodes,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async inspectFigmaNode(args: any) {
+    const schema = z.object({
+      file_key_or_url: z.string().optional(),
+      node_id: z.string().optional(),
+      include_variables: z.boolean().default(true),
+    });
+    const { file_key_or_url, node_id, include_variables } = schema.parse(args);
+
+    const fileKey = this.resolveFileKey(file_key_or_url);
+    const [nodeId] = this.resolveNodeIds(file_key_or_url, node_id);
+    // The whole document is needed for the node's parent and siblings
+    const fileData: FigmaFile = await this.makeRequest(`/files/${fileKey}`);
+    const nodePath = findNodePath(fileData, nodeId);
+    if (!nodePath) {
+      throw new McpError(ErrorCode.InvalidParams, `Node ${nodeId} not found in file ${fileKey}`);
+    }
+
+    const node = nodePath[nodePath.length - 1];
+    const parent = nodePath.length > 1 ? nodePath[nodePath.length - 2] : undefined;
+    const { extracted, notes } = await this.loadDesignTokens(fileKey, include_variables, fileData);
+    const inspection = inspectNode(node, {
+      // Pages have no geometry to measure against
+      parent: parent?.type === 'CANVAS' || parent?.type === 'DOCUMENT' ? undefined : parent,
+      tokens: extracted.resolved,
+      styles: fileData.styles || {},
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            file_key: fileKey,
+            ...(parent ? { parent: { id: parent.id, name: parent.name, type: parent.type } } : {}),
+            ...inspection,
+            ...(notes.length ? { notes } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getFigmaComponents(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+    });
+    const { file_key } = schema.parse(args);
+
+    const data = await this.makeRequest(`/files/${file_key}/components`);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getComponentApi(args: any) {
+    const schema = z.object({
+      file_key_or_url: z.string().optional(),
+      component: z.string().optional(),
+    });
+    const { file_key_or_url, component } = schema.parse(args);
+
+    const file_key = this.resolveFileKey(file_key_or_url);
+    const fileData: FigmaFile = await this.makeRequest(`/files/${file_key}`);
+    const apis = buildComponentApis(fileData);
+
+    // An explicit component wins over the node-id of a pasted URL
+    const references = component
+      ? [component]
+      : file_key_or_url?.includes('figma.com') ? this.parseNodeIds(file_key_or_url) : [];
+    let components = apis;
+    if (references.length > 0) {
+      components = references.flatMap(reference => findComponentApi(apis, reference) || []);
+      if (components.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Component "${references.join(', ')}" not found in file ${file_key}`);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            file_key,
+            file_name: fileData.name,
+            total_components: components.length,
+            components,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async exportFigmaImage(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      node_ids: z.array(z.string()),
+      format: z.enum(['jpg', 'png', 'svg', 'pdf']).default('png'),
+      scale: z.number().min(1).max(4).default(1),
+      output: z.enum(['urls', 'image', 'thumbnail']).default('urls'),
+      max_dimension: z.number().int().min(16).max(4096).default(512),
+    });
+    const { file_key, node_ids, format, scale, output, max_dimension } = schema.parse(args);
+
+    if (output === 'urls') {
+      const params = new URLSearchParams({
+        ids: node_ids.join(','),
+        format,
+        scale: scale.toString(),
+      });
+
+      const data = await this.makeRequest(`/images/${file_key}?${params}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (format === 'pdf') {
+      throw new McpError(ErrorCode.InvalidParams, 'PDF exports can only be returned as URLs; use png, jpg or svg for image output');
+    }
+
+    const fileKey = this.parseFileKey(file_key);
+    const ids = node_ids.flatMap(id => this.parseNodeIds(id)).map(id => id.replace(/-/g, ':'));
+    const scales = new Map(ids.map(id => [id, scale]));
+    if (output === 'thumbnail') {
+      // Figma renders at any scale down to 0.01, so thumbnails are sized by the render itself
+      const data: FigmaNodesResponse = await this.makeRequest(`/files/${fileKey}/nodes?ids=${encodeURIComponent(ids.join(','))}&depth=1`);
+      for (const id of ids) {
+        const box = data.nodes?.[id]?.document.absoluteBoundingBox;
+        const longest = box ? Math.max(box.width, box.height) : 0;
+        scales.set(id, longest > 0 ? Math.max(0.01, Math.min(1, Math.floor(max_dimension / longest * 100) / 100)) : 1);
+      }
+    }
+
+    // One render request per distinct scale
+    const urls = new Map<string, string | null>();
+    for (const renderScale of new Set(scales.values())) {
+      const batch = ids.filter(id => scales.get(id) === renderScale);
+      const params = new URLSearchParams({ ids: batch.join(','), format, scale: renderScale.toString() });
+      const data: FigmaImageResponse = await this.makeRequest(`/images/${fileKey}?${params}`);
+      if (data.err) {
+        throw new McpError(ErrorCode.InternalError, `Figma could not render ${batch.join(', ')}: ${data.err}`);
+      }
+      batch.forEach(id => urls.set(id, data.images?.[id] ?? null));
+    }
+
+    const mimeType = IMAGE_MIME_TYPES[format];
+    const images = await Promise.all(ids.map(async (id): Promise<{ id: string; data?: Buffer; error?: string }> => {
+      const url = urls.get(id);
+      if (!url) {
+        return { id, error: 'Figma returned no render for this node; it may be invisible or empty' };
+      }
+      try {
+        const { data } = await this.figmaClient.download(url);
+        return { id, data };
+      } catch (error) {
+        return { id, error: error instanceof Error ? error.message : String(error) };
+      }
+    }));
+
+    const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [{
+      type: 'text',
+      text: JSON.stringify({
+        file_key: fileKey,
+        format,
+        output,
+        images: images.map(image => ({
+          node_id: image.id,
+          scale: scales.get(image.id),
+          ...(image.data ? { bytes: image.data.length } : { error: image.error }),
+        })),
+        ...(output === 'image' && images.some(image => (image.data?.length || 0) > LARGE_IMAGE_BYTES)
+          ? { notes: ['Some images are over 1 MB; use output "thumbnail" to keep responses small'] }
+          : {}),
+      }, null, 2),
+    }];
+    for (const image of images) {
+      if (image.data) {
+        content.push({ type: 'image', data: image.data.toString('base64'), mimeType });
+      }
+    }
+
+    return { content };
+  }
+
+  private async exportFigmaAssets(args: any) {
+    const schema = z.object({
+      file_key_or_url: z.string().optional(),
+      node_ids: z.array(z.string()).optional(),
+      name_pattern: z.string().min(1).optional(),
+      output_directory: z.string().default('assets/figma'),
+      format: z.enum(['jpg', 'png', 'svg', 'pdf']).default('png'),
+      scale: z.number().min(0.01).max(4).default(1),
+      force: z.boolean().default(false),
+    });
+    const { file_key_or_url, node_ids, name_pattern, output_directory, format, scale, force } = schema.parse(args);
+
+    const fileKey = this.resolveFileKey(file_key_or_url);
+    const { roots, version } = await this.loadSubtrees(fileKey, file_key_or_url, node_ids);
+
+    const defaultSetting = {
+      suffix: '',
+      format: format.toUpperCase() as 'JPG' | 'PNG' | 'SVG' | 'PDF',
+      constraint: { type: 'SCALE' as const, value: scale },
+    };
+    const plans = roots.map(root => planAssetExport(root, { namePattern: name_pattern, defaultSetting }));
+    const duplicates = plans.flatMap(plan => plan.duplicates);
+    // The first root to export a file keeps it, matching the collision check within one root
+    const byFile = new Map<string, AssetTarget>();
+    for (const target of plans.flatMap(plan => plan.targets)) {
+      const kept = byFile.get(target.file.toLowerCase());
+      if (!kept) {
+        byFile.set(target.file.toLowerCase(), target);
+      } else if (kept.node_id !== target.node_id) {
+        // Overlapping roots list the same node twice; only different nodes are duplicates
+        duplicates.push({ node_id: target.node_id, node_name: target.node_name, file: target.file, kept: kept.node_id });
+      }
+    }
+    const targets = [...byFile.values()];
+
+    if (targets.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        name_pattern
+          ? `No visible layers named like "${name_pattern}" in file ${fileKey}`
+          : `No nodes with export settings in file ${fileKey}; add exports in Figma or pass name_pattern`
+      );
+    }
+
+    const directory = path.resolve(output_directory);
+    const previous = loadAssetManifest(directory);
+    // A file version Figma hasn't moved past can't have changed any render
+    const sameVersion = !force && previous?.file_key === fileKey && previous.file_version === version;
+    const current = new Set(targets.filter(target => sameVersion && isAssetCurrent(directory, target, previous?.assets[target.file])));
+    const pending = targets.filter(target => !current.has(target));
+
+    // One render request per format and scale, split into batches of node IDs
+    const urls = new Map<AssetTarget, string | null>();
+    const renderErrors = new Map<AssetTarget, string>();
+    const groups = new Map<string, AssetTarget[]>();
+    for (const target of pending) {
+      const key = `${target.format}@${target.scale}`;
+      groups.set(key, [...(groups.get(key) || []), target]);
+    }
+    for (const group of groups.values()) {
+      const ids = [...new Set(group.map(target => target.node_id))];
+      for (let start = 0; start < ids.length; start += ASSET_RENDER_BATCH_SIZE) {
+        const batch = ids.slice(start, start + ASSET_RENDER_BATCH_SIZE);
+        const params = new URLSearchParams({ ids: batch.join(','), format: group[0].format, scale: group[0].scale.toString() });
+        const data: FigmaImageResponse = await this.makeRequest(`/images/${fileKey}?${params}`);
+        for (const target of group.filter(target => batch.includes(target.node_id))) {
+          if (data.err) {
+            renderErrors.set(target, data.err);
+          } else {
+            urls.set(target, data.images?.[target.node_id] ?? null);
+          }
+        }
+      }
+    }
+
+    const manifest: AssetManifest = {
+      version: 1,
+      file_key: fileKey,
+      file_version: version,
+      exported_at: new Date().toISOString(),
+      assets: {},
+    };
+    const results = await Promise.all(targets.map(async target => {
+      const entry = previous?.assets[target.file];
+      if (current.has(target)) {
+        manifest.assets[target.file] = entry!;
+        return { node_id: target.node_id, file: target.file, status: 'unchanged' };
+      }
+
+      const url = urls.get(target);
+      let data: Buffer | undefined;
+      let error = renderErrors.get(target) || 'Figma returned no render for this node; it may be empty';
+      if (url) {
+        try {
+          ({ data } = await this.figmaClient.download(url));
+        } catch (downloadError) {
+          error = downloadError instanceof Error ? downloadError.message : String(downloadError);
+        }
+      }
+      if (!data) {
+        // Keep the last good export on record so a failed render doesn't orphan the file
+        if (entry) {
+          manifest.assets[target.file] = entry;
+        }
+        return { node_id: target.node_id, file: target.file, status: 'failed', error };
+      }
+
+      const sha256 = hashAsset(data);
+      const filePath = path.join(directory, target.file);
+      const exists = fs.existsSync(filePath);
+      const unchanged = exists && hashAsset(fs.readFileSync(filePath)) === sha256;
+      if (!unchanged) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, data);
+      }
+      manifest.assets[target.file] = {
+        node_id: target.node_id,
+        node_name: target.node_name,
+        format: target.format,
+        scale: target.scale,
+        suffix: target.suffix,
+        sha256,
+        bytes: data.length,
+      };
+      return { node_id: target.node_id, file: target.file, status: unchanged ? 'unchanged' : exists ? 'updated' : 'written' };
+    }));
+
+    // Files from earlier exports that nothing exports any more; reported, never deleted
+    const staleFiles = Object.keys(previous?.assets || {})
+      .filter(file => !manifest.assets[file] && !targets.some(target => target.file === file))
+      .filter(file => fs.existsSync(path.join(directory, file)));
+    for (const file of staleFiles) {
+      manifest.assets[file] = previous!.assets[file];
+    }
+    saveAssetManifest(directory, manifest);
 
-    const file_key = this.resolveFileKey(file_key_or_url);
-    const data = await this.makeRequest(`/files/${file_key}`);
-    
+    const count = (status: string) => results.filter(result => result.status === status).length;
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            extracted_file_key: file_key,
-            original_input: file_key_or_url,
-            figma_data: data
+            file_key: fileKey,
+            file_version: version,
+            output_directory: directory,
+            manifest: path.join(directory, ASSET_MANIFEST_FILE),
+            total_assets: results.length,
+            written: count('written'),
+            updated: count('updated'),
+            unchanged: count('unchanged'),
+            failed: count('failed'),
+            rendered: pending.length,
+            assets: results,
+            ...(duplicates.length ? { duplicates } : {}),
+            ...(staleFiles.length ? { stale_files: staleFiles } : {}),
           }, null, 2),
         },
       ],
     };
   }
 
-  private async getFigmaComponents(args: any) {
+  private async exportFigmaIcons(args: any) {
     const schema = z.object({
-      file_key: z.string(),
+      file_key_or_url: z.string().optional(),
+      name_prefix: z.string().default('Icons/'),
+      output_directory: z.string().default('src/icons'),
+      framework: z.enum(['react', 'vue']).default('react'),
+      sprite: z.boolean().default(false),
+      current_color: z.boolean().default(true),
     });
-    const { file_key } = schema.parse(args);
+    const { file_key_or_url, name_prefix, output_directory, framework, sprite, current_color } = schema.parse(args);
+
+    const fileKey = this.resolveFileKey(file_key_or_url);
+    const data = await this.makeRequest(`/files/${fileKey}/components`);
+    const container = name_prefix.replace(/\/+$/, '').toLowerCase();
+    const sources: Array<{ node_id: string; figma_name: string }> = (data.meta?.components || []).flatMap((component: any) => {
+      // Variants are named after their set plus their values: `Icons/Arrow` + `Size=24` → `Icons/Arrow/24`
+      const set = component.containing_frame?.containingComponentSet;
+      const figmaPath = set
+        ? [set.name, ...Object.values(parseVariantName(component.name))].join('/')
+        : component.name;
+      const frame = component.containing_frame;
+      const isIcon = figmaPath.toLowerCase().startsWith(name_prefix.toLowerCase())
+        || frame?.name?.toLowerCase() === container
+        || frame?.pageName?.toLowerCase() === container;
+      return isIcon ? [{ node_id: component.node_id, figma_name: figmaPath }] : [];
+    });
+    if (sources.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No components named "${name_prefix}…" or placed under "${container}" in file ${fileKey}`);
+    }
+
+    // Two components can flatten to the same name, e.g. `Arrow Left` and `Arrow/Left`
+    const used = new Set<string>();
+    const named = sources
+      .sort((a, b) => a.figma_name.localeCompare(b.figma_name))
+      .map(source => {
+        const base = iconName(source.figma_name, name_prefix);
+        let name = base;
+        for (let n = 2; used.has(name); n++) {
+          name = `${base}-${n}`;
+        }
+        used.add(name);
+        return { ...source, name };
+      });
+
+    const urls = new Map<string, string | null>();
+    for (let start = 0; start < named.length; start += ASSET_RENDER_BATCH_SIZE) {
+      const batch = named.slice(start, start + ASSET_RENDER_BATCH_SIZE).map(icon => icon.node_id);
+      const params = new URLSearchParams({ ids: batch.join(','), format: 'svg' });
+      const images: FigmaImageResponse = await this.makeRequest(`/images/${fileKey}?${params}`);
+      if (images.err) {
+        throw new McpError(ErrorCode.InternalError, `Figma could not render the icons: ${images.err}`);
+      }
+      batch.forEach(id => urls.set(id, images.images?.[id] ?? null));
+    }
+
+    const failed: Array<{ node_id: string; figma_name: string; error: string }> = [];
+    const icons = (await Promise.all(named.map(async source => {
+      const url = urls.get(source.node_id);
+      if (!url) {
+        failed.push({ ...source, error: 'Figma returned no render for this component; it may be empty' });
+        return undefined;
+      }
+      try {
+        const { data: svg } = await this.figmaClient.download(url);
+        const icon: IconDefinition = {
+          node_id: source.node_id,
+          figma_name: source.figma_name,
+          name: source.name,
+          component_name: iconComponentName(source.name),
+          svg: normalizeSvg(svg.toString('utf8'), { idPrefix: source.name, currentColor: current_color }),
+        };
+        return icon;
+      } catch (error) {
+        failed.push({ ...source, error: error instanceof Error ? error.message : String(error) });
+        return undefined;
+      }
+    }))).filter((icon): icon is IconDefinition => !!icon);
+
+    const directory = path.resolve(output_directory);
+    const files = generateIconPackage(icons, { framework, sprite });
+    const written: string[] = [];
+    for (const file of files) {
+      const filePath = path.join(directory, file.path);
+      // Unchanged files are left alone so regenerating doesn't touch timestamps or diffs
+      if (!fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf8') !== file.content) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, file.content);
+        written.push(file.path);
+      }
+    }
+
+    // Icon components from earlier runs whose Figma component is gone; reported, never deleted
+    const extension = framework === 'vue' ? '.vue' : '.tsx';
+    const generated = new Set(files.map(file => file.path));
+    const staleFiles = fs.readdirSync(directory)
+      .filter(file => file.endsWith(`Icon${extension}`) && !generated.has(file));
+
+    const sizes: Record<string, number> = {};
+    for (const icon of icons) {
+      const size = `${icon.svg.width}x${icon.svg.height}`;
+      sizes[size] = (sizes[size] || 0) + 1;
+    }
 
-    const data = await this.makeRequest(`/files/${file_key}/components`);
-    
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(data, null, 2),
+          text: JSON.stringify({
+            file_key: fileKey,
+            framework,
+            output_directory: directory,
+            total_icons: icons.length,
+            files_written: written.length,
+            files_unchanged: files.length - written.length,
+            sizes,
+            icons: icons.map(icon => ({
+              name: icon.name,
+              component: icon.component_name,
+              node_id: icon.node_id,
+              figma_name: icon.figma_name,
+              view_box: icon.svg.viewBox,
+              ...(icon.svg.monochrome ? {} : { multicolor: icon.svg.colors }),
+            })),
+            written,
+            ...(failed.length ? { failed } : {}),
+            ...(staleFiles.length ? { stale_files: staleFiles } : {}),
+          }, null, 2),
         },
       ],
     };
   }
 
-  private async exportFigmaImage(args: any) {
+  private async exportFigmaImageFills(args: any) {
     const schema = z.object({
-      file_key: z.string(),
-      node_ids: z.array(z.string()),
-      format: z.enum(['jpg', 'png', 'svg', 'pdf']).default('png'),
-      scale: z.number().min(1).max(4).default(1),
+      file_key_or_url: z.string().optional(),
+      node_ids: z.array(z.string()).optional(),
+      output_directory: z.string().default('assets/images'),
+      download: z.boolean().default(true),
     });
-    const { file_key, node_ids, format, scale } = schema.parse(args);
+    const { file_key_or_url, node_ids, output_directory, download } = schema.parse(args);
+
+    const fileKey = this.resolveFileKey(file_key_or_url);
+    const { roots } = await this.loadSubtrees(fileKey, file_key_or_url, node_ids);
+    const usages = new Map<string, ImageFillUsage[]>();
+    for (const root of roots) {
+      for (const [ref, nodes] of collectImageFills(root)) {
+        // Overlapping subtrees report the same layer twice
+        const known = new Set((usages.get(ref) || []).map(usage => usage.node_id));
+        usages.set(ref, [...(usages.get(ref) || []), ...nodes.filter(usage => !known.has(usage.node_id))]);
+      }
+    }
 
-    const params = new URLSearchParams({
-      ids: node_ids.join(','),
-      format,
-      scale: scale.toString(),
-    });
+    // Image fill URLs are only available for the whole file, not per ref
+    const data = usages.size > 0 ? await this.makeRequest(`/files/${fileKey}/images`) : { meta: { images: {} } };
+    const urls: Record<string, string | null> = data.meta?.images || {};
+    const directory = path.resolve(output_directory);
+    const existingFiles = fs.existsSync(directory) ? fs.readdirSync(directory) : [];
+
+    const images = await Promise.all([...usages].map(async ([ref, nodes]) => {
+      const url = urls[ref];
+      if (!url) {
+        return { image_ref: ref, error: 'Figma has no image for this ref; it may have been removed from the file', nodes };
+      }
+      if (!download) {
+        return { image_ref: ref, url, nodes };
+      }
+
+      let downloaded: FigmaDownload;
+      try {
+        downloaded = await this.figmaClient.download(url);
+      } catch (error) {
+        return { image_ref: ref, error: error instanceof Error ? error.message : String(error), nodes };
+      }
+      const { data: image, contentType } = downloaded;
+      // The ref keeps the name unique; the first layer's name makes it recognisable. An earlier export
+      // of the same image keeps its name, even when this run sees a different layer first
+      const suffix = `-${ref.slice(0, 8)}.${imageExtension(image, contentType)}`;
+      const file = existingFiles.find(existing => existing.endsWith(suffix))
+        || `${formatTokenName([nodes[0].node_name], 'kebab') || 'image'}${suffix}`;
+      const filePath = path.join(directory, file);
+      const status = !fs.existsSync(filePath) ? 'written' : fs.readFileSync(filePath).equals(image) ? 'unchanged' : 'updated';
+      if (status !== 'unchanged') {
+        fs.mkdirSync(directory, { recursive: true });
+        fs.writeFileSync(filePath, image);
+      }
+      return { image_ref: ref, file, status, bytes: image.length, nodes };
+    }));
 
-    const data = await this.makeRequest(`/images/${file_key}?${params}`);
-    
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(data, null, 2),
+          text: JSON.stringify({
+            file_key: fileKey,
+            ...(download ? { output_directory: directory } : {}),
+            total_images: images.length,
+            total_layers: images.reduce((sum, image) => sum + image.nodes.length, 0),
+            images,
+          }, null, 2),
         },
       ],
     };
@@ -543,6 +1920,114 @@ class FigmaMCPServer {
     };
   }
 
+  private async extractDesignTokens(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      include_variables: z.boolean().default(true),
+      output_path: z.string().optional(),
+    });
+    const { file_key, include_variables, output_path } = schema.parse(args);
+
+    const fileKey = this.parseFileKey(file_key);
+    const { extracted, notes } = await this.loadDesignTokens(fileKey, include_variables);
+
+    if (output_path) {
+      fs.mkdirSync(path.dirname(path.resolve(output_path)), { recursive: true });
+      fs.writeFileSync(output_path, JSON.stringify(extracted.tokens, null, 2));
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            file_key: fileKey,
+            token_count: extracted.resolved.length,
+            unresolved_styles: extracted.unresolved,
+            notes,
+            ...(output_path ? { written_to: output_path } : { tokens: extracted.tokens }),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async exportDesignTokens(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      format: z.string().default('css'),
+      naming: z.enum(['kebab', 'camel', 'snake']).default('kebab'),
+      prefix: z.string().optional(),
+      include_variables: z.boolean().default(true),
+      output_path: z.string().optional(),
+    });
+    const { file_key, format, naming, prefix, include_variables, output_path } = schema.parse(args);
+
+    const formatter = getTokenFormatter(format);
+    if (!formatter) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown token format: ${format}. Available formats: ${listTokenFormats().join(', ')}`
+      );
+    }
+
+    const fileKey = this.parseFileKey(file_key);
+    const { extracted, notes } = await this.loadDesignTokens(fileKey, include_variables);
+    const output = formatter.format({ tokens: extracted.resolved, tree: extracted.tokens }, { naming, prefix });
+
+    if (output_path) {
+      fs.mkdirSync(path.dirname(path.resolve(output_path)), { recursive: true });
+      fs.writeFileSync(output_path, output);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              file_key: fileKey,
+              format,
+              token_count: extracted.resolved.length,
+              unresolved_styles: extracted.unresolved.length,
+              notes,
+              written_to: output_path,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: output,
+        },
+      ],
+    };
+  }
+
+  private async loadDesignTokens(
+    fileKey: string,
+    includeVariables: boolean,
+    file?: FigmaFile
+  ): Promise<{ extracted: ExtractedTokens; notes: string[] }> {
+    const notes: string[] = [];
+    const fileData: FigmaFile = file || await this.makeRequest(`/files/${fileKey}`);
+
+    let variables: FigmaLocalVariablesResponse['meta'] | undefined;
+    if (includeVariables) {
+      try {
+        const variablesData: FigmaLocalVariablesResponse = await this.makeRequest(`/files/${fileKey}/variables/local`);
+        variables = variablesData.meta;
+      } catch (error) {
+        // The variables API is limited to Enterprise plans; styles still resolve without it
+        notes.push(`Variables were skipped: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return { extracted: extractDesignTokens(fileData, variables), notes };
+  }
+
   private async getFigmaVersionHistory(args: any) {
     const schema = z.object({
       file_key: z.string(),
@@ -580,90 +2065,539 @@ class FigmaMCPServer {
       const fileData = await this.makeRequest(`/files/${file_key}`);
       
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              file_key,
-              basic_info: {
-                name: fileData.name,
-                version: fileData.version,
-                lastModified: fileData.lastModified,
-              },
-              note: 'Full version history may require additional permissions',
-            }, null, 2),
-          },
-        ],
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              file_key,
+              basic_info: {
+                name: fileData.name,
+                version: fileData.version,
+                lastModified: fileData.lastModified,
+              },
+              note: 'Full version history may require additional permissions',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private async diffFigmaVersions(args: any) {
+    const schema = z.object({
+      file_key_or_url: z.string().optional(),
+      from_version: z.string().optional(),
+      to_version: z.string().optional(),
+    });
+    const { file_key_or_url, from_version, to_version } = schema.parse(args);
+    const fileKey = this.resolveFileKey(file_key_or_url);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(await this.loadVersionDiff(fileKey, from_version, to_version), null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Structural diff and changelog between two versions of a file, defaulting to the current file
+   * compared with the latest named version before it
+   */
+  private async loadVersionDiff(fileKey: string, from_version?: string, to_version?: string) {
+    const versionsData = await this.makeRequest(`/files/${fileKey}/versions`);
+    const versions: Array<{ id: string; created_at: string; label?: string | null }> = versionsData.versions || [];
+
+    let fromVersion = from_version;
+    if (!fromVersion) {
+      // Versions are listed newest first. The newest one is usually the current file, so without
+      // to_version the search starts one further back
+      const toIndex = to_version ? versions.findIndex(version => version.id === to_version) : 0;
+      if (toIndex === -1) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Version ${to_version} is not in the recent history of file ${fileKey}; pass from_version as well`
+        );
+      }
+      const older = versions.slice(toIndex + 1);
+      fromVersion = (older.find(version => version.label) || older[0])?.id;
+      if (!fromVersion) {
+        throw new McpError(ErrorCode.InvalidParams, `File ${fileKey} has no earlier version to compare with; pass from_version`);
+      }
+    }
+    if (fromVersion === to_version) {
+      throw new McpError(ErrorCode.InvalidParams, 'from_version and to_version are the same version');
+    }
+
+    const [before, after]: FigmaFile[] = await Promise.all([
+      this.makeRequest(`/files/${fileKey}?version=${encodeURIComponent(fromVersion)}`),
+      this.makeRequest(to_version ? `/files/${fileKey}?version=${encodeURIComponent(to_version)}` : `/files/${fileKey}`),
+    ]);
+
+    const describe = (id: string | undefined, file: FigmaFile) => {
+      const version = versions.find(candidate => candidate.id === (id || file.version));
+      return {
+        id: id || file.version,
+        ...(version?.label ? { label: version.label } : {}),
+        created_at: version?.created_at || file.lastModified,
+        ...(id ? {} : { current: true }),
+      };
+    };
+    const from = describe(fromVersion, before);
+    const to = describe(to_version, after);
+    const diff = diffFigmaFiles(before, after);
+    const title = `Design changes: ${after.name} (${from.label || from.created_at} → ${to.label || (to_version ? to.created_at : 'current')})`;
+
+    return {
+      file_key: fileKey,
+      from,
+      to,
+      ...diff,
+      changelog: formatDesignChangelog(diff, title),
+    };
+  }
+
+  private async mapFigmaToCodeComponents(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      code_directory: z.string(),
+      framework: z.enum(['react', 'vue', 'angular', 'svelte', 'vanilla']).default('react'),
+      include_props_analysis: z.boolean().default(true),
+      exact_threshold: z.number().min(0).max(1).optional(),
+      similar_threshold: z.number().min(0).max(1).optional(),
+    });
+    const { file_key, code_directory, framework, include_props_analysis, exact_threshold, similar_threshold } = schema.parse(args);
+    const fileKey = this.resolveFileKey(file_key);
+    const matching = this.config.component_matching || {};
+    const thresholds = {
+      exact: exact_threshold ?? matching.exact_threshold ?? 0.95,
+      similar: similar_threshold ?? matching.similar_threshold ?? 0.5,
+    };
+
+    try {
+      // Get Figma components
+      const { figmaComponents, groups } = await this.loadFigmaComponentGroups(fileKey);
+      
+      // Scan code directory for components
+      const codeComponents = this.scanCodeComponents(code_directory, framework);
+      
+      // Create mapping suggestions
+      const mappings = this.createComponentMappings(
+        fileKey,
+        groups,
+        codeComponents,
+        include_props_analysis,
+        thresholds
+      );
+      mappings.broken_links = await this.findBrokenFigmaLinks(codeComponents);
+
+      const result = {
+        file_key: fileKey,
+        code_directory,
+        framework,
+        thresholds,
+        registry: this.codeMap.path,
+        analysis_timestamp: new Date().toISOString(),
+        figma_components_count: Object.keys(figmaComponents.meta?.components || {}).length,
+        code_components_count: codeComponents.length,
+        mappings,
+        suggestions: this.generateMappingSuggestions(mappings),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new McpError(ErrorCode.InternalError, `Component mapping failed: ${error}`);
+    }
+  }
+
+  private async updateComponentMapping(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      component: z.string(),
+      action: z.enum(['confirm', 'reject', 'remove']),
+      code_path: z.string().optional(),
+      code_component: z.string().optional(),
+      import_specifier: z.string().optional(),
+      note: z.string().optional(),
+    });
+    const { file_key, component, action, code_path, code_component, import_specifier, note } = schema.parse(args);
+
+    if (action === 'confirm' && !code_path) {
+      throw new McpError(ErrorCode.InvalidParams, 'code_path is required to confirm a mapping');
+    }
+    if (code_path && action === 'confirm' && !fs.existsSync(code_path)) {
+      throw new McpError(ErrorCode.InvalidParams, `Code file not found: ${code_path}`);
+    }
+
+    const fileKey = this.parseFileKey(file_key);
+    const { groups } = await this.loadFigmaComponentGroups(fileKey);
+    const group = this.findFigmaComponentGroup(groups, component);
+    if (!group?.key) {
+      throw new McpError(ErrorCode.InvalidParams, `Component "${component}" not found in file ${fileKey}`);
+    }
+
+    let codeComponent = code_component;
+    if (action === 'confirm' && !codeComponent) {
+      // Name the confirmed component the way the scanner sees it
+      const content = fs.readFileSync(code_path as string, 'utf8');
+      const framework = this.frameworkForFile(code_path as string, content);
+      codeComponent = this.extractComponentInfo(code_path as string, content, framework)?.name;
+    }
+
+    const entry = action === 'remove'
+      ? this.codeMap.update(group.key, { action })
+      : action === 'confirm'
+        ? this.codeMap.update(group.key, {
+          action,
+          figmaName: group.name,
+          fileKey,
+          codePath: code_path as string,
+          codeComponent,
+          importSpecifier: import_specifier,
+          note,
+        })
+        : this.codeMap.update(group.key, { action, figmaName: group.name, fileKey, codePath: code_path, note });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            registry: this.codeMap.path,
+            component_key: group.key,
+            figma_name: group.name,
+            action,
+            entry: entry || null,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async loadFigmaComponentGroups(fileKey: string): Promise<{ figmaComponents: any; groups: FigmaComponentGroup[] }> {
+    const [figmaComponents, componentSets] = await Promise.all([
+      this.makeRequest(`/files/${fileKey}/components`),
+      this.makeRequest(`/files/${fileKey}/component_sets`),
+    ]);
+    return {
+      figmaComponents,
+      groups: this.groupFigmaComponents(figmaComponents.meta?.components || {}, componentSets.meta?.component_sets || []),
+    };
+  }
+
+  private findFigmaComponentGroup(groups: FigmaComponentGroup[], reference: string): FigmaComponentGroup | undefined {
+    const nodeId = reference.replace(/-/g, ':');
+    return groups.find(group => group.key === reference)
+      || groups.find(group => group.id === nodeId || group.variant_ids?.includes(nodeId) || group.variant_keys?.includes(reference))
+      || groups.find(group => group.name.toLowerCase() === reference.toLowerCase());
+  }
+
+  private frameworkForFile(filePath: string, content: string): string {
+    switch (path.extname(filePath)) {
+      case '.vue':
+        return 'vue';
+      case '.svelte':
+        return 'svelte';
+      default:
+        return /@Component\s*\(/.test(content) ? 'angular' : 'react';
+    }
+  }
+
+  private async scaffoldFigmaComponents(args: any) {
+    const schema = z.object({
+      file_key: z.string(),
+      code_directory: z.string(),
+      framework: z.enum(['react', 'vue', 'angular', 'svelte']).default('react'),
+      components: z.array(z.string()).optional(),
+      output: z.enum(['patch', 'write']).default('patch'),
+      include_variables: z.boolean().default(true),
+    });
+    const { file_key, code_directory, framework, components, output, include_variables } = schema.parse(args);
+
+    const fileKey = this.parseFileKey(file_key);
+    const fileData: FigmaFile = await this.makeRequest(`/files/${fileKey}`);
+    const apis = buildComponentApis(fileData);
+
+    let targets: ComponentApi[];
+    if (components?.length) {
+      targets = components.map(reference => {
+        const api = this.componentApiForReference(fileData, apis, reference);
+        if (!api) {
+          throw new McpError(ErrorCode.InvalidParams, `Component "${reference}" not found in file ${fileKey}`);
+        }
+        return api;
+      });
+    } else {
+      // The same missing_in_code list map_figma_to_code_components reports, registry decisions included
+      const matching = this.config.component_matching || {};
+      const { groups } = await this.loadFigmaComponentGroups(fileKey);
+      const mappings = this.createComponentMappings(
+        fileKey,
+        groups,
+        this.scanCodeComponents(code_directory, framework),
+        false,
+        { exact: matching.exact_threshold ?? 0.95, similar: matching.similar_threshold ?? 0.5 }
+      );
+      targets = mappings.missing_in_code.flatMap((missing: any) => this.componentApiForReference(fileData, apis, missing.figma_id) || []);
+    }
+
+    const { extracted, notes } = await this.loadDesignTokens(fileKey, include_variables, fileData);
+    const fileSlug = fileData.name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '') || 'file';
+    const patchFiles: ScaffoldFile[] = [];
+
+    const results = targets.map(api => {
+      const node = findNodeById(fileData, api.id);
+      const variants = node?.type === 'COMPONENT_SET' ? node.children || [] : node ? [node] : [];
+      const scaffold = scaffoldComponent(api, {
+        framework,
+        tokens: extracted.resolved,
+        nodes: new Map(variants.map(variant => [variant.id, variant])),
+        figmaUrl: `https://www.figma.com/design/${fileKey}/${fileSlug}?node-id=${api.id.replace(/:/g, '-')}`,
+      });
+
+      const files = scaffold.files.map(file => ({ ...file, path: path.join(code_directory, file.path) }));
+      // Never overwrite: a component with any existing file is left alone entirely
+      const existing = files.filter(file => fs.existsSync(file.path)).map(file => file.path);
+      if (existing.length === 0) {
+        if (output === 'write') {
+          for (const file of files) {
+            fs.mkdirSync(path.dirname(file.path), { recursive: true });
+            fs.writeFileSync(file.path, file.content);
+          }
+        } else {
+          patchFiles.push(...files.map(file => ({
+            ...file,
+            path: path.relative(process.cwd(), path.resolve(file.path)).split(path.sep).join('/'),
+          })));
+        }
+      }
+
+      return {
+        figma_name: scaffold.figma_name,
+        component_name: scaffold.component_name,
+        status: existing.length > 0 ? 'skipped_existing' : output === 'write' ? 'written' : 'in_patch',
+        files: files.map(file => file.path),
+        ...(existing.length > 0 ? { existing_files: existing } : {}),
+        tokens_used: scaffold.tokens_used,
+        untokenized_values: scaffold.untokenized_values,
+        ...(scaffold.omitted_styles.length ? { omitted_styles: scaffold.omitted_styles } : {}),
       };
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            file_key: fileKey,
+            framework,
+            output,
+            total_components: results.length,
+            components: results,
+            ...(notes.length ? { notes } : {}),
+            ...(output === 'patch' && patchFiles.length > 0 ? { patch: formatNewFilePatch(patchFiles) } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * The nodes a URL's node-id or explicit node IDs point at, or the whole document when neither is given
+   */
+  private async loadSubtrees(fileKey: string, fileKeyOrUrl?: string, nodeIds?: string[]): Promise<{ roots: FigmaNode[]; version: string }> {
+    const subtree = !!nodeIds?.length || (!!fileKeyOrUrl?.includes('figma.com') && this.parseNodeIds(fileKeyOrUrl).length > 0);
+    if (!subtree) {
+      const fileData: FigmaFile = await this.makeRequest(`/files/${fileKey}`);
+      return { roots: [fileData.document as unknown as FigmaNode], version: fileData.version };
+    }
+
+    const ids = this.resolveNodeIds(fileKeyOrUrl, nodeIds);
+    const data: FigmaNodesResponse = await this.makeRequest(`/files/${fileKey}/nodes?ids=${encodeURIComponent(ids.join(','))}`);
+    const missing = ids.filter(id => !data.nodes?.[id]);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Node ${missing.join(', ')} not found in file ${fileKey}`);
     }
+    return { roots: ids.map(id => data.nodes[id]!.document), version: data.version };
   }
 
-  private async mapFigmaToCodeComponents(args: any) {
+  /**
+   * Component API for a key, node ID or name, including plain components that declare no properties
+   */
+  private componentApiForReference(fileData: FigmaFile, apis: ComponentApi[], reference: string): ComponentApi | undefined {
+    const api = findComponentApi(apis, reference);
+    if (api) {
+      return api;
+    }
+    const id = Object.keys(fileData.components || {}).find(nodeId => fileData.components[nodeId].key === reference)
+      || reference.replace(/-/g, ':');
+    const node = findNodeById(fileData, id);
+    return node && (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') ? componentApiForNode(node, fileData) : undefined;
+  }
+
+  private async generateCodeForNode(args: any) {
     const schema = z.object({
-      file_key: z.string(),
-      code_directory: z.string(),
-      framework: z.enum(['react', 'vue', 'angular', 'svelte', 'vanilla']).default('react'),
-      include_props_analysis: z.boolean().default(true),
+      file_key_or_url: z.string().optional(),
+      node_id: z.string().optional(),
+      format: z.enum(['jsx', 'html']).default('jsx'),
+      styling: z.enum(['css', 'tailwind']).default('css'),
+      code_directory: z.string().optional(),
+      framework: z.enum(['react', 'vue', 'angular', 'svelte']).default('react'),
+      include_variables: z.boolean().default(true),
     });
-    const { file_key, code_directory, framework, include_props_analysis } = schema.parse(args);
+    const { file_key_or_url, node_id, format, styling, code_directory, framework, include_variables } = schema.parse(args);
+
+    const fileKey = this.resolveFileKey(file_key_or_url);
+    const [nodeId] = this.resolveNodeIds(file_key_or_url, node_id);
+    const data: FigmaNodesResponse = await this.makeRequest(`/files/${fileKey}/nodes?ids=${encodeURIComponent(nodeId)}`);
+    const entry = data.nodes?.[nodeId];
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `Node ${nodeId} not found in file ${fileKey}`);
+    }
 
-    try {
-      // Get Figma components
-      const figmaComponents = await this.makeRequest(`/files/${file_key}/components`);
-      
-      // Scan code directory for components
-      const codeComponents = this.scanCodeComponents(code_directory, framework);
-      
-      // Create mapping suggestions
+    const notes: string[] = [];
+    const codeComponents: CodeComponent[] = code_directory ? this.scanCodeComponents(code_directory, framework) : [];
+    // Code components by Figma component (set) key: the registry's confirmed mappings, then exact matches
+    const mapped = new Map<string, CodeComponent & { import_specifier?: string }>();
+    if (code_directory && format === 'jsx') {
+      const matching = this.config.component_matching || {};
+      const { groups } = await this.loadFigmaComponentGroups(fileKey);
       const mappings = this.createComponentMappings(
-        figmaComponents.meta?.components || {},
+        fileKey,
+        groups,
         codeComponents,
-        include_props_analysis
+        false,
+        { exact: matching.exact_threshold ?? 0.95, similar: matching.similar_threshold ?? 0.5 }
       );
+      for (const match of mappings.exact_matches) {
+        if (match.figma_key) {
+          mapped.set(match.figma_key, { ...match.code_component, import_specifier: match.import_specifier });
+        }
+      }
+    }
 
-      const result = {
-        file_key,
-        code_directory,
-        framework,
-        analysis_timestamp: new Date().toISOString(),
-        figma_components_count: Object.keys(figmaComponents.meta?.components || {}).length,
-        code_components_count: codeComponents.length,
-        mappings,
-        suggestions: this.generateMappingSuggestions(mappings),
-      };
+    const componentFor = (instance: FigmaNode): CodegenComponent | undefined => {
+      const component = entry.components?.[instance.componentId || ''];
+      if (!component) {
+        return undefined;
+      }
+      const setKey = component.componentSetId ? entry.componentSets?.[component.componentSetId]?.key : undefined;
+      for (const key of [setKey, component.key]) {
+        const registered = this.codeMap.get(key);
+        if (registered?.status === 'confirmed' && registered.code_component) {
+          const code = this.loadConfirmedCodeComponent(registered, codeComponents, framework);
+          return {
+            name: registered.code_component,
+            import_specifier: registered.import_specifier,
+            default_export: code?.default_export,
+            props: code?.prop_details,
+          };
+        }
+        const code = key ? mapped.get(key) : undefined;
+        if (code) {
+          return {
+            name: code.name,
+            import_specifier: code.import_specifier
+              || defaultImportSpecifier(path.relative(process.cwd(), path.resolve(code.path)).split(path.sep).join('/')),
+            default_export: code.default_export,
+            props: code.prop_details,
+          };
+        }
+      }
+      return undefined;
+    };
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      throw new McpError(ErrorCode.InternalError, `Component mapping failed: ${error}`);
+    const { extracted, notes: tokenNotes } = await this.loadDesignTokens(fileKey, include_variables);
+    notes.push(...tokenNotes);
+    const generated = generateNodeCode(entry.document, {
+      format,
+      styling,
+      tokens: extracted.resolved,
+      componentFor,
+    });
+
+    if (format === 'html' && this.containsInstances(entry.document)) {
+      notes.push('Instances are expanded into plain markup in HTML output; use format "jsx" to render mapped components');
+    }
+    if (generated.tokens_used.length > 0) {
+      notes.push('Token references assume the stylesheet from export_design_tokens with format "css" is loaded');
     }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            file_key: fileKey,
+            node_id: nodeId,
+            node_name: entry.document.name,
+            format,
+            styling,
+            ...generated,
+            ...(notes.length ? { notes } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private containsInstances(node: FigmaNode): boolean {
+    return (node.children || []).some(child => child.type === 'INSTANCE' || this.containsInstances(child));
   }
 
   private async generateComponentUsageGuide(args: any) {
     const schema = z.object({
       file_key: z.string(),
-      component_mappings: z.object({}).optional(),
+      component_mappings: z.record(z.union([
+        z.string(),
+        z.object({
+          code_component: z.string(),
+          import_specifier: z.string().optional(),
+          code_path: z.string().optional(),
+        }),
+      ])).optional(),
       output_format: z.enum(['markdown', 'json', 'typescript']).default('markdown'),
     });
     const { file_key, component_mappings, output_format } = schema.parse(args);
+    const fileKey = this.resolveFileKey(file_key);
 
     try {
       // Get Figma file and components data
-      const [fileData, componentsData] = await Promise.all([
-        this.makeRequest(`/files/${file_key}`),
-        this.makeRequest(`/files/${file_key}/components`),
+      const [fileData, { figmaComponents: componentsData, groups }] = await Promise.all([
+        this.makeRequest(`/files/${fileKey}`),
+        this.loadFigmaComponentGroups(fileKey),
       ]);
 
+      // Confirmed registry entries first, then per-call mappings on top
+      const mappings: Record<string, UsageGuideMapping> = {};
+      for (const group of groups) {
+        const entry = this.codeMap.get(group.key);
+        if (entry?.status === 'confirmed' && entry.code_component) {
+          mappings[group.name] = this.toUsageGuideMapping(entry, 'registry');
+        }
+      }
+      for (const [figmaName, mapping] of Object.entries(component_mappings || {})) {
+        mappings[figmaName] = typeof mapping === 'string'
+          ? { code_component: mapping, source: 'manual' }
+          : { ...mapping, source: 'manual' };
+      }
+
       const usageGuide = this.generateUsageGuideContent(
         fileData,
         componentsData,
-        component_mappings || {},
+        mappings,
         output_format
       );
 
@@ -676,6 +2610,9 @@ class FigmaMCPServer {
         ],
       };
     } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new McpError(ErrorCode.InternalError, `Usage guide generation failed: ${error}`);
     }
   }
@@ -686,8 +2623,9 @@ class FigmaMCPServer {
       code_directory: z.string(),
       check_styles: z.boolean().default(true),
       check_components: z.boolean().default(true),
+      framework: z.enum(['react', 'vue', 'angular', 'svelte', 'vanilla']).default('react'),
     });
-    const { file_key, code_directory, check_styles, check_components } = schema.parse(args);
+    const { file_key, code_directory, check_styles, check_components, framework } = schema.parse(args);
 
     try {
       const consistencyReport: any = {
@@ -700,7 +2638,7 @@ class FigmaMCPServer {
       };
 
       if (check_components) {
-        const componentsAnalysis = await this.checkComponentConsistency(file_key, code_directory);
+        const componentsAnalysis = await this.checkComponentConsistency(file_key, code_directory, framework);
         consistencyReport.components = componentsAnalysis;
         consistencyReport.issues.push(...componentsAnalysis.issues);
       }
@@ -724,13 +2662,51 @@ class FigmaMCPServer {
         ],
       };
     } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       throw new McpError(ErrorCode.InternalError, `Consistency analysis failed: ${error}`);
     }
   }
 
+  private async clearCache(args: any) {
+    const schema = z.object({
+      file_key: z.string().optional(),
+    });
+    const { file_key } = schema.parse(args);
+
+    const fileKey = file_key ? this.parseFileKey(file_key) : undefined;
+    const removed = this.figmaCache.clear(fileKey);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            cleared: fileKey || 'all',
+            ...removed,
+            stats: this.figmaCache.stats(),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async getCacheStats() {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(this.figmaCache.stats(), null, 2),
+        },
+      ],
+    };
+  }
+
   // Helper methods for component mapping and analysis
   private scanCodeComponents(directory: string, framework: string): any[] {
     const components: any[] = [];
+    const annotations: Array<FigmaAnnotation & { path: string }> = [];
     
     try {
       if (!fs.existsSync(directory)) {
@@ -746,6 +2722,7 @@ class FigmaMCPServer {
           if (componentInfo) {
             components.push(componentInfo);
           }
+          annotations.push(...extractFigmaAnnotations(content).map(annotation => ({ ...annotation, path: file })));
         } catch (error) {
           // Skip files that can't be read
         }
@@ -754,9 +2731,117 @@ class FigmaMCPServer {
       // Directory doesn't exist or can't be accessed
     }
 
+    this.attachFigmaLinks(components, annotations);
     return components;
   }
 
+  private attachFigmaLinks(components: CodeComponent[], annotations: Array<FigmaAnnotation & { path: string }>): void {
+    for (const { component, path: declaredIn, ...link } of annotations) {
+      // figma.connect(Button, ...) may live in a separate Button.figma.tsx; tags belong to their own file
+      const target = component
+        ? components.find(cc => cc.path === declaredIn && cc.name === component)
+          || components.find(cc => cc.name === component)
+          || components.find(cc => cc.path === declaredIn)
+        : components.find(cc => cc.path === declaredIn);
+      if (!target) {
+        continue;
+      }
+      target.figma_links = [
+        ...(target.figma_links || []),
+        {
+          ...link,
+          ...(target.path !== declaredIn ? { declared_in: declaredIn } : {}),
+          ...(component && target.name !== component ? { symbol: component } : {}),
+        },
+      ];
+    }
+  }
+
+  /**
+   * The code component a source annotation links to one of the given Figma node IDs in this file
+   */
+  private findAnnotatedComponent(fileKey: string, nodeIds: string[], codeComponents: CodeComponent[]): { component: CodeComponent; link: FigmaLink } | undefined {
+    for (const component of codeComponents) {
+      const link = component.figma_links?.find(candidate =>
+        !candidate.symbol && candidate.file_key === fileKey && !!candidate.node_id && nodeIds.includes(candidate.node_id));
+      if (link) {
+        return { component, link };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check every source annotation still points at an existing Figma file and node. A failed
+   * lookup is reported on the links it covers rather than failing the caller's tool
+   */
+  private async findBrokenFigmaLinks(codeComponents: CodeComponent[]): Promise<any[]> {
+    const broken: any[] = [];
+    const byFile = new Map<string, Array<{ component: CodeComponent; link: FigmaLink }>>();
+
+    for (const component of codeComponents) {
+      for (const link of component.figma_links || []) {
+        if (!link.file_key || !link.node_id) {
+          broken.push({ ...this.describeLink(component, link), reason: 'invalid_url' });
+          continue;
+        }
+        byFile.set(link.file_key, [...(byFile.get(link.file_key) || []), { component, link }]);
+      }
+    }
+
+    for (const [fileKey, links] of byFile) {
+      const ids = [...new Set(links.map(({ link }) => link.node_id as string))];
+      const failures = new Map<string, { reason: string; error?: string }>();
+      const batches: string[][] = [];
+      for (let start = 0; start < ids.length; start += ASSET_RENDER_BATCH_SIZE) {
+        batches.push(ids.slice(start, start + ASSET_RENDER_BATCH_SIZE));
+      }
+
+      while (batches.length > 0) {
+        const batch = batches.shift() as string[];
+        try {
+          const { nodes } = await this.makeRequest(`/files/${fileKey}/nodes?ids=${encodeURIComponent(batch.join(','))}&depth=1`) as FigmaNodesResponse;
+          batch.filter(id => !nodes?.[id]).forEach(id => failures.set(id, { reason: 'node_not_found' }));
+        } catch (error) {
+          if (error instanceof FigmaApiError && [403, 404].includes(error.status)) {
+            // The whole file is unreachable, so the remaining batches would fail the same way
+            const reason = error.status === 404 ? 'file_not_found' : 'file_inaccessible';
+            [batch, ...batches.splice(0)].flat().forEach(id => failures.set(id, { reason }));
+            break;
+          }
+          if (error instanceof FigmaApiError && error.status === 400 && batch.length > 1) {
+            // One malformed ID fails the whole request; look the batch up one ID at a time to find it
+            batches.unshift(...batch.map(id => [id]));
+            continue;
+          }
+          const failure = {
+            reason: error instanceof FigmaApiError && error.status === 400 ? 'invalid_node_id' : 'request_failed',
+            error: error instanceof Error ? error.message : String(error),
+          };
+          batch.forEach(id => failures.set(id, failure));
+        }
+      }
+
+      for (const { component, link } of links) {
+        const failure = failures.get(link.node_id as string);
+        if (failure) {
+          broken.push({ ...this.describeLink(component, link), ...failure });
+        }
+      }
+    }
+
+    return broken;
+  }
+
+  private describeLink(component: CodeComponent, link: FigmaLink) {
+    return {
+      code_component: link.symbol || component.name,
+      path: link.declared_in || component.path,
+      line: link.line,
+      url: link.url,
+    };
+  }
+
   private getAllFiles(dir: string, extensions: string[]): string[] {
     const files: string[] = [];
     
@@ -764,6 +2849,11 @@ class FigmaMCPServer {
       const items = fs.readdirSync(dir);
       
       items.forEach(item => {
+        // Dependencies and hidden folders (.git, .next, ...) are never part of the component code
+        if (item === 'node_modules' || item.startsWith('.')) {
+          return;
+        }
+
         const fullPath = path.join(dir, item);
         const stat = fs.statSync(fullPath);
         
@@ -793,14 +2883,16 @@ class FigmaMCPServer {
   }
 
   private extractComponentInfo(filePath: string, content: string, framework: string): any | null {
-    const fileName = path.basename(filePath, path.extname(filePath));
+    const module = scanComponentModule(filePath, content, framework);
+    if (module) {
+      return this.toCodeComponent(filePath, content, framework, module);
+    }
+
+    // index.js is named after its folder
+    const fileName = componentNameFromPath(filePath);
     
     // Basic component detection patterns
     const patterns = {
-      react: /(?:export\s+(?:default\s+)?(?:function|const|class)\s+(\w+)|function\s+(\w+)\s*\()/g,
-      vue: /<template>|export\s+default\s*\{/g,
-      angular: /@Component\s*\(/g,
-      svelte: /<script>|<style>|<[a-zA-Z]/g,
       vanilla: /(?:class\s+(\w+)|function\s+(\w+))/g,
     };
 
@@ -815,7 +2907,26 @@ class FigmaMCPServer {
       framework,
       size: content.length,
       exports: this.extractExports(content, framework),
-      props: this.extractProps(content, framework),
+      props: [],
+    };
+  }
+
+  private toCodeComponent(filePath: string, content: string, framework: string, module: ScannedModule): CodeComponent | null {
+    const component = primaryComponent(filePath, module);
+    if (!component) {
+      return null;
+    }
+
+    return {
+      name: component.name,
+      path: filePath,
+      framework,
+      size: content.length,
+      exports: module.exports,
+      props: component.props.map(prop => prop.name),
+      prop_details: component.props,
+      ...(component.inherits.length ? { inherits: component.inherits } : {}),
+      ...(component.isDefault ? { default_export: true } : {}),
     };
   }
 
@@ -832,67 +2943,90 @@ class FigmaMCPServer {
     return exports;
   }
 
-  private extractProps(content: string, framework: string): string[] {
-    // Simple props extraction - can be enhanced based on framework
-    const props: string[] = [];
-    
-    if (framework === 'react') {
-      const propsRegex = /(?:interface|type)\s+\w*Props\s*\{([^}]+)\}/g;
-      const match = propsRegex.exec(content);
-      if (match) {
-        const propsContent = match[1];
-        const propMatches = propsContent.match(/(\w+)(?:\?)?:/g);
-        if (propMatches) {
-          props.push(...propMatches.map(p => p.replace(/[\?:]/g, '')));
-        }
-      }
-    }
-    
-    return props;
-  }
-
-  private createComponentMappings(figmaComponents: any, codeComponents: any[], includeProps: boolean): any {
+  private createComponentMappings(
+    fileKey: string,
+    figmaComponents: FigmaComponentGroup[],
+    codeComponents: any[],
+    includeProps: boolean,
+    thresholds: { exact: number; similar: number }
+  ): any {
     const mappings: any = {
       exact_matches: [],
       similar_matches: [],
       missing_in_code: [],
       missing_in_figma: [],
+      rejected: [],
     };
+    const options = { aliases: this.config.component_matching?.aliases };
+
+    // Match by name, scoring each component set once instead of every variant in it
+    figmaComponents.forEach(figmaComponent => {
+      const base = {
+        figma_id: figmaComponent.id,
+        figma_key: figmaComponent.key,
+        figma_name: figmaComponent.name,
+        ...(figmaComponent.variant_count ? { variant_count: figmaComponent.variant_count } : {}),
+      };
 
-    // Create mappings based on name similarity
-    Object.entries(figmaComponents).forEach(([id, figmaComponent]: [string, any]) => {
-      const figmaName = figmaComponent.name.toLowerCase();
-      const exactMatch = codeComponents.find(cc => cc.name.toLowerCase() === figmaName);
-      
-      if (exactMatch) {
+      // Decisions recorded in figma-code-map.json win over name matching
+      const entry = this.codeMap.get(figmaComponent.key);
+      if (entry?.status === 'rejected') {
+        mappings.rejected.push({ ...base, note: entry.note });
+        return;
+      }
+      if (entry?.status === 'confirmed') {
+        mappings.exact_matches.push({
+          ...base,
+          code_component: codeComponents.find(cc => this.codeMap.isConfirmedPath(entry, cc.path))
+            || { name: entry.code_component, path: this.codeMap.resolveCodePath(entry) },
+          import_specifier: entry.import_specifier,
+          confidence: 1,
+          source: 'registry',
+        });
+        return;
+      }
+
+      const candidates = codeComponents.filter(cc => !this.codeMap.isRejected(entry, cc.path));
+
+      // `@figma` tags and figma.connect() calls in source override name similarity
+      const annotated = this.findAnnotatedComponent(fileKey, [figmaComponent.id, ...(figmaComponent.variant_ids || [])], candidates);
+      if (annotated) {
+        mappings.exact_matches.push({
+          ...base,
+          code_component: annotated.component,
+          confidence: 1,
+          source: 'annotation',
+          figma_link: annotated.link.url,
+        });
+        return;
+      }
+
+      const matches = rankNameMatches(
+        figmaComponent.name,
+        candidates,
+        cc => cc.name,
+        thresholds.similar,
+        options
+      );
+      const best = matches[0];
+
+      if (best && best.score >= thresholds.exact) {
         mappings.exact_matches.push({
-          figma_id: id,
-          figma_name: figmaComponent.name,
-          code_component: exactMatch,
-          confidence: 1.0,
+          ...base,
+          code_component: best.candidate,
+          confidence: best.score,
+          source: 'name',
+        });
+      } else if (best) {
+        mappings.similar_matches.push({
+          ...base,
+          suggestions: matches.slice(0, 3).map(match => ({ component: match.candidate, similarity: match.score })),
         });
       } else {
-        const similarMatches = codeComponents
-          .map(cc => ({
-            component: cc,
-            similarity: this.calculateNameSimilarity(figmaName, cc.name.toLowerCase()),
-          }))
-          .filter(match => match.similarity > 0.5)
-          .sort((a, b) => b.similarity - a.similarity);
-
-        if (similarMatches.length > 0) {
-          mappings.similar_matches.push({
-            figma_id: id,
-            figma_name: figmaComponent.name,
-            suggestions: similarMatches.slice(0, 3),
-          });
-        } else {
-          mappings.missing_in_code.push({
-            figma_id: id,
-            figma_name: figmaComponent.name,
-            description: figmaComponent.description || '',
-          });
-        }
+        mappings.missing_in_code.push({
+          ...base,
+          description: figmaComponent.description || '',
+        });
       }
     });
 
@@ -915,26 +3049,31 @@ class FigmaMCPServer {
     return mappings;
   }
 
-  private calculateNameSimilarity(name1: string, name2: string): number {
-    // Simple similarity calculation using longest common subsequence
-    const lcs = this.longestCommonSubsequence(name1, name2);
-    return (2 * lcs) / (name1.length + name2.length);
-  }
-
-  private longestCommonSubsequence(str1: string, str2: string): number {
-    const matrix = Array(str1.length + 1).fill(null).map(() => Array(str2.length + 1).fill(0));
-    
-    for (let i = 1; i <= str1.length; i++) {
-      for (let j = 1; j <= str2.length; j++) {
-        if (str1[i - 1] === str2[j - 1]) {
-          matrix[i][j] = matrix[i - 1][j - 1] + 1;
-        } else {
-          matrix[i][j] = Math.max(matrix[i - 1][j], matrix[i][j - 1]);
-        }
+  private groupFigmaComponents(figmaComponents: any, componentSets: any[] = []): FigmaComponentGroup[] {
+    // The components endpoint returns an array of metadata; older callers passed an id-keyed map
+    const entries: Array<[string, any]> = Array.isArray(figmaComponents)
+      ? figmaComponents.map(component => [component.node_id, component])
+      : Object.entries(figmaComponents);
+    const setKeys = new Map<string, string>(componentSets.map(set => [set.node_id, set.key]));
+    const groups = new Map<string, FigmaComponentGroup>();
+
+    for (const [id, component] of entries) {
+      const set = component.containing_frame?.containingComponentSet;
+      if (!set) {
+        groups.set(id, { id, key: component.key, name: component.name, description: component.description });
+        continue;
+      }
+      const group: FigmaComponentGroup = groups.get(set.nodeId)
+        || { id: set.nodeId, key: setKeys.get(set.nodeId), name: set.name, variant_count: 0, variant_ids: [], variant_keys: [] };
+      group.variant_count = (group.variant_count || 0) + 1;
+      group.variant_ids?.push(id);
+      if (component.key) {
+        group.variant_keys?.push(component.key);
       }
+      groups.set(set.nodeId, group);
     }
-    
-    return matrix[str1.length][str2.length];
+
+    return [...groups.values()];
   }
 
   private generateMappingSuggestions(mappings: any): string[] {
@@ -945,21 +3084,43 @@ class FigmaMCPServer {
     }
     
     if (mappings.similar_matches.length > 0) {
-      suggestions.push(`Found ${mappings.similar_matches.length} similar components that might be reusable with modifications.`);
+      suggestions.push(`Found ${mappings.similar_matches.length} similar components that might be reusable with modifications. Confirm or reject them with update_component_mapping so the decision sticks.`);
     }
     
     if (mappings.missing_in_code.length > 0) {
-      suggestions.push(`${mappings.missing_in_code.length} Figma components need to be implemented in code.`);
+      suggestions.push(`${mappings.missing_in_code.length} Figma components need to be implemented in code. scaffold_figma_components can generate typed skeletons for them.`);
     }
     
     if (mappings.missing_in_figma.length > 0) {
       suggestions.push(`${mappings.missing_in_figma.length} code components don't have corresponding Figma designs.`);
     }
 
+    if (mappings.broken_links?.length > 0) {
+      suggestions.push(`${mappings.broken_links.length} @figma / figma.connect links point at a Figma file or node that no longer exists. Update or remove them.`);
+    }
+
+    if (mappings.rejected?.length > 0) {
+      suggestions.push(`${mappings.rejected.length} Figma components are marked design-only in the mapping registry.`);
+    }
+
     return suggestions;
   }
 
-  private generateUsageGuideContent(fileData: any, componentsData: any, mappings: any, format: string): string {
+  private toUsageGuideMapping(entry: ComponentMappingEntry, source: UsageGuideMapping['source']): UsageGuideMapping {
+    return {
+      code_component: entry.code_component as string,
+      ...(entry.import_specifier ? { import_specifier: entry.import_specifier } : {}),
+      ...(entry.code_path ? { code_path: entry.code_path } : {}),
+      source,
+    };
+  }
+
+  private usageGuideMappingFor(component: any, mappings: Record<string, UsageGuideMapping>): UsageGuideMapping | undefined {
+    // Variants are mapped under their component set name
+    return mappings[component.name] || mappings[component.containing_frame?.containingComponentSet?.name];
+  }
+
+  private generateUsageGuideContent(fileData: any, componentsData: any, mappings: Record<string, UsageGuideMapping>, format: string): string {
     if (format === 'markdown') {
       return this.generateMarkdownUsageGuide(fileData, componentsData, mappings);
     } else if (format === 'typescript') {
@@ -974,27 +3135,30 @@ class FigmaMCPServer {
     }
   }
 
-  private generateMarkdownUsageGuide(fileData: any, componentsData: any, mappings: any): string {
+  private generateMarkdownUsageGuide(fileData: any, componentsData: any, mappings: Record<string, UsageGuideMapping>): string {
     return `# Component Usage Guide for ${fileData.name}
 
 Generated on: ${new Date().toISOString()}
 
 ## Available Components
 
-${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [string, any]) => `
+${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [string, any]) => {
+  const mapping = this.usageGuideMappingFor(component, mappings);
+  return `
 ### ${component.name}
 - **Description**: ${component.description || 'No description available'}
-- **Figma ID**: ${id}
-- **Usage**: Check your existing components for similar functionality
+- **Figma ID**: ${component.node_id || id}
+- **Usage**: ${mapping ? `Use \`${mapping.code_component}\`${mapping.import_specifier ? ` from \`${mapping.import_specifier}\`` : ''}` : 'Check your existing components for similar functionality'}
 
-`).join('')}
+`;
+}).join('')}
 
 ## Reusable Component Recommendations
 
 Based on your existing codebase, consider reusing these patterns:
 
-${mappings ? Object.entries(mappings).map(([figmaName, codeComponent]: [string, any]) => `
-- **${figmaName}** → Use existing \`${codeComponent}\` component
+${Object.keys(mappings).length > 0 ? Object.entries(mappings).map(([figmaName, mapping]) => `
+- **${figmaName}** → Use existing \`${mapping.code_component}\` component${mapping.import_specifier ? ` from \`${mapping.import_specifier}\`` : ''}
 `).join('') : 'No mappings provided'}
 
 ## Next Steps
@@ -1006,7 +3170,7 @@ ${mappings ? Object.entries(mappings).map(([figmaName, codeComponent]: [string,
 `;
   }
 
-  private generateTypescriptUsageGuide(fileData: any, componentsData: any, mappings: any): string {
+  private generateTypescriptUsageGuide(fileData: any, componentsData: any, mappings: Record<string, UsageGuideMapping>): string {
     return `// Component usage guide for ${fileData.name}
 // Generated on: ${new Date().toISOString()}
 
@@ -1014,16 +3178,27 @@ export interface ComponentMapping {
   figmaId: string;
   figmaName: string;
   codeComponent?: string;
+  importFrom?: string;
   status: 'available' | 'similar' | 'missing';
 }
 
 export const componentMappings: ComponentMapping[] = [
-${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [string, any]) => `
+${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [string, any]) => {
+  const mapping = this.usageGuideMappingFor(component, mappings);
+  return mapping ? `
+  {
+    figmaId: "${component.node_id || id}",
+    figmaName: ${JSON.stringify(component.name)},
+    codeComponent: ${JSON.stringify(mapping.code_component)},${mapping.import_specifier ? `
+    importFrom: ${JSON.stringify(mapping.import_specifier)},` : ''}
+    status: "available",
+  },` : `
   {
-    figmaId: "${id}",
-    figmaName: "${component.name}",
+    figmaId: "${component.node_id || id}",
+    figmaName: ${JSON.stringify(component.name)},
     status: "missing", // Update based on your analysis
-  },`).join('')}
+  },`;
+}).join('')}
 ];
 
 // Usage examples:
@@ -1034,28 +3209,105 @@ ${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [s
 `;
   }
 
-  private async checkComponentConsistency(fileKey: string, codeDirectory: string): Promise<any> {
-    // Placeholder for component consistency checking
+  private async checkComponentConsistency(fileKey: string, codeDirectory: string, framework: string): Promise<any> {
+    fileKey = this.parseFileKey(fileKey);
+    const fileData: FigmaFile = await this.makeRequest(`/files/${fileKey}`);
+    const apis = buildComponentApis(fileData);
+    const codeComponents: CodeComponent[] = this.scanCodeComponents(codeDirectory, framework);
+
+    const issues: ComponentIssue[] = [];
+    const components = apis.flatMap((api): Array<{ figma_component: string; code_component: string | null; issues: number }> => {
+      const entry = this.codeMap.get(api.key);
+      if (entry?.status === 'rejected') {
+        // Marked design-only in figma-code-map.json
+        return [];
+      }
+
+      const candidates = codeComponents.filter(cc => !this.codeMap.isRejected(entry, cc.path));
+      const match = entry?.status === 'confirmed'
+        ? this.loadConfirmedCodeComponent(entry, codeComponents, framework)
+        : this.findAnnotatedComponent(fileKey, [api.id, ...api.variants.map(variant => variant.id)], candidates)?.component
+          || this.findCodeComponentForApi(api, candidates);
+      if (!match) {
+        issues.push({
+          type: 'missing_implementation',
+          severity: 'medium',
+          figma_component: api.name,
+          issue: `No code component found for Figma component "${api.name}"`,
+        });
+        return [{ figma_component: api.name, code_component: null, issues: 1 }];
+      }
+
+      const componentIssues = compareComponentApi(api, match);
+      issues.push(...componentIssues);
+      return [{ figma_component: api.name, code_component: match.path, issues: componentIssues.length }];
+    });
+
     return {
-      total_components: 0,
-      consistent_components: 0,
-      issues: [],
+      total_components: components.length,
+      consistent_components: components.filter(component => component.issues === 0).length,
+      components,
+      broken_links: await this.findBrokenFigmaLinks(codeComponents),
+      issues,
     };
   }
 
-  private async checkStyleConsistency(fileKey: string, codeDirectory: string): Promise<any> {
-    // Placeholder for style consistency checking
-    return {
-      total_styles: 0,
-      consistent_styles: 0,
-      issues: [],
-    };
+  private loadConfirmedCodeComponent(
+    entry: ComponentMappingEntry,
+    codeComponents: CodeComponent[],
+    framework: string
+  ): CodeComponent | undefined {
+    const scanned = codeComponents.find(cc => this.codeMap.isConfirmedPath(entry, cc.path));
+    if (scanned) {
+      return scanned;
+    }
+
+    // The confirmed file may live outside the scanned directory
+    const codePath = this.codeMap.resolveCodePath(entry);
+    if (!codePath || !fs.existsSync(codePath)) {
+      return undefined;
+    }
+    return this.extractComponentInfo(codePath, fs.readFileSync(codePath, 'utf8'), framework) || undefined;
+  }
+
+  private findCodeComponentForApi(api: ComponentApi, codeComponents: CodeComponent[]): CodeComponent | undefined {
+    // Props are only compared for confident matches, so the bar is higher than for mapping suggestions
+    const threshold = Math.max(this.config.component_matching?.similar_threshold ?? 0.5, 0.8);
+    return rankNameMatches(api.name, codeComponents, cc => cc.name, threshold, {
+      aliases: this.config.component_matching?.aliases,
+    })[0]?.candidate;
+  }
+
+  private async checkStyleConsistency(fileKey: string, codeDirectory: string): Promise<StyleConsistencyReport> {
+    const { extracted } = await this.loadDesignTokens(this.parseFileKey(fileKey), true);
+
+    const files: SourceFile[] = this.getAllFiles(codeDirectory, STYLE_FILE_EXTENSIONS).flatMap(file => {
+      try {
+        return [{ path: file, content: fs.readFileSync(file, 'utf8') }];
+      } catch (error) {
+        // Skip files that can't be read
+        return [];
+      }
+    });
+
+    return findStyleInconsistencies(extracted.resolved, files);
   }
 
   private calculateConsistencyScore(report: any): number {
-    // Simple consistency score calculation
-    const totalIssues = report.issues?.length || 0;
-    return Math.max(0, 100 - (totalIssues * 10));
+    // Average the share of consistent components and of hard-coded values that match a style
+    const parts: number[] = [];
+    if (report.components?.total_components > 0) {
+      parts.push(report.components.consistent_components / report.components.total_components);
+    }
+    if (report.styles?.values_checked > 0) {
+      parts.push(report.styles.matched_values / report.styles.values_checked);
+    }
+
+    if (parts.length === 0) {
+      const totalIssues = report.issues?.length || 0;
+      return Math.max(0, 100 - (totalIssues * 10));
+    }
+    return Math.round((parts.reduce((sum, part) => sum + part, 0) / parts.length) * 100);
   }
 
   private generateConsistencyRecommendations(report: any): string[] {
@@ -1076,6 +3328,22 @@ ${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [s
 
   // Configuration and URL parsing methods
   private loadConfig(): FigmaConfig {
+    const config = this.readConfigFile();
+    this.configErrors = validateConfig(config).errors;
+    for (const error of this.configErrors) {
+      console.error(`Invalid figma.config.json: ${error}`);
+    }
+
+    // Out-of-range thresholds fall back to the defaults rather than skewing every match
+    for (const key of ['exact_threshold', 'similar_threshold'] as const) {
+      if (config.component_matching && this.configErrors.some(error => error.startsWith(`component_matching.${key} `))) {
+        delete config.component_matching[key];
+      }
+    }
+    return config;
+  }
+
+  private readConfigFile(): FigmaConfig {
     try {
       // Try multiple config paths
       const configPaths = [
@@ -1124,7 +3392,7 @@ ${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [s
       const match = input.match(FIGMA_URL_PATTERNS.file);
       if (match && match[2]) {
         // Convert node-id format (1-2) to API format (1:2)
-        return match[2].split('%2C').map(id => id.replace(/-/g, ':'));
+        return match[2].split(/%2C|,/i).map(id => id.replace(/-/g, ':'));
       }
       return [];
     }
@@ -1133,6 +3401,26 @@ ${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [s
     return input.split(',').map(id => id.trim());
   }
 
+  private resolveNodeIds(fileKeyOrUrl?: string, nodeIds?: string[] | string): string[] {
+    // Priority: explicit node_ids (array, comma list or URL) > node-id in the file URL
+    const candidates = Array.isArray(nodeIds)
+      ? nodeIds.flatMap(id => this.parseNodeIds(id))
+      : nodeIds
+        ? this.parseNodeIds(nodeIds)
+        : fileKeyOrUrl?.includes('figma.com')
+          ? this.parseNodeIds(fileKeyOrUrl)
+          : [];
+
+    const ids = [...new Set(candidates.map(id => decodeURIComponent(id).replace(/-/g, ':')).filter(Boolean))];
+    if (ids.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'No node IDs provided. Pass node_ids or a Figma URL containing ?node-id=...'
+      );
+    }
+    return ids;
+  }
+
   private parseTeamId(input: string): string {
     // If it's already a team ID (no URL), return as-is
     if (!input.includes('figma.com')) {
@@ -1187,6 +3475,9 @@ ${Object.entries(componentsData.meta?.components || {}).map(([id, component]: [s
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Custom Figma MCP server running on stdio');
+
+    this.server.onclose = () => this.watcher?.stop();
+    this.startWatcher();
   }
 }
 
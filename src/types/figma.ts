@@ -3,6 +3,37 @@ export interface FigmaConfig {
   default_file_url?: string;
   default_team_url?: string;
   project_urls?: string[];
+  component_matching?: ComponentMatchingConfig;
+  watch?: WatchConfig;
+}
+
+// Defaults for matching Figma component names to code component names
+export interface ComponentMatchingConfig {
+  // Word aliases such as { "Btn": "Button" }, added to the built-in abbreviations
+  aliases?: Record<string, string>;
+  exact_threshold?: number;
+  similar_threshold?: number;
+}
+
+// Polling of the default file and project_urls for design changes
+export interface WatchConfig {
+  enabled?: boolean;
+  interval_seconds?: number;
+  // Longest wait between polls while Figma keeps failing or rate limiting
+  max_backoff_seconds?: number;
+  on_change?: {
+    // Diff the new version against the previous one; the changelog is kept on the file's resource
+    diff?: boolean;
+    // Also write each changelog to <directory>/<file_key>-<version>.md
+    changelog_directory?: string;
+    // Re-export design tokens, with the same options as export_design_tokens
+    export_tokens?: {
+      output_path: string;
+      format?: string;
+      naming?: 'kebab' | 'camel' | 'snake';
+      prefix?: string;
+    };
+  };
 }
 
 export interface FigmaFile {
@@ -29,12 +60,18 @@ export interface FigmaNode {
   children?: FigmaNode[];
   fills?: FigmaFill[];
   strokes?: FigmaStroke[];
+  strokeWeight?: number;
+  strokeAlign?: string;
   effects?: FigmaEffect[];
   absoluteBoundingBox?: FigmaBoundingBox;
   constraints?: FigmaConstraints;
   layoutMode?: string;
+  primaryAxisAlignItems?: string;
+  counterAxisAlignItems?: string;
   layoutAlign?: string;
   layoutGrow?: number;
+  // ABSOLUTE children of auto-layout frames ignore the flow
+  layoutPositioning?: string;
   layoutSizingHorizontal?: string;
   layoutSizingVertical?: string;
   itemSpacing?: number;
@@ -42,6 +79,86 @@ export interface FigmaNode {
   paddingRight?: number;
   paddingTop?: number;
   paddingBottom?: number;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  componentId?: string;
+  // Property values an instance sets, keyed like componentPropertyDefinitions
+  componentProperties?: Record<string, { type: FigmaComponentPropertyDefinition['type']; value: boolean | string }>;
+  // Which component property drives this layer, e.g. { characters: 'Label#1:0', visible: 'Show Icon#2:0' }
+  componentPropertyReferences?: Record<string, string>;
+  characters?: string;
+  style?: FigmaTypeStyle;
+  styles?: Record<string, string>;
+  cornerRadius?: number;
+  rectangleCornerRadii?: number[];
+  layoutGrids?: FigmaLayoutGrid[];
+  boundVariables?: Record<string, FigmaVariableAlias | FigmaVariableAlias[]>;
+  componentPropertyDefinitions?: Record<string, FigmaComponentPropertyDefinition>;
+  // Export presets set up in Figma's Export panel
+  exportSettings?: FigmaExportSettings[];
+}
+
+export interface FigmaComponentPropertyDefinition {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  defaultValue: boolean | string;
+  variantOptions?: string[];
+  preferredValues?: Array<{ type: 'COMPONENT' | 'COMPONENT_SET'; key: string }>;
+}
+
+export interface FigmaTypeStyle {
+  fontFamily: string;
+  fontPostScriptName?: string;
+  fontWeight: number;
+  fontSize: number;
+  italic?: boolean;
+  textCase?: string;
+  textDecoration?: string;
+  textAlignHorizontal?: string;
+  letterSpacing: number;
+  lineHeightPx: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: string;
+}
+
+export interface FigmaLayoutGrid {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  sectionSize: number;
+  visible: boolean;
+  color: FigmaColor;
+  alignment?: string;
+  gutterSize?: number;
+  offset?: number;
+  count?: number;
+}
+
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: Record<string, boolean | number | string | FigmaColor | FigmaVariableAlias>;
+  description?: string;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  defaultModeId: string;
+  modes: Array<{ modeId: string; name: string }>;
+}
+
+export interface FigmaLocalVariablesResponse {
+  meta: {
+    variables: Record<string, FigmaVariable>;
+    variableCollections: Record<string, FigmaVariableCollection>;
+  };
 }
 
 export interface FigmaComponent {
@@ -56,6 +173,8 @@ export interface FigmaComponentSet {
   key: string;
   name: string;
   description: string;
+  documentationLinks?: FigmaDocumentationLink[];
+  remote?: boolean;
 }
 
 export interface FigmaStyle {
@@ -72,8 +191,16 @@ export interface FigmaFill {
   color?: FigmaColor;
   gradientHandlePositions?: FigmaVector[];
   gradientStops?: FigmaGradientStop[];
+  // FILL, FIT, TILE or STRETCH (a crop described by imageTransform)
   scaleMode?: string;
   imageRef?: string;
+  // Node space to image space, as a 2x3 affine matrix; set for STRETCH
+  imageTransform?: number[][];
+  // Image scale of TILE fills
+  scalingFactor?: number;
+  visible?: boolean;
+  opacity?: number;
+  boundVariables?: Record<string, FigmaVariableAlias>;
 }
 
 export interface FigmaStroke {
@@ -135,6 +262,18 @@ export interface FigmaExportSettings {
   };
 }
 
+export interface FigmaNodesResponse {
+  name: string;
+  version: string;
+  lastModified: string;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponent>;
+    componentSets: Record<string, FigmaComponentSet>;
+    styles: Record<string, FigmaStyle>;
+  } | null>;
+}
+
 export interface FigmaImageResponse {
   images: Record<string, string>;
   status?: number;
@@ -157,6 +296,95 @@ export interface CodeComponent {
   size: number;
   exports: string[];
   props: string[];
+  prop_details?: CodeComponentProp[];
+  // Prop types inherited from outside the file, e.g. ButtonHTMLAttributes<HTMLButtonElement>
+  inherits?: string[];
+  // The file's default export, imported without braces
+  default_export?: boolean;
+  // Figma nodes the source links this component to with `@figma` tags or figma.connect()
+  figma_links?: FigmaLink[];
+}
+
+export interface FigmaLink {
+  url: string;
+  file_key?: string;
+  node_id?: string;
+  source: 'jsdoc' | 'connect';
+  // Where the annotation was written, when it isn't the component's own file
+  declared_in?: string;
+  // Declaration the annotation documents, when the scanner didn't report it as this file's component
+  symbol?: string;
+  line: number;
+}
+
+export interface CodeComponentProp {
+  name: string;
+  type?: string;
+  optional?: boolean;
+  // Literal members when the type is a string/number/boolean union
+  values?: string[];
+  default_value?: string;
+  description?: string;
+}
+
+// One entry of the checked-in figma-code-map.json registry, keyed by component (set) key
+export interface ComponentMappingEntry {
+  figma_name: string;
+  file_key?: string;
+  // `confirmed` pins the code component; `rejected` marks a design with no code counterpart.
+  // Entries that only reject individual suggestions have no status
+  status?: 'confirmed' | 'rejected';
+  code_component?: string;
+  code_path?: string;
+  import_specifier?: string;
+  // Code paths that must never be suggested for this component
+  rejected_paths?: string[];
+  note?: string;
+  updated_at: string;
+}
+
+export interface ComponentMappingRegistry {
+  version: 1;
+  components: Record<string, ComponentMappingEntry>;
+}
+
+// Normalized API of a Figma component set (or a standalone component with properties)
+export interface ComponentApi {
+  id: string;
+  key?: string;
+  name: string;
+  description: string;
+  documentation_links?: string[];
+  variant_axes: Array<{ name: string; values: string[]; default?: string }>;
+  properties: ComponentApiProperty[];
+  variants: Array<{ id: string; key?: string; name: string; values: Record<string, string> }>;
+  // Variant matching every axis default
+  default_variant?: string;
+}
+
+export interface ComponentApiProperty {
+  name: string;
+  // Name as stored in componentPropertyDefinitions, including the `#12:0` suffix
+  definition_name: string;
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+  default_value: boolean | string;
+  // Name of the default component of an INSTANCE_SWAP property
+  default_component?: string;
+  // Keys of the components or sets offered for an INSTANCE_SWAP property
+  preferred_values?: string[];
+  // Layers of the default variant the property drives, and which of their fields
+  layers?: Array<{ id: string; name: string; field: string }>;
+}
+
+export interface ComponentIssue {
+  type: 'missing_implementation' | 'missing_variant' | 'missing_prop' | 'extra_prop' | 'prop_type_mismatch';
+  severity: 'low' | 'medium' | 'high';
+  figma_component: string;
+  code_component?: string;
+  prop?: string;
+  figma_value?: string;
+  code_value?: string;
+  issue: string;
 }
 
 export interface ComponentMappingResult {
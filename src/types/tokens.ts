@@ -0,0 +1,61 @@
+// W3C Design Tokens Community Group (DTCG) format types
+export type DesignTokenType =
+  | 'color'
+  | 'dimension'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'shadow'
+  | 'gradient'
+  | 'typography';
+
+export interface DesignToken {
+  $value: unknown;
+  $type?: DesignTokenType;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+// Nested groups keyed by the slash-separated segments of a style or variable name
+export interface DesignTokenTree {
+  [name: string]: DesignToken | DesignTokenTree;
+}
+
+export interface ShadowTokenValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+export interface TypographyTokenValue {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: string;
+  // Multiple of the font size; left out when Figma gives no line height
+  lineHeight?: number;
+  letterSpacing: string;
+}
+
+export interface GradientStopTokenValue {
+  color: string;
+  position: number;
+}
+
+// Flattened view of a token, used by formatters and consistency checks
+export interface ResolvedToken {
+  path: string[];
+  type: DesignTokenType | 'grid' | 'blur';
+  value: unknown;
+  alias?: string[];
+  description?: string;
+  styleId?: string;
+  styleKey?: string;
+  variableId?: string;
+  // CSS for values the DTCG value loses detail of, such as gradient geometry
+  css?: string;
+}
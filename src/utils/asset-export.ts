@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FigmaExportSettings, FigmaNode } from '../types/figma.js';
+
+export type AssetFormat = 'png' | 'jpg' | 'svg' | 'pdf';
+
+// One file to render: a node with one of its export settings
+export interface AssetTarget {
+  node_id: string;
+  node_name: string;
+  node_type: string;
+  format: AssetFormat;
+  // Render scale, with WIDTH and HEIGHT constraints converted using the node's size
+  scale: number;
+  suffix: string;
+  // Relative to the assets directory, always with forward slashes
+  file: string;
+}
+
+export interface AssetSelection {
+  // Layer name glob such as `icon/*`; `*` stays within one `/` segment, `**` crosses them
+  namePattern?: string;
+  // Setting for pattern matches that have no exportSettings of their own
+  defaultSetting: FigmaExportSettings;
+}
+
+export interface AssetPlan {
+  targets: AssetTarget[];
+  // Targets dropped because another node exports to the same file
+  duplicates: Array<{ node_id: string; node_name: string; file: string; kept: string }>;
+}
+
+export interface AssetManifestEntry {
+  node_id: string;
+  node_name: string;
+  format: AssetFormat;
+  scale: number;
+  suffix: string;
+  sha256: string;
+  bytes: number;
+}
+
+// assets-manifest.json: every exported file, keyed by its path relative to the assets directory
+export interface AssetManifest {
+  version: 1;
+  file_key: string;
+  // Figma file version the assets were rendered from
+  file_version?: string;
+  exported_at: string;
+  assets: Record<string, AssetManifestEntry>;
+}
+
+export const ASSET_MANIFEST_FILE = 'assets-manifest.json';
+
+// Node types that are the design itself rather than a copy of it, preferred when names collide
+const SOURCE_NODE_TYPES = new Set(['COMPONENT', 'COMPONENT_SET']);
+
+/**
+ * Every file to export from a subtree. Without a name pattern these are the nodes with export
+ * settings in Figma; with one, the nodes whose name matches, using their own export settings when
+ * they have any. Hidden layers are skipped, since Figma renders nothing for them
+ */
+export function planAssetExport(root: FigmaNode, selection: AssetSelection): AssetPlan {
+  const matcher = selection.namePattern ? globToRegExp(selection.namePattern) : undefined;
+  const candidates: AssetTarget[] = [];
+
+  const visit = (node: FigmaNode) => {
+    if (node.visible === false) {
+      return;
+    }
+    const settings = matcher
+      ? matcher.test(node.name) ? (node.exportSettings?.length ? node.exportSettings : [selection.defaultSetting]) : []
+      : node.exportSettings || [];
+    for (const setting of settings) {
+      const format = setting.format.toLowerCase() as AssetFormat;
+      candidates.push({
+        node_id: node.id,
+        node_name: node.name,
+        node_type: node.type,
+        format,
+        scale: renderScale(node, setting),
+        suffix: setting.suffix || '',
+        file: assetFileName(node.name, setting.suffix || '', format),
+      });
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+
+  // Instances of an icon component carry its name, so the component wins, then document order
+  const ordered = candidates
+    .map((target, index) => ({ target, index }))
+    .sort((a, b) => Number(SOURCE_NODE_TYPES.has(b.target.node_type)) - Number(SOURCE_NODE_TYPES.has(a.target.node_type)) || a.index - b.index);
+  const byFile = new Map<string, AssetTarget>();
+  const duplicates: AssetPlan['duplicates'] = [];
+  for (const { target } of ordered) {
+    const kept = byFile.get(target.file.toLowerCase());
+    if (kept) {
+      duplicates.push({ node_id: target.node_id, node_name: target.node_name, file: target.file, kept: kept.node_id });
+    } else {
+      byFile.set(target.file.toLowerCase(), target);
+    }
+  }
+
+  return { targets: candidates.filter(target => byFile.get(target.file.toLowerCase()) === target), duplicates };
+}
+
+/**
+ * File path Figma's own exporter would use: the layer name plus the setting's suffix, with `/` in
+ * the name becoming folders, e.g. `icon/arrow-left@2x.png`
+ */
+export function assetFileName(nodeName: string, suffix: string, format: AssetFormat): string {
+  const segments = nodeName
+    .split('/')
+    .map(segment => segment.trim().replace(/[<>:"\\|?*\u0000-\u001f]+/g, '-').replace(/^\.+/, ''))
+    .filter(Boolean);
+  const name = segments.length > 0 ? segments.join('/') : 'asset';
+  return `${name}${suffix.replace(/[/\\<>:"|?*]+/g, '-')}.${format}`;
+}
+
+/**
+ * sha256 of an asset's contents, as stored in the manifest
+ */
+export function hashAsset(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Read the manifest of an assets directory, or null when nothing was exported there yet
+ */
+export function loadAssetManifest(directory: string): AssetManifest | null {
+  const manifestPath = path.join(directory, ASSET_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+  const parsed = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  return { ...parsed, version: 1, assets: parsed.assets || {} };
+}
+
+export function saveAssetManifest(directory: string, manifest: AssetManifest): void {
+  // Sorted keys keep diffs of a checked-in manifest stable
+  const assets = Object.fromEntries(Object.entries(manifest.assets).sort(([a], [b]) => a.localeCompare(b)));
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(path.join(directory, ASSET_MANIFEST_FILE), `${JSON.stringify({ ...manifest, assets }, null, 2)}\n`);
+}
+
+/**
+ * Whether an asset on disk still matches what the manifest recorded for the same node and setting
+ */
+export function isAssetCurrent(directory: string, target: AssetTarget, entry: AssetManifestEntry | undefined): boolean {
+  if (!entry || entry.node_id !== target.node_id || entry.format !== target.format
+    || entry.scale !== target.scale || entry.suffix !== target.suffix) {
+    return false;
+  }
+  const filePath = path.join(directory, target.file);
+  return fs.existsSync(filePath) && hashAsset(fs.readFileSync(filePath)) === entry.sha256;
+}
+
+/**
+ * Figma's render scale for an export setting; the images API accepts 0.01 to 4
+ */
+function renderScale(node: FigmaNode, setting: FigmaExportSettings): number {
+  // Vector formats are exported at their natural size
+  if (setting.format === 'SVG' || setting.format === 'PDF') {
+    return 1;
+  }
+  const { type, value } = setting.constraint || { type: 'SCALE', value: 1 };
+  const box = node.absoluteBoundingBox;
+  const scale = type === 'WIDTH' && box?.width ? value / box.width
+    : type === 'HEIGHT' && box?.height ? value / box.height
+      : type === 'SCALE' ? value : 1;
+  return Math.min(4, Math.max(0.01, Math.round(scale * 100) / 100));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map(part => part === '**' ? '.*' : part === '*' ? '[^/]*' : part === '?' ? '[^/]' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
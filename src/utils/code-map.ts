@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentMappingEntry, ComponentMappingRegistry } from '../types/figma.js';
+
+export type ComponentMappingUpdate =
+  | { action: 'confirm'; figmaName: string; fileKey?: string; codePath: string; codeComponent?: string; importSpecifier?: string; note?: string }
+  | { action: 'reject'; figmaName: string; fileKey?: string; codePath?: string; note?: string }
+  | { action: 'remove' };
+
+/**
+ * The checked-in registry of confirmed and rejected Figma-to-code mappings (figma-code-map.json).
+ *
+ * Entries are keyed by Figma component key, or component set key for variants, so they survive
+ * renames on both sides. Code paths are stored relative to the registry file.
+ */
+export class CodeMapRegistry {
+  private filePath: string;
+  // Parsed file and the modification time and size it was read at
+  private cached?: { stamp: string; registry: ComponentMappingRegistry };
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read the registry; a missing file is an empty registry. The parsed file is reused until it
+   * changes on disk, so the result is shared and must not be modified
+   */
+  load(): ComponentMappingRegistry {
+    if (!fs.existsSync(this.filePath)) {
+      return { version: 1, components: {} };
+    }
+    const stat = fs.statSync(this.filePath);
+    const stamp = `${stat.mtimeMs}:${stat.size}`;
+    if (this.cached?.stamp !== stamp) {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.cached = { stamp, registry: { version: 1, components: parsed.components || {} } };
+    }
+    return this.cached.registry;
+  }
+
+  get(componentKey: string | undefined): ComponentMappingEntry | undefined {
+    return componentKey ? this.load().components[componentKey] : undefined;
+  }
+
+  /**
+   * Apply a confirm/reject/remove decision and write the registry back
+   */
+  update(componentKey: string, update: ComponentMappingUpdate): ComponentMappingEntry | undefined {
+    const registry = structuredClone(this.load());
+    const existing = registry.components[componentKey];
+
+    if (update.action === 'remove') {
+      delete registry.components[componentKey];
+      this.save(registry);
+      return undefined;
+    }
+
+    const entry: ComponentMappingEntry = {
+      ...existing,
+      figma_name: update.figmaName,
+      ...(update.fileKey ? { file_key: update.fileKey } : {}),
+      ...(update.note ? { note: update.note } : {}),
+      updated_at: new Date().toISOString(),
+    };
+
+    if (update.action === 'confirm') {
+      const codePath = this.relativePath(update.codePath);
+      entry.status = 'confirmed';
+      entry.code_path = codePath;
+      entry.code_component = update.codeComponent || path.basename(codePath, path.extname(codePath));
+      entry.import_specifier = update.importSpecifier || defaultImportSpecifier(codePath);
+      entry.rejected_paths = entry.rejected_paths?.filter(rejected => rejected !== codePath);
+    } else if (update.codePath) {
+      // Rejecting one suggestion leaves any confirmed mapping to other code in place
+      const codePath = this.relativePath(update.codePath);
+      entry.rejected_paths = [...new Set([...(entry.rejected_paths || []), codePath])].sort();
+      if (entry.code_path === codePath) {
+        delete entry.status;
+        delete entry.code_path;
+        delete entry.code_component;
+        delete entry.import_specifier;
+      }
+    } else {
+      entry.status = 'rejected';
+      delete entry.code_path;
+      delete entry.code_component;
+      delete entry.import_specifier;
+    }
+
+    if (!entry.rejected_paths?.length) {
+      delete entry.rejected_paths;
+    }
+    registry.components[componentKey] = entry;
+    this.save(registry);
+    return entry;
+  }
+
+  /**
+   * Whether the registry rejects a code file as the counterpart of a component
+   */
+  isRejected(entry: ComponentMappingEntry | undefined, codePath: string): boolean {
+    return !!entry?.rejected_paths?.includes(this.relativePath(codePath));
+  }
+
+  /**
+   * Whether a scanned code file is the one a confirmed entry points at
+   */
+  isConfirmedPath(entry: ComponentMappingEntry | undefined, codePath: string): boolean {
+    return entry?.status === 'confirmed' && entry.code_path === this.relativePath(codePath);
+  }
+
+  /**
+   * Absolute path of an entry's code file
+   */
+  resolveCodePath(entry: ComponentMappingEntry): string | undefined {
+    return entry.code_path ? path.resolve(path.dirname(this.filePath), entry.code_path) : undefined;
+  }
+
+  private relativePath(codePath: string): string {
+    const relative = path.relative(path.dirname(this.filePath), path.resolve(codePath));
+    return relative.split(path.sep).join('/');
+  }
+
+  private save(registry: ComponentMappingRegistry): void {
+    // Sorted keys keep diffs of the checked-in file stable
+    const components = Object.fromEntries(Object.entries(registry.components).sort(([a], [b]) => a.localeCompare(b)));
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, `${JSON.stringify({ version: 1, components }, null, 2)}\n`);
+    this.cached = undefined;
+  }
+}
+
+/**
+ * `./src/components/Button` for `src/components/Button/index.tsx` and `src/components/Button.tsx`
+ */
+export function defaultImportSpecifier(codePath: string): string {
+  const withoutExtension = codePath.replace(/\.(tsx?|jsx?|mjs|cjs)$/, '').replace(/\/index$/, '');
+  return withoutExtension.startsWith('.') ? withoutExtension : `./${withoutExtension}`;
+}
@@ -0,0 +1,1089 @@
+import ts from 'typescript';
+import * as path from 'path';
+import { CodeComponentProp } from '../types/figma.js';
+
+export interface ScannedComponent {
+  name: string;
+  exported: boolean;
+  isDefault: boolean;
+  props: CodeComponentProp[];
+  // Heritage the props inherit from but which can't be resolved in this file (e.g. ButtonHTMLAttributes)
+  inherits: string[];
+}
+
+export interface ScannedModule {
+  exports: string[];
+  components: ScannedComponent[];
+}
+
+interface TypeDeclarations {
+  interfaces: Map<string, ts.InterfaceDeclaration>;
+  aliases: Map<string, ts.TypeAliasDeclaration>;
+}
+
+const COMPONENT_WRAPPERS = new Set(['forwardRef', 'memo', 'observer', 'styled']);
+const COMPONENT_BASE_CLASSES = new Set(['Component', 'PureComponent']);
+const FUNCTION_COMPONENT_TYPES = new Set(['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent', 'ForwardRefRenderFunction']);
+
+/**
+ * Parse a React source file with the TypeScript compiler API and describe its components.
+ *
+ * Handles function and class components, `React.FC<Props>`, `forwardRef`, `memo`, props declared
+ * via interfaces (including `extends`), type aliases and intersections, destructured defaults,
+ * `defaultProps`, union literal types and JSDoc comments. Parsing is syntactic only, so types
+ * imported from other files are reported by name.
+ */
+export function scanReactModule(filePath: string, content: string): ScannedModule {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind(filePath));
+  const declarations = collectTypeDeclarations(sourceFile);
+  const exportedNames = new Set<string>();
+  const exports: string[] = [];
+  let defaultExportName: string | undefined;
+  const components = new Map<string, ScannedComponent>();
+  const defaultProps = new Map<string, Map<string, string>>();
+
+  const addExport = (name: string) => {
+    if (!exportedNames.has(name)) {
+      exportedNames.add(name);
+      exports.push(name);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text || (isDefault ? componentNameFromPath(filePath) : undefined);
+      if (!name) {
+        continue;
+      }
+      if (exported) {
+        addExport(name);
+      }
+      if (isDefault) {
+        defaultExportName = name;
+      }
+      if (isComponentName(name) && returnsJsx(statement)) {
+        components.set(name, functionComponent(name, statement, undefined, declarations));
+      }
+    } else if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text || (isDefault ? componentNameFromPath(filePath) : undefined);
+      if (!name) {
+        continue;
+      }
+      if (exported) {
+        addExport(name);
+      }
+      if (isDefault) {
+        defaultExportName = name;
+      }
+      const propsType = classComponentPropsType(statement);
+      if (propsType !== null) {
+        components.set(name, {
+          name,
+          exported: false,
+          isDefault: false,
+          ...resolveProps(propsType, declarations),
+        });
+        const staticDefaults = statement.members.find(member =>
+          ts.isPropertyDeclaration(member) && member.name.getText() === 'defaultProps'
+          && hasModifier(member, ts.SyntaxKind.StaticKeyword)) as ts.PropertyDeclaration | undefined;
+        if (staticDefaults?.initializer && ts.isObjectLiteralExpression(staticDefaults.initializer)) {
+          defaultProps.set(name, objectLiteralValues(staticDefaults.initializer));
+        }
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) {
+          continue;
+        }
+        const name = declaration.name.text;
+        if (exported) {
+          addExport(name);
+        }
+        const component = variableComponent(name, declaration, declarations);
+        if (component) {
+          components.set(name, component);
+        }
+      }
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      // export default Button / export default memo(Button) / export default forwardRef(...)
+      const target = unwrapComponentExpression(statement.expression);
+      if (ts.isIdentifier(target)) {
+        defaultExportName = target.text;
+        addExport(target.text);
+      } else if (ts.isArrowFunction(target) || ts.isFunctionExpression(target)) {
+        const name = componentNameFromPath(filePath);
+        defaultExportName = name;
+        addExport(name);
+        components.set(name, functionComponent(name, target, wrapperPropsType(statement.expression), declarations));
+      }
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const exportedName = element.name.text;
+        const localName = element.propertyName?.text || exportedName;
+        if (exportedName === 'default') {
+          defaultExportName = localName;
+          addExport(localName);
+        } else {
+          addExport(exportedName);
+        }
+      }
+    } else if (ts.isExpressionStatement(statement)) {
+      // Button.defaultProps = { size: 'md' }
+      const expression = statement.expression;
+      if (ts.isBinaryExpression(expression) && expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+        && ts.isPropertyAccessExpression(expression.left) && expression.left.name.text === 'defaultProps'
+        && ts.isIdentifier(expression.left.expression) && ts.isObjectLiteralExpression(expression.right)) {
+        defaultProps.set(expression.left.expression.text, objectLiteralValues(expression.right));
+      }
+    }
+  }
+
+  for (const component of components.values()) {
+    component.exported = exportedNames.has(component.name);
+    component.isDefault = component.name === defaultExportName;
+    for (const [prop, value] of defaultProps.get(component.name) || []) {
+      const detail = component.props.find(candidate => candidate.name === prop);
+      if (detail && detail.default_value === undefined) {
+        detail.default_value = value;
+      }
+    }
+  }
+
+  return { exports, components: [...components.values()] };
+}
+
+/**
+ * Pick the component a file represents: the default export, then the one named after the file,
+ * then the first exported component
+ */
+export function primaryComponent(filePath: string, module: ScannedModule): ScannedComponent | undefined {
+  const fileName = componentNameFromPath(filePath).toLowerCase();
+  return module.components.find(component => component.isDefault)
+    || module.components.find(component => component.name.toLowerCase() === fileName)
+    || module.components.find(component => component.exported)
+    || module.components[0];
+}
+
+/**
+ * Scan a file with the parser for its framework; undefined for frameworks without one
+ */
+export function scanComponentModule(filePath: string, content: string, framework: string): ScannedModule | undefined {
+  switch (framework) {
+    case 'react':
+      return scanReactModule(filePath, content);
+    case 'vue':
+      return scanVueModule(filePath, content);
+    case 'svelte':
+      return scanSvelteModule(filePath, content);
+    case 'angular':
+      return scanAngularModule(filePath, content);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describe a Vue single-file component or a `defineComponent` module.
+ *
+ * Reads `defineProps<Props>()` (with `withDefaults` or destructured defaults), runtime
+ * `defineProps({...})` / `defineProps([...])` and the Options API `props` option, including
+ * `PropType<...>` casts, `required`, `default` and array-literal `validator`s.
+ */
+export function scanVueModule(filePath: string, content: string): ScannedModule {
+  const isSfc = path.extname(filePath) === '.vue';
+  const blocks = isSfc ? extractScriptBlocks(content) : [{ attributes: 'lang="ts"', content }];
+  let name = componentNameFromPath(filePath);
+  let found = isSfc;
+  const props: CodeComponentProp[] = [];
+  const inherits: string[] = [];
+
+  const addProps = (resolved: { props: CodeComponentProp[]; inherits: string[] }) => {
+    props.push(...resolved.props.filter(prop => !props.some(existing => existing.name === prop.name)));
+    inherits.push(...resolved.inherits);
+  };
+
+  for (const block of blocks) {
+    const sourceFile = parseScriptBlock(filePath, block);
+    const declarations = collectTypeDeclarations(sourceFile);
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && calleeName(node) === 'defineProps') {
+        addProps(node.typeArguments?.[0]
+          ? resolveProps(node.typeArguments[0], declarations)
+          : { props: node.arguments[0] ? vueRuntimeProps(node.arguments[0], declarations) : [], inherits: [] });
+      } else if (ts.isCallExpression(node) && calleeName(node) === 'withDefaults') {
+        ts.forEachChild(node, visit);
+        const defaults = node.arguments[1];
+        if (defaults && ts.isObjectLiteralExpression(defaults)) {
+          for (const [prop, value] of objectLiteralValues(defaults)) {
+            const detail = props.find(candidate => candidate.name === prop);
+            if (detail) {
+              detail.default_value = value;
+            }
+          }
+        }
+        return;
+      } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name)
+        && node.initializer && ts.isCallExpression(node.initializer) && calleeName(node.initializer) === 'defineProps') {
+        // Vue 3.5 reactive props destructure: const { size = 'md' } = defineProps<Props>()
+        ts.forEachChild(node, visit);
+        applyBindingDefaults(node.name, props);
+        return;
+      } else if (ts.isExportAssignment(node)) {
+        const options = vueComponentOptions(node.expression, isSfc);
+        if (options) {
+          found = true;
+          for (const property of options.properties) {
+            if (!ts.isPropertyAssignment(property)) {
+              continue;
+            }
+            const key = property.name.getText();
+            if (key === 'name' && ts.isStringLiteralLike(property.initializer)) {
+              name = pascalCase(property.initializer.text);
+            } else if (key === 'props') {
+              addProps({ props: vueRuntimeProps(property.initializer, declarations), inherits: [] });
+            }
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  if (!found) {
+    return { exports: [], components: [] };
+  }
+  return {
+    exports: [name],
+    components: [{ name, exported: true, isDefault: true, props, inherits }],
+  };
+}
+
+/**
+ * Describe a Svelte component from `export let` declarations or the Svelte 5 `$props()` rune
+ */
+export function scanSvelteModule(filePath: string, content: string): ScannedModule {
+  if (path.extname(filePath) !== '.svelte') {
+    return { exports: [], components: [] };
+  }
+
+  const name = componentNameFromPath(filePath);
+  const props: CodeComponentProp[] = [];
+  const inherits: string[] = [];
+  // Instance scripts only; `<script context="module">` / `<script module>` exports aren't props
+  const blocks = extractScriptBlocks(content).filter(block => !/\bcontext\s*=\s*["']module["']|\bmodule\b/.test(block.attributes));
+
+  for (const block of blocks) {
+    const sourceFile = parseScriptBlock(filePath, block);
+    const declarations = collectTypeDeclarations(sourceFile);
+    const localLets = new Map<string, { statement: ts.VariableStatement; declaration: ts.VariableDeclaration }>();
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isVariableStatement(statement)) {
+        const isLet = (statement.declarationList.flags & ts.NodeFlags.Let) !== 0;
+        for (const declaration of statement.declarationList.declarations) {
+          const initializer = declaration.initializer;
+          if (initializer && ts.isCallExpression(initializer) && calleeName(initializer) === '$props') {
+            const resolved = resolveProps(declaration.type || initializer.typeArguments?.[0], declarations);
+            if (ts.isObjectBindingPattern(declaration.name)) {
+              applyBindingDefaults(declaration.name, resolved.props);
+            }
+            props.push(...resolved.props);
+            inherits.push(...resolved.inherits);
+          } else if (isLet && ts.isIdentifier(declaration.name)) {
+            if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+              props.push(sveltePropFromLet(declaration.name.text, statement, declaration, declarations));
+            } else {
+              localLets.set(declaration.name.text, { statement, declaration });
+            }
+          }
+        }
+      } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        // export { className as class }
+        for (const element of statement.exportClause.elements) {
+          const local = localLets.get((element.propertyName || element.name).text);
+          if (local) {
+            props.push(sveltePropFromLet(element.name.text, local.statement, local.declaration, declarations));
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    exports: [name],
+    components: [{ name, exported: true, isDefault: true, props, inherits }],
+  };
+}
+
+/**
+ * Describe the `@Component` classes in an Angular file from their `@Input()` members,
+ * `input()` / `model()` signals and `inputs` metadata. Components are named from their selector.
+ */
+export function scanAngularModule(filePath: string, content: string): ScannedModule {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const declarations = collectTypeDeclarations(sourceFile);
+  const module: ScannedModule = { exports: [], components: [] };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isClassDeclaration(statement) || !statement.name) {
+      continue;
+    }
+    const className = statement.name.text;
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    if (exported) {
+      module.exports.push(className);
+    }
+
+    const metadata = decoratorArgument(statement, 'Component');
+    if (!metadata) {
+      continue;
+    }
+
+    const metadataValues = objectLiteralValues(metadata);
+    const selector = metadataValues.get('selector')?.replace(/^['"`]|['"`]$/g, '');
+    const props: CodeComponentProp[] = [];
+
+    for (const member of statement.members) {
+      const prop = angularInput(member, declarations);
+      if (prop) {
+        props.push(prop);
+      }
+    }
+
+    // inputs: ['size', 'label: text'] declares inputs on plain class fields
+    const inputsOption = metadata.properties.find(property =>
+      ts.isPropertyAssignment(property) && property.name.getText() === 'inputs') as ts.PropertyAssignment | undefined;
+    if (inputsOption && ts.isArrayLiteralExpression(inputsOption.initializer)) {
+      for (const element of inputsOption.initializer.elements) {
+        if (!ts.isStringLiteralLike(element)) {
+          continue;
+        }
+        const [property, alias] = element.text.split(':').map(part => part.trim());
+        const field = statement.members.find(member =>
+          ts.isPropertyDeclaration(member) && member.name.getText() === property) as ts.PropertyDeclaration | undefined;
+        const inputName = alias || property;
+        if (!props.some(prop => prop.name === inputName)) {
+          props.push(field ? { ...propertyDeclarationProp(field, declarations), name: inputName } : { name: inputName, optional: true });
+        }
+      }
+    }
+
+    module.components.push({
+      name: angularComponentName(selector, className),
+      exported,
+      isDefault: false,
+      props,
+      inherits: [],
+    });
+  }
+
+  return module;
+}
+
+function scriptKind(filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath)) {
+    case '.ts':
+      return ts.ScriptKind.TS;
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    default:
+      // Plain .js files in React projects routinely contain JSX
+      return ts.ScriptKind.JSX;
+  }
+}
+
+/**
+ * PascalCase component name for a file, using the folder name for `index` files
+ */
+export function componentNameFromPath(filePath: string): string {
+  let base = path.basename(filePath).replace(/\.[^.]+$/, '');
+  if (base === 'index') {
+    base = path.basename(path.dirname(filePath));
+  }
+  return pascalCase(base);
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+function collectTypeDeclarations(sourceFile: ts.SourceFile): TypeDeclarations {
+  const declarations: TypeDeclarations = { interfaces: new Map(), aliases: new Map() };
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement)) {
+      declarations.interfaces.set(statement.name.text, statement);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      declarations.aliases.set(statement.name.text, statement);
+    }
+  }
+  return declarations;
+}
+
+function returnsJsx(node: ts.Node): boolean {
+  let found = false;
+  const visit = (child: ts.Node) => {
+    if (found) {
+      return;
+    }
+    if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child) || ts.isJsxFragment(child)) {
+      found = true;
+      return;
+    }
+    if (ts.isCallExpression(child) && child.expression.getText().endsWith('createElement')) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return found;
+}
+
+/**
+ * Strip memo()/forwardRef()/observer() wrappers down to the inner component expression
+ */
+function unwrapComponentExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (ts.isCallExpression(current) && COMPONENT_WRAPPERS.has(calleeName(current)) && current.arguments.length > 0) {
+    current = current.arguments[0];
+  }
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function calleeName(call: ts.CallExpression): string {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) {
+    return callee.text;
+  }
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name.text;
+  }
+  return '';
+}
+
+/**
+ * Props type given as a generic argument: forwardRef<Ref, Props>(...) or memo<Props>(...)
+ */
+function wrapperPropsType(expression: ts.Expression): ts.TypeNode | undefined {
+  let current: ts.Expression = expression;
+  while (ts.isCallExpression(current) && COMPONENT_WRAPPERS.has(calleeName(current))) {
+    const typeArguments = current.typeArguments;
+    if (typeArguments?.length) {
+      return calleeName(current) === 'forwardRef' ? typeArguments[1] : typeArguments[0];
+    }
+    if (current.arguments.length === 0) {
+      break;
+    }
+    current = current.arguments[0];
+  }
+  return undefined;
+}
+
+function variableComponent(
+  name: string,
+  declaration: ts.VariableDeclaration,
+  declarations: TypeDeclarations
+): ScannedComponent | undefined {
+  if (!isComponentName(name) || !declaration.initializer) {
+    return undefined;
+  }
+
+  // const Button: React.FC<ButtonProps> = ...
+  let annotated: ts.TypeNode | undefined;
+  const typeNode = declaration.type;
+  if (typeNode && ts.isTypeReferenceNode(typeNode)) {
+    const typeName = typeNode.typeName.getText().split('.').pop() as string;
+    if (FUNCTION_COMPONENT_TYPES.has(typeName)) {
+      annotated = typeNode.typeArguments?.[typeName === 'ForwardRefRenderFunction' ? 1 : 0];
+      if (!annotated) {
+        return { name, exported: false, isDefault: false, props: [], inherits: [] };
+      }
+    }
+  }
+
+  const inner = unwrapComponentExpression(declaration.initializer);
+  const wrapped = inner !== declaration.initializer;
+  const genericProps = wrapperPropsType(declaration.initializer);
+
+  if (ts.isArrowFunction(inner) || ts.isFunctionExpression(inner)) {
+    if (!annotated && !wrapped && !returnsJsx(inner)) {
+      return undefined;
+    }
+    return functionComponent(name, inner, annotated || genericProps, declarations);
+  }
+
+  if (annotated) {
+    return { name, exported: false, isDefault: false, ...resolveProps(annotated, declarations) };
+  }
+  return undefined;
+}
+
+function functionComponent(
+  name: string,
+  fn: ts.FunctionLikeDeclarationBase,
+  propsType: ts.TypeNode | undefined,
+  declarations: TypeDeclarations
+): ScannedComponent {
+  const param = fn.parameters[0];
+  const resolved = resolveProps(propsType || param?.type, declarations);
+
+  // Destructured defaults: ({ size = 'md', ...rest }: ButtonProps)
+  if (param && ts.isObjectBindingPattern(param.name)) {
+    applyBindingDefaults(param.name, resolved.props);
+  }
+
+  return { name, exported: false, isDefault: false, ...resolved };
+}
+
+/**
+ * Record `{ size = 'md' }` destructuring defaults on the matching props, adding props the type didn't declare
+ */
+function applyBindingDefaults(pattern: ts.ObjectBindingPattern, props: CodeComponentProp[]): void {
+  for (const element of pattern.elements) {
+    if (element.dotDotDotToken) {
+      continue;
+    }
+    const propName = (element.propertyName || element.name).getText();
+    let detail = props.find(prop => prop.name === propName);
+    if (!detail) {
+      detail = { name: propName, optional: !!element.initializer };
+      props.push(detail);
+    }
+    if (element.initializer) {
+      detail.default_value = element.initializer.getText();
+    }
+  }
+}
+
+/**
+ * Props type of `class X extends React.Component<Props>`; null when the class isn't a component
+ */
+function classComponentPropsType(node: ts.ClassDeclaration): ts.TypeNode | undefined | null {
+  for (const clause of node.heritageClauses || []) {
+    if (clause.token !== ts.SyntaxKind.ExtendsKeyword) {
+      continue;
+    }
+    for (const type of clause.types) {
+      const baseName = type.expression.getText().split('.').pop() as string;
+      if (COMPONENT_BASE_CLASSES.has(baseName)) {
+        return type.typeArguments?.[0];
+      }
+    }
+  }
+  return null;
+}
+
+function resolveProps(
+  typeNode: ts.TypeNode | undefined,
+  declarations: TypeDeclarations,
+  seen: Set<string> = new Set()
+): { props: CodeComponentProp[]; inherits: string[] } {
+  const result: { props: CodeComponentProp[]; inherits: string[] } = { props: [], inherits: [] };
+  if (!typeNode) {
+    return result;
+  }
+
+  const merge = (other: { props: CodeComponentProp[]; inherits: string[] }) => {
+    for (const prop of other.props) {
+      if (!result.props.some(existing => existing.name === prop.name)) {
+        result.props.push(prop);
+      }
+    }
+    result.inherits.push(...other.inherits.filter(name => !result.inherits.includes(name)));
+  };
+
+  if (ts.isTypeLiteralNode(typeNode)) {
+    merge({ props: membersToProps(typeNode.members, declarations), inherits: [] });
+  } else if (ts.isIntersectionTypeNode(typeNode)) {
+    typeNode.types.forEach(type => merge(resolveProps(type, declarations, seen)));
+  } else if (ts.isParenthesizedTypeNode(typeNode)) {
+    merge(resolveProps(typeNode.type, declarations, seen));
+  } else if (ts.isTypeReferenceNode(typeNode)) {
+    const typeName = typeNode.typeName.getText();
+    const wrapperName = typeName.split('.').pop() as string;
+
+    if (declarations.interfaces.has(typeName) || declarations.aliases.has(typeName)) {
+      merge(resolveNamedType(typeName, declarations, seen));
+    } else if (['PropsWithChildren', 'Readonly', 'Partial'].includes(wrapperName) && typeNode.typeArguments?.[0]) {
+      merge(resolveProps(typeNode.typeArguments[0], declarations, seen));
+      if (wrapperName === 'PropsWithChildren') {
+        merge({ props: [{ name: 'children', type: 'ReactNode', optional: true }], inherits: [] });
+      }
+    } else {
+      result.inherits.push(typeNode.getText());
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Props declared by a local interface (following `extends`) or type alias
+ */
+function resolveNamedType(
+  typeName: string,
+  declarations: TypeDeclarations,
+  seen: Set<string>
+): { props: CodeComponentProp[]; inherits: string[] } {
+  if (seen.has(typeName)) {
+    return { props: [], inherits: [] };
+  }
+  seen.add(typeName);
+
+  const alias = declarations.aliases.get(typeName);
+  if (alias) {
+    return resolveProps(alias.type, declarations, seen);
+  }
+
+  const iface = declarations.interfaces.get(typeName) as ts.InterfaceDeclaration;
+  const props = membersToProps(iface.members, declarations);
+  const inherits: string[] = [];
+  for (const clause of iface.heritageClauses || []) {
+    for (const heritage of clause.types) {
+      const heritageName = heritage.expression.getText();
+      if (!declarations.interfaces.has(heritageName) && !declarations.aliases.has(heritageName)) {
+        inherits.push(heritage.getText());
+        continue;
+      }
+      const inherited = resolveNamedType(heritageName, declarations, seen);
+      // Members declared on the interface itself override inherited ones
+      props.push(...inherited.props.filter(prop => !props.some(existing => existing.name === prop.name)));
+      inherits.push(...inherited.inherits);
+    }
+  }
+  return { props, inherits };
+}
+
+function membersToProps(members: ts.NodeArray<ts.TypeElement>, declarations: TypeDeclarations): CodeComponentProp[] {
+  const props: CodeComponentProp[] = [];
+
+  for (const member of members) {
+    if (!(ts.isPropertySignature(member) || ts.isMethodSignature(member)) || !member.name) {
+      continue;
+    }
+
+    const name = member.name.getText().replace(/^['"]|['"]$/g, '');
+    const type = ts.isPropertySignature(member)
+      ? member.type?.getText() || 'any'
+      : `(${member.parameters.map(p => p.getText()).join(', ')}) => ${member.type?.getText() || 'void'}`;
+    const prop: CodeComponentProp = { name, type, optional: !!member.questionToken };
+
+    const values = ts.isPropertySignature(member) && member.type ? literalValues(member.type, declarations) : undefined;
+    if (values) {
+      prop.values = values;
+    }
+
+    const description = jsDocText(member);
+    if (description) {
+      prop.description = description;
+    }
+    props.push(prop);
+  }
+
+  return props;
+}
+
+/**
+ * Literal members of a union (following local type aliases), or undefined for non-literal types
+ */
+function literalValues(typeNode: ts.TypeNode, declarations: TypeDeclarations, seen: Set<string> = new Set()): string[] | undefined {
+  if (ts.isParenthesizedTypeNode(typeNode)) {
+    return literalValues(typeNode.type, declarations, seen);
+  }
+  if (ts.isLiteralTypeNode(typeNode)) {
+    const literal = typeNode.literal;
+    if (ts.isStringLiteral(literal) || ts.isNumericLiteral(literal)) {
+      return [literal.text];
+    }
+    if (literal.kind === ts.SyntaxKind.TrueKeyword || literal.kind === ts.SyntaxKind.FalseKeyword) {
+      return [literal.getText()];
+    }
+    if (ts.isPrefixUnaryExpression(literal)) {
+      return [literal.getText()];
+    }
+    return undefined;
+  }
+  if (ts.isUnionTypeNode(typeNode)) {
+    const values: string[] = [];
+    for (const member of typeNode.types) {
+      // `undefined` and `null` members only make the prop optional
+      if (member.kind === ts.SyntaxKind.UndefinedKeyword
+        || (ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword)) {
+        continue;
+      }
+      const memberValues = literalValues(member, declarations, seen);
+      if (!memberValues) {
+        return undefined;
+      }
+      values.push(...memberValues);
+    }
+    return values.length ? values : undefined;
+  }
+  if (ts.isTypeReferenceNode(typeNode)) {
+    const name = typeNode.typeName.getText();
+    const alias = declarations.aliases.get(name);
+    if (alias && !seen.has(name)) {
+      seen.add(name);
+      return literalValues(alias.type, declarations, seen);
+    }
+  }
+  return undefined;
+}
+
+function jsDocText(node: ts.Node): string | undefined {
+  const docs = (node as ts.Node & { jsDoc?: ts.JSDoc[] }).jsDoc;
+  if (!docs?.length) {
+    return undefined;
+  }
+  const comment = docs[docs.length - 1].comment;
+  const text = typeof comment === 'string' ? comment : comment?.map(part => part.text).join('');
+  return text?.trim() || undefined;
+}
+
+function objectLiteralValues(literal: ts.ObjectLiteralExpression): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const property of literal.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      values.set(property.name.getText().replace(/^['"]|['"]$/g, ''), property.initializer.getText());
+    }
+  }
+  return values;
+}
+
+function pascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * The `<script>` blocks of an SFC, with their attribute text
+ */
+function extractScriptBlocks(content: string): Array<{ attributes: string; content: string }> {
+  const blocks: Array<{ attributes: string; content: string }> = [];
+  const scriptRegex = /<script\b([^>]*)>([\s\S]*?)<\/script>/g;
+  let match;
+  while ((match = scriptRegex.exec(content)) !== null) {
+    blocks.push({ attributes: match[1], content: match[2] });
+  }
+  return blocks;
+}
+
+function parseScriptBlock(filePath: string, block: { attributes: string; content: string }): ts.SourceFile {
+  const lang = /\blang\s*=\s*["'](\w+)["']/.exec(block.attributes)?.[1];
+  const kind = lang === 'tsx' ? ts.ScriptKind.TSX : lang === 'jsx' ? ts.ScriptKind.JSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(filePath, block.content, ts.ScriptTarget.Latest, true, kind);
+}
+
+/**
+ * The options object of `export default {...}` / `export default defineComponent({...})`.
+ * Outside SFCs a plain object only counts when it carries a template or render function.
+ */
+function vueComponentOptions(expression: ts.Expression, isSfc: boolean): ts.ObjectLiteralExpression | undefined {
+  if (ts.isCallExpression(expression) && calleeName(expression) === 'defineComponent') {
+    const options = expression.arguments[0];
+    return options && ts.isObjectLiteralExpression(options) ? options : undefined;
+  }
+  if (ts.isObjectLiteralExpression(expression)) {
+    const keys = expression.properties.map(property => property.name?.getText());
+    if (isSfc || keys.includes('template') || keys.includes('render')) {
+      return expression;
+    }
+  }
+  return undefined;
+}
+
+const VUE_CONSTRUCTOR_TYPES: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'unknown[]',
+  Object: 'object',
+  Function: 'Function',
+  Date: 'Date',
+  Symbol: 'symbol',
+};
+
+/**
+ * Props of a runtime declaration: `['size', 'label']` or `{ size: { type: String, default: 'md' } }`
+ */
+function vueRuntimeProps(node: ts.Expression, declarations: TypeDeclarations): CodeComponentProp[] {
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements
+      .filter(ts.isStringLiteralLike)
+      .map(element => ({ name: element.text, optional: true }));
+  }
+  if (!ts.isObjectLiteralExpression(node)) {
+    return [];
+  }
+
+  const props: CodeComponentProp[] = [];
+  for (const property of node.properties) {
+    if (!ts.isPropertyAssignment(property)) {
+      continue;
+    }
+    const prop: CodeComponentProp = { name: property.name.getText().replace(/^['"]|['"]$/g, ''), optional: true };
+    const definition = property.initializer;
+
+    if (ts.isObjectLiteralExpression(definition)) {
+      for (const option of definition.properties) {
+        if (!ts.isPropertyAssignment(option) && !ts.isMethodDeclaration(option)) {
+          continue;
+        }
+        switch (option.name.getText()) {
+          case 'type':
+            if (ts.isPropertyAssignment(option)) {
+              Object.assign(prop, vueConstructorType(option.initializer, declarations));
+            }
+            break;
+          case 'required':
+            if (ts.isPropertyAssignment(option)) {
+              prop.optional = option.initializer.kind !== ts.SyntaxKind.TrueKeyword;
+            }
+            break;
+          case 'default':
+            prop.default_value = ts.isPropertyAssignment(option) ? option.initializer.getText() : option.getText();
+            break;
+          case 'validator': {
+            // validator: (v) => ['sm', 'md'].includes(v)
+            const values = findStringArray(option);
+            if (values && !prop.values) {
+              prop.values = values;
+            }
+            break;
+          }
+        }
+      }
+    } else {
+      Object.assign(prop, vueConstructorType(definition, declarations));
+    }
+
+    const description = jsDocText(property);
+    if (description) {
+      prop.description = description;
+    }
+    props.push(prop);
+  }
+  return props;
+}
+
+/**
+ * Type of a runtime `type` option: `String`, `[String, Number]` or `String as PropType<Size>`
+ */
+function vueConstructorType(node: ts.Expression, declarations: TypeDeclarations): { type?: string; values?: string[] } {
+  if (ts.isAsExpression(node)) {
+    const propType = node.type;
+    if (ts.isTypeReferenceNode(propType) && propType.typeName.getText().endsWith('PropType') && propType.typeArguments?.[0]) {
+      const values = literalValues(propType.typeArguments[0], declarations);
+      return { type: propType.typeArguments[0].getText(), ...(values ? { values } : {}) };
+    }
+    return vueConstructorType(node.expression, declarations);
+  }
+  if (ts.isIdentifier(node)) {
+    return { type: VUE_CONSTRUCTOR_TYPES[node.text] || node.text };
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return { type: node.elements.map(element => vueConstructorType(element, declarations).type).filter(Boolean).join(' | ') };
+  }
+  return {};
+}
+
+function findStringArray(node: ts.Node): string[] | undefined {
+  let values: string[] | undefined;
+  const visit = (child: ts.Node) => {
+    if (values) {
+      return;
+    }
+    if (ts.isArrayLiteralExpression(child) && child.elements.length > 0 && child.elements.every(ts.isStringLiteralLike)) {
+      values = child.elements.map(element => (element as ts.StringLiteralLike).text);
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return values;
+}
+
+function sveltePropFromLet(
+  name: string,
+  statement: ts.VariableStatement,
+  declaration: ts.VariableDeclaration,
+  declarations: TypeDeclarations
+): CodeComponentProp {
+  const prop: CodeComponentProp = {
+    name,
+    type: declaration.type?.getText() || (declaration.initializer ? literalType(declaration.initializer) : undefined),
+    // `export let x` without an initializer is required
+    optional: !!declaration.initializer || !!declaration.type?.getText().match(/\bundefined\b/),
+  };
+  const values = declaration.type ? literalValues(declaration.type, declarations) : undefined;
+  if (values) {
+    prop.values = values;
+  }
+  if (declaration.initializer) {
+    prop.default_value = declaration.initializer.getText();
+  }
+  const description = jsDocText(statement);
+  if (description) {
+    prop.description = description;
+  }
+  return prop;
+}
+
+/**
+ * The object argument of a class or member decorator such as `@Component({...})` or `@Input({...})`
+ */
+function decoratorArgument(node: ts.Node, decoratorName: string): ts.ObjectLiteralExpression | undefined {
+  const decorator = angularDecorator(node, decoratorName);
+  const argument = decorator && ts.isCallExpression(decorator.expression) ? decorator.expression.arguments[0] : undefined;
+  return argument && ts.isObjectLiteralExpression(argument) ? argument : undefined;
+}
+
+function angularDecorator(node: ts.Node, decoratorName: string): ts.Decorator | undefined {
+  if (!ts.canHaveDecorators(node)) {
+    return undefined;
+  }
+  return (ts.getDecorators(node) || []).find(decorator =>
+    ts.isCallExpression(decorator.expression) && calleeName(decorator.expression) === decoratorName);
+}
+
+/**
+ * An `@Input()` member or an `input()` / `input.required()` / `model()` signal field
+ */
+function angularInput(member: ts.ClassElement, declarations: TypeDeclarations): CodeComponentProp | undefined {
+  const decorator = angularDecorator(member, 'Input');
+  if (decorator && (ts.isPropertyDeclaration(member) || ts.isSetAccessorDeclaration(member) || ts.isGetAccessorDeclaration(member))) {
+    const call = decorator.expression as ts.CallExpression;
+    const options = call.arguments[0];
+    const prop = ts.isPropertyDeclaration(member)
+      ? propertyDeclarationProp(member, declarations)
+      : accessorProp(member, declarations);
+
+    if (options && ts.isStringLiteralLike(options)) {
+      prop.name = options.text;
+    } else if (options && ts.isObjectLiteralExpression(options)) {
+      const values = objectLiteralValues(options);
+      const alias = values.get('alias');
+      if (alias) {
+        prop.name = alias.replace(/^['"`]|['"`]$/g, '');
+      }
+      prop.optional = values.get('required') !== 'true';
+    }
+    return prop;
+  }
+
+  if (!ts.isPropertyDeclaration(member) || !member.initializer || !ts.isCallExpression(member.initializer)) {
+    return undefined;
+  }
+  const call = member.initializer;
+  const callee = call.expression.getText();
+  if (!['input', 'input.required', 'model', 'model.required'].includes(callee)) {
+    return undefined;
+  }
+
+  const required = callee.endsWith('.required');
+  const typeArgument = call.typeArguments?.[0];
+  const defaultArgument = required ? undefined : call.arguments[0];
+  const options = call.arguments[required ? 0 : 1];
+  const prop: CodeComponentProp = {
+    name: member.name.getText(),
+    type: typeArgument?.getText() || (defaultArgument ? literalType(defaultArgument) : undefined),
+    optional: !required,
+  };
+  const values = typeArgument ? literalValues(typeArgument, declarations) : undefined;
+  if (values) {
+    prop.values = values;
+  }
+  if (defaultArgument) {
+    prop.default_value = defaultArgument.getText();
+  }
+  if (options && ts.isObjectLiteralExpression(options)) {
+    const alias = objectLiteralValues(options).get('alias');
+    if (alias) {
+      prop.name = alias.replace(/^['"`]|['"`]$/g, '');
+    }
+  }
+  const description = jsDocText(member);
+  if (description) {
+    prop.description = description;
+  }
+  return prop;
+}
+
+function propertyDeclarationProp(member: ts.PropertyDeclaration, declarations: TypeDeclarations): CodeComponentProp {
+  const prop: CodeComponentProp = {
+    name: member.name.getText(),
+    type: member.type?.getText() || (member.initializer ? literalType(member.initializer) : undefined),
+    optional: true,
+  };
+  const values = member.type ? literalValues(member.type, declarations) : undefined;
+  if (values) {
+    prop.values = values;
+  }
+  if (member.initializer) {
+    prop.default_value = member.initializer.getText();
+  }
+  const description = jsDocText(member);
+  if (description) {
+    prop.description = description;
+  }
+  return prop;
+}
+
+function accessorProp(member: ts.AccessorDeclaration, declarations: TypeDeclarations): CodeComponentProp {
+  const typeNode = ts.isSetAccessorDeclaration(member) ? member.parameters[0]?.type : member.type;
+  const prop: CodeComponentProp = { name: member.name.getText(), type: typeNode?.getText(), optional: true };
+  const values = typeNode ? literalValues(typeNode, declarations) : undefined;
+  if (values) {
+    prop.values = values;
+  }
+  const description = jsDocText(member);
+  if (description) {
+    prop.description = description;
+  }
+  return prop;
+}
+
+function literalType(node: ts.Expression): string | undefined {
+  if (ts.isStringLiteralLike(node)) {
+    return 'string';
+  }
+  if (ts.isNumericLiteral(node)) {
+    return 'number';
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+    return 'boolean';
+  }
+  return undefined;
+}
+
+/**
+ * `app-user-card` → `UserCard`: the selector without its app prefix, falling back to the class name
+ */
+function angularComponentName(selector: string | undefined, className: string): string {
+  const baseName = className.replace(/Component$/, '');
+  const first = selector?.split(',')[0].trim().replace(/^\[|\]$/g, '');
+  if (!first) {
+    return baseName;
+  }
+  const segments = first.split('-').filter(Boolean);
+  // Drop the project prefix (app-, lib-, ...) unless the class name carries it too
+  if (segments.length > 1 && !baseName.toLowerCase().startsWith(segments[0].toLowerCase())) {
+    segments.shift();
+  }
+  return pascalCase(segments.join('-')) || baseName;
+}
@@ -0,0 +1,116 @@
+import { FigmaColor } from '../types/figma.js';
+
+/**
+ * Convert a Figma 0-1 RGBA color to hex, appending alpha only when not opaque
+ */
+export function figmaColorToHex(color: FigmaColor, opacity: number = 1): string {
+  const alpha = (color.a ?? 1) * opacity;
+  const hex = [color.r, color.g, color.b]
+    .map(channel => toByte(channel).toString(16).padStart(2, '0'))
+    .join('');
+
+  if (alpha >= 1) {
+    return `#${hex}`;
+  }
+  return `#${hex}${toByte(alpha).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Convert a Figma 0-1 RGBA color to a CSS rgb()/rgba() string
+ */
+export function figmaColorToRgba(color: FigmaColor, opacity: number = 1): string {
+  const alpha = round((color.a ?? 1) * opacity, 3);
+  const [r, g, b] = [color.r, color.g, color.b].map(toByte);
+  return alpha >= 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+export function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toByte(channel: number): number {
+  return Math.max(0, Math.min(255, Math.round(channel * 255)));
+}
+
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  transparent: '#00000000',
+};
+
+/**
+ * Parse a CSS hex, rgb()/rgba() or hsl()/hsla() color into 0-255 channels and 0-1 alpha
+ */
+export function parseCssColor(value: string): RgbaColor | null {
+  const input = value.trim().toLowerCase();
+  const hex = (NAMED_COLORS[input] || input).match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = digits.split('').map(d => d + d).join('');
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? round(parseInt(digits.slice(6, 8), 16) / 255, 3) : 1,
+    };
+  }
+
+  const functional = input.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (!functional) {
+    return null;
+  }
+
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3) {
+    return null;
+  }
+  const alpha = parts[3] !== undefined ? parseAlpha(parts[3]) : 1;
+
+  if (functional[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part =>
+      part.endsWith('%') ? Math.round(parseFloat(part) * 2.55) : parseFloat(part));
+    if ([r, g, b].some(Number.isNaN)) {
+      return null;
+    }
+    return { r, g, b, a: alpha };
+  }
+
+  const h = parseFloat(parts[0]);
+  const s = parseFloat(parts[1]) / 100;
+  const l = parseFloat(parts[2]) / 100;
+  if ([h, s, l].some(Number.isNaN)) {
+    return null;
+  }
+  return { ...hslToRgb(h, s, l), a: alpha };
+}
+
+/**
+ * Euclidean distance between two colors in 0-255 RGB space, with alpha scaled to the same range
+ */
+export function colorDistance(a: RgbaColor, b: RgbaColor): number {
+  return Math.sqrt(
+    (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2 + ((a.a - b.a) * 255) ** 2
+  );
+}
+
+function parseAlpha(value: string): number {
+  return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+}
+
+function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return { r: Math.round(f(0) * 255), g: Math.round(f(8) * 255), b: Math.round(f(4) * 255) };
+}
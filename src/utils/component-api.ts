@@ -0,0 +1,222 @@
+import { ComponentApi, ComponentApiProperty, FigmaFile, FigmaNode } from '../types/figma.js';
+
+/**
+ * Parse a variant component name like `Size=Large, State=Hover` into axis/value pairs
+ */
+export function parseVariantName(name: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const [axis, ...rest] = part.split('=');
+    if (rest.length > 0 && axis.trim()) {
+      values[axis.trim()] = rest.join('=').trim();
+    }
+  }
+  return values;
+}
+
+/**
+ * Strip the `#12:0` id suffix Figma appends to non-variant property names
+ */
+export function cleanPropertyName(name: string): string {
+  return name.replace(/#[\d:]+$/, '').trim();
+}
+
+/**
+ * Build the variant and property model of every component set in a file, plus standalone
+ * components that declare component properties
+ */
+export function buildComponentApis(file: FigmaFile): ComponentApi[] {
+  const apis: ComponentApi[] = [];
+  const stack: FigmaNode[] = [file.document as unknown as FigmaNode];
+
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+
+    if (node.type === 'COMPONENT_SET') {
+      apis.push(componentSetApi(node, file));
+    } else if (node.type === 'COMPONENT' && Object.keys(node.componentPropertyDefinitions || {}).length > 0) {
+      apis.push(standaloneComponentApi(node, file));
+    }
+
+    // Variants are read by componentSetApi, and components can't contain other definitions
+    if (node.children && !['COMPONENT_SET', 'COMPONENT', 'INSTANCE'].includes(node.type)) {
+      stack.push(...[...node.children].reverse());
+    }
+  }
+
+  return apis;
+}
+
+/**
+ * Find a component API by component (set) key, node ID or case-insensitive name
+ */
+export function findComponentApi(apis: ComponentApi[], reference: string): ComponentApi | undefined {
+  const nodeId = reference.replace(/-/g, ':');
+  return apis.find(api => api.key === reference || api.id === nodeId)
+    || apis.find(api => api.variants.some(variant => variant.key === reference || variant.id === nodeId))
+    || apis.find(api => api.name.toLowerCase() === reference.toLowerCase());
+}
+
+/**
+ * API of one component or component set node, including components without properties
+ */
+export function componentApiForNode(node: FigmaNode, file: FigmaFile): ComponentApi {
+  return node.type === 'COMPONENT_SET' ? componentSetApi(node, file) : standaloneComponentApi(node, file);
+}
+
+/**
+ * Find a node by ID anywhere in a file's document
+ */
+export function findNodeById(file: FigmaFile, id: string): FigmaNode | undefined {
+  const stack: FigmaNode[] = [file.document as unknown as FigmaNode];
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+    if (node.id === id) {
+      return node;
+    }
+    if (node.children) {
+      stack.push(...node.children);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A node and its ancestors, outermost first, or undefined when the node isn't in the document
+ */
+export function findNodePath(file: FigmaFile, id: string): FigmaNode[] | undefined {
+  const stack: FigmaNode[][] = [[file.document as unknown as FigmaNode]];
+  while (stack.length > 0) {
+    const path = stack.pop() as FigmaNode[];
+    const node = path[path.length - 1];
+    if (node.id === id) {
+      return path;
+    }
+    for (const child of node.children || []) {
+      stack.push([...path, child]);
+    }
+  }
+  return undefined;
+}
+
+function componentSetApi(node: FigmaNode, file: FigmaFile): ComponentApi {
+  const definitions = node.componentPropertyDefinitions || {};
+  const variants = (node.children || [])
+    .filter(child => child.type === 'COMPONENT')
+    .map(child => ({
+      id: child.id,
+      key: file.components?.[child.id]?.key,
+      name: child.name,
+      values: parseVariantName(child.name),
+    }));
+
+  const axes = new Map<string, { name: string; values: string[]; default?: string }>();
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (definition.type === 'VARIANT') {
+      axes.set(name, {
+        name,
+        values: [...(definition.variantOptions || [])],
+        default: String(definition.defaultValue),
+      });
+    }
+  }
+
+  // Older files may lack definitions; fall back to the values seen in variant names
+  for (const variant of variants) {
+    for (const [axis, value] of Object.entries(variant.values)) {
+      const entry = axes.get(axis) || { name: axis, values: [] };
+      if (!entry.values.includes(value)) {
+        entry.values.push(value);
+      }
+      axes.set(axis, entry);
+    }
+  }
+
+  const variantAxes = [...axes.values()];
+  // Figma's default variant is the one matching every axis default, which is normally the first child
+  const defaultVariant = variants.find(variant =>
+    variantAxes.every(axis => axis.default === undefined || variant.values[axis.name] === axis.default)) || variants[0];
+  const defaultNode = (node.children || []).find(child => child.id === defaultVariant?.id);
+  const set = file.componentSets?.[node.id];
+
+  return {
+    id: node.id,
+    key: set?.key,
+    name: node.name,
+    description: set?.description || '',
+    ...documentationLinks(set?.documentationLinks),
+    variant_axes: variantAxes,
+    properties: nonVariantProperties(node, defaultNode || node, file),
+    variants,
+    ...(defaultVariant ? { default_variant: defaultVariant.id } : {}),
+  };
+}
+
+function standaloneComponentApi(node: FigmaNode, file: FigmaFile): ComponentApi {
+  const component = file.components?.[node.id];
+  return {
+    id: node.id,
+    key: component?.key,
+    name: node.name,
+    description: component?.description || '',
+    ...documentationLinks(component?.documentationLinks),
+    variant_axes: [],
+    properties: nonVariantProperties(node, node, file),
+    variants: [],
+  };
+}
+
+function documentationLinks(links: Array<{ uri: string }> | undefined): Pick<ComponentApi, 'documentation_links'> {
+  return links?.length ? { documentation_links: links.map(link => link.uri) } : {};
+}
+
+/**
+ * BOOLEAN, TEXT and INSTANCE_SWAP properties with the layers of `layerRoot` they drive
+ */
+function nonVariantProperties(node: FigmaNode, layerRoot: FigmaNode, file: FigmaFile): ComponentApiProperty[] {
+  const references = collectPropertyReferences(layerRoot);
+
+  return Object.entries(node.componentPropertyDefinitions || {})
+    .filter(([, definition]) => definition.type !== 'VARIANT')
+    .map(([name, definition]) => {
+      const property: ComponentApiProperty = {
+        name: cleanPropertyName(name),
+        definition_name: name,
+        type: definition.type as ComponentApiProperty['type'],
+        default_value: definition.defaultValue,
+      };
+      if (definition.type === 'INSTANCE_SWAP') {
+        // The default of an instance swap is a component node ID
+        const defaultComponent = file.components?.[String(definition.defaultValue)]?.name;
+        if (defaultComponent) {
+          property.default_component = defaultComponent;
+        }
+      }
+      if (definition.preferredValues?.length) {
+        property.preferred_values = definition.preferredValues.map(value => value.key);
+      }
+      const layers = references.get(name);
+      if (layers?.length) {
+        property.layers = layers;
+      }
+      return property;
+    });
+}
+
+function collectPropertyReferences(root: FigmaNode): Map<string, Array<{ id: string; name: string; field: string }>> {
+  const references = new Map<string, Array<{ id: string; name: string; field: string }>>();
+  const stack: FigmaNode[] = [...(root.children || [])].reverse();
+
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+    for (const [field, definitionName] of Object.entries(node.componentPropertyReferences || {})) {
+      references.set(definitionName, [...(references.get(definitionName) || []), { id: node.id, name: node.name, field }]);
+    }
+    // Nested instances expose their own properties, which aren't this component's
+    if (node.children && node.type !== 'INSTANCE') {
+      stack.push(...[...node.children].reverse());
+    }
+  }
+
+  return references;
+}
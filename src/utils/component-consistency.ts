@@ -0,0 +1,185 @@
+import { CodeComponent, CodeComponentProp, ComponentApi, ComponentIssue } from '../types/figma.js';
+import { formatTokenName } from './token-formatters.js';
+
+// Props every component may accept without a design counterpart
+const PASSTHROUGH_PROPS = new Set([
+  'children', 'className', 'class', 'style', 'id', 'ref', 'key', 'as', 'sx', 'testId', 'dataTestId', 'slot',
+]);
+
+const BOOLEAN_VALUE_PAIRS = [['true', 'false'], ['yes', 'no'], ['on', 'off']];
+
+// Figma text properties that usually map to `children` in code
+const CHILDREN_LIKE = /^(label|text|title|content|children|value)$/i;
+
+/**
+ * Convert a Figma axis or property name (`Has Icon`, `size`) to the conventional prop name (`hasIcon`)
+ */
+export function toPropName(name: string): string {
+  return formatTokenName([name], 'camel');
+}
+
+/**
+ * Convert a Figma variant option (`Extra Large`) to the conventional union member (`extra-large`)
+ */
+export function toVariantValue(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Compare a Figma component API with the props of its matched code component
+ */
+export function compareComponentApi(api: ComponentApi, code: CodeComponent): ComponentIssue[] {
+  const issues: ComponentIssue[] = [];
+  const props = codeProps(code);
+  const byName = new Map(props.map(prop => [normalize(prop.name), prop]));
+  const accounted = new Set<string>();
+  const base = { figma_component: api.name, code_component: code.name };
+
+  for (const axis of api.variant_axes) {
+    const propName = toPropName(axis.name);
+    const prop = byName.get(normalize(propName));
+    const booleanAxis = isBooleanAxis(axis.values);
+
+    if (!prop) {
+      // A `State=Disabled` style axis is often covered by one boolean prop per value
+      const perValue = axis.values.filter(value => byName.has(normalize(value)));
+      perValue.forEach(value => accounted.add(normalize(value)));
+      if (perValue.length === 0 || perValue.length < axis.values.length - 1) {
+        issues.push({
+          ...base,
+          type: 'missing_prop',
+          severity: 'high',
+          prop: propName,
+          figma_value: axis.values.join(' | '),
+          issue: `Variant axis "${axis.name}" (${axis.values.join(', ')}) has no "${propName}" prop`,
+        });
+      }
+      continue;
+    }
+
+    accounted.add(normalize(prop.name));
+    if (booleanAxis) {
+      if (prop.type && !isBooleanType(prop)) {
+        issues.push({
+          ...base,
+          type: 'prop_type_mismatch',
+          severity: 'low',
+          prop: prop.name,
+          figma_value: 'boolean',
+          code_value: prop.type,
+          issue: `Variant axis "${axis.name}" is a boolean toggle but "${prop.name}" is typed ${prop.type}`,
+        });
+      }
+      continue;
+    }
+
+    if (!prop.values?.length) {
+      continue;
+    }
+    const codeValues = new Set(prop.values.map(normalize));
+    for (const value of axis.values) {
+      if (!codeValues.has(normalize(value))) {
+        issues.push({
+          ...base,
+          type: 'missing_variant',
+          severity: 'medium',
+          prop: prop.name,
+          figma_value: `${axis.name}=${value}`,
+          code_value: prop.values.join(' | '),
+          issue: `Figma variant ${axis.name}=${value} is not in the "${prop.name}" union (${prop.values.join(', ')})`,
+        });
+      }
+    }
+  }
+
+  for (const property of api.properties) {
+    const propName = toPropName(property.name);
+    let prop = byName.get(normalize(propName));
+    if (!prop && property.type === 'TEXT' && CHILDREN_LIKE.test(propName)) {
+      prop = byName.get('children');
+    }
+    if (!prop && property.type === 'BOOLEAN') {
+      // `Show Icon` ↔ `icon`, `Has Badge` ↔ `badge`
+      prop = byName.get(normalize(propName.replace(/^(show|has|with|is)(?=[A-Z])/, '')));
+    }
+
+    if (!prop) {
+      issues.push({
+        ...base,
+        type: 'missing_prop',
+        severity: property.type === 'INSTANCE_SWAP' ? 'low' : 'medium',
+        prop: propName,
+        figma_value: property.type.toLowerCase(),
+        issue: `${describePropertyType(property.type)} property "${property.name}" has no matching prop`,
+      });
+      continue;
+    }
+
+    accounted.add(normalize(prop.name));
+    if (property.type === 'BOOLEAN' && prop.type && !isBooleanType(prop) && !/node|element/i.test(prop.type)) {
+      issues.push({
+        ...base,
+        type: 'prop_type_mismatch',
+        severity: 'low',
+        prop: prop.name,
+        figma_value: 'boolean',
+        code_value: prop.type,
+        issue: `Boolean property "${property.name}" maps to "${prop.name}" typed ${prop.type}`,
+      });
+    }
+  }
+
+  for (const prop of props) {
+    const key = normalize(prop.name);
+    if (accounted.has(key) || PASSTHROUGH_PROPS.has(prop.name) || /^on[A-Z]/.test(prop.name) || /^(aria|data)[A-Z-]/.test(prop.name)) {
+      continue;
+    }
+    issues.push({
+      ...base,
+      type: 'extra_prop',
+      severity: 'low',
+      prop: prop.name,
+      code_value: prop.type,
+      issue: `Prop "${prop.name}" has no variant or component property in Figma`,
+    });
+  }
+
+  return issues;
+}
+
+function codeProps(code: CodeComponent): CodeComponentProp[] {
+  if (code.prop_details?.length) {
+    return code.prop_details;
+  }
+  return (code.props || []).map(name => ({ name }));
+}
+
+/**
+ * Whether a variant axis is a toggle such as True/False, Yes/No or On/Off
+ */
+export function isBooleanAxis(values: string[]): boolean {
+  const lower = values.map(value => value.toLowerCase()).sort();
+  return lower.length === 2 && BOOLEAN_VALUE_PAIRS.some(pair => [...pair].sort().join() === lower.join());
+}
+
+function isBooleanType(prop: CodeComponentProp): boolean {
+  if (prop.type === 'boolean') {
+    return true;
+  }
+  return !!prop.values?.length && prop.values.every(value => value === 'true' || value === 'false');
+}
+
+function describePropertyType(type: string): string {
+  switch (type) {
+    case 'BOOLEAN':
+      return 'Boolean';
+    case 'TEXT':
+      return 'Text';
+    default:
+      return 'Instance swap';
+  }
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,561 @@
+import { ComponentApi, FigmaNode } from '../types/figma.js';
+import { ResolvedToken } from '../types/tokens.js';
+import { isBooleanAxis, toPropName, toVariantValue } from './component-consistency.js';
+import { boxDeclarations, createStyleTokenIndex, firstTextNode, StyleTokenIndex, textDeclarations } from './node-css.js';
+import { formatTokenName } from './token-formatters.js';
+
+export type ScaffoldFramework = 'react' | 'vue' | 'svelte' | 'angular';
+
+export interface ScaffoldFile {
+  // Relative to the code directory the scaffold is written into
+  path: string;
+  content: string;
+}
+
+export interface ComponentScaffold {
+  figma_name: string;
+  component_name: string;
+  files: ScaffoldFile[];
+  // CSS custom properties the styles reference, named as export_design_tokens' css format emits them
+  tokens_used: string[];
+  // Style values no design token matched, written as literals
+  untokenized_values: string[];
+  // Paints and effects with no place in the generated CSS, as `layer: description`
+  omitted_styles: string[];
+}
+
+export interface ScaffoldOptions {
+  framework: ScaffoldFramework;
+  tokens: ResolvedToken[];
+  // The component node, or every variant node of a component set, keyed by node ID
+  nodes: Map<string, FigmaNode>;
+  // Written as an `@figma` tag so the mapping tools link the scaffold back to its design
+  figmaUrl?: string;
+}
+
+interface ScaffoldProp {
+  name: string;
+  type: 'union' | 'boolean' | 'string' | 'slot';
+  doc: string;
+  values?: string[];
+  default?: string | boolean;
+  // Variant axis the prop selects; rendered as a data attribute that the variant styles key on
+  axis?: { name: string; attribute: string; codeValues: Record<string, string> };
+  // Layers of the default variant the property drives
+  layers: string[];
+}
+
+interface ScaffoldChild {
+  prop: ScaffoldProp;
+  // Boolean property that toggles the layer (or one of its ancestors)
+  guard?: ScaffoldProp;
+}
+
+// Everything a framework renderer needs
+interface ComponentParts {
+  name: string;
+  description: string;
+  figmaUrl?: string;
+  tag: string;
+  props: ScaffoldProp[];
+  children: ScaffoldChild[];
+  css: string;
+}
+
+interface CssRule {
+  selector: string;
+  declarations: Map<string, string>;
+}
+
+const TRUTHY_VALUES = new Set(['true', 'yes', 'on']);
+
+/**
+ * Generate a typed component skeleton for a Figma component (set): a props interface built from the
+ * variant axes and component properties, markup for text and instance-swap slots, and styles that
+ * reference design tokens wherever a token matches the design's values
+ */
+export function scaffoldComponent(api: ComponentApi, options: ScaffoldOptions): ComponentScaffold {
+  const name = componentName(api.name);
+  const props = buildProps(api);
+  const defaultNode = options.nodes.get(api.default_variant || api.id) || options.nodes.values().next().value;
+  const children = buildChildren(props, defaultNode);
+  const tokens = createStyleTokenIndex(options.tokens);
+  const css = renderCss(variantRules(api, props, options.nodes, defaultNode, tokens));
+  const component: ComponentParts = {
+    name,
+    description: api.description,
+    figmaUrl: options.figmaUrl,
+    tag: /button/i.test(name) ? 'button' : 'div',
+    props,
+    children,
+    css,
+  };
+
+  let files: ScaffoldFile[];
+  switch (options.framework) {
+    case 'vue':
+      files = [{ path: `${name}.vue`, content: vueComponent(component) }];
+      break;
+    case 'svelte':
+      files = [{ path: `${name}.svelte`, content: svelteComponent(component) }];
+      break;
+    case 'angular': {
+      const fileName = formatTokenName([name], 'kebab');
+      files = [
+        { path: `${fileName}.component.ts`, content: angularComponent(component, fileName) },
+        { path: `${fileName}.component.css`, content: css },
+      ];
+      break;
+    }
+    default:
+      files = [
+        { path: `${name}.tsx`, content: reactComponent(component) },
+        { path: `${name}.module.css`, content: css },
+      ];
+  }
+
+  return {
+    figma_name: api.name,
+    component_name: name,
+    files,
+    tokens_used: [...tokens.used].sort(),
+    untokenized_values: [...tokens.untokenized].sort(),
+    omitted_styles: [...tokens.omitted],
+  };
+}
+
+/**
+ * Render new files as a unified diff that `git apply` accepts
+ */
+export function formatNewFilePatch(files: ScaffoldFile[]): string {
+  return files.map(file => {
+    const lines = file.content.replace(/\n$/, '').split('\n');
+    return [
+      `diff --git a/${file.path} b/${file.path}`,
+      'new file mode 100644',
+      '--- /dev/null',
+      `+++ b/${file.path}`,
+      `@@ -0,0 +1,${lines.length} @@`,
+      ...lines.map(line => `+${line}`),
+    ].join('\n');
+  }).join('\n') + '\n';
+}
+
+/**
+ * PascalCase identifier from the last `/` segment of a Figma name (`Forms/Text Field` → `TextField`)
+ */
+function componentName(figmaName: string): string {
+  const camel = formatTokenName([figmaName.split('/').pop() || ''], 'camel');
+  const name = camel.charAt(0).toUpperCase() + camel.slice(1);
+  return /^[A-Za-z]/.test(name) ? name : `Component${name}`;
+}
+
+function buildProps(api: ComponentApi): ScaffoldProp[] {
+  const used = new Set<string>();
+  const uniqueName = (figmaName: string) => {
+    const base = toPropName(figmaName) || 'value';
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}${n}`;
+    }
+    used.add(name);
+    return name;
+  };
+
+  const props: ScaffoldProp[] = api.variant_axes.map(axis => {
+    const name = uniqueName(axis.name);
+    const attribute = `data-${formatTokenName([axis.name], 'kebab')}`;
+    const doc = `Figma variant "${axis.name}"`;
+
+    if (isBooleanAxis(axis.values)) {
+      const codeValues = Object.fromEntries(axis.values.map(value =>
+        [value, String(TRUTHY_VALUES.has(value.toLowerCase()))]));
+      return {
+        name,
+        type: 'boolean',
+        doc,
+        default: axis.default !== undefined && codeValues[axis.default] === 'true',
+        axis: { name: axis.name, attribute, codeValues },
+        layers: [],
+      };
+    }
+
+    const codeValues = Object.fromEntries(axis.values.map(value => [value, toVariantValue(value)]));
+    return {
+      name,
+      type: 'union',
+      doc,
+      values: axis.values.map(value => codeValues[value]),
+      ...(axis.default !== undefined && codeValues[axis.default] ? { default: codeValues[axis.default] } : {}),
+      axis: { name: axis.name, attribute, codeValues },
+      layers: [],
+    };
+  });
+
+  for (const property of api.properties) {
+    const base = { name: uniqueName(property.name), layers: (property.layers || []).map(layer => layer.id) };
+    switch (property.type) {
+      case 'BOOLEAN':
+        props.push({
+          ...base,
+          type: 'boolean',
+          doc: `Figma boolean property "${property.name}"`,
+          default: property.default_value === true || property.default_value === 'true',
+        });
+        break;
+      case 'TEXT':
+        props.push({ ...base, type: 'string', doc: `Figma text property "${property.name}"`, default: String(property.default_value) });
+        break;
+      default:
+        props.push({
+          ...base,
+          type: 'slot',
+          doc: `Figma instance swap property "${property.name}"${property.default_component ? `, defaults to ${property.default_component}` : ''}`,
+        });
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Text and instance-swap props in the order their layers appear in the default variant
+ */
+function buildChildren(props: ScaffoldProp[], root: FigmaNode | undefined): ScaffoldChild[] {
+  const order = new Map<string, number>();
+  const parents = new Map<string, string>();
+  const stack: FigmaNode[] = root ? [root] : [];
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+    order.set(node.id, order.size);
+    for (const child of [...(node.children || [])].reverse()) {
+      parents.set(child.id, node.id);
+      stack.push(child);
+    }
+  }
+
+  const ancestors = (id: string) => {
+    const ids = [id];
+    for (let parent = parents.get(id); parent; parent = parents.get(parent)) {
+      ids.push(parent);
+    }
+    return ids;
+  };
+  const position = (prop: ScaffoldProp) => Math.min(...prop.layers.map(id => order.get(id) ?? Infinity));
+  const toggles = props.filter(prop => prop.type === 'boolean' && !prop.axis && prop.layers.length > 0);
+
+  return props
+    .filter(prop => prop.type === 'string' || prop.type === 'slot')
+    .map(prop => {
+      const layers = new Set(prop.layers.flatMap(ancestors));
+      const guard = toggles.find(toggle => toggle.layers.some(id => layers.has(id)));
+      return guard ? { prop, guard } : { prop };
+    })
+    .sort((a, b) => position(a.prop) - position(b.prop));
+}
+
+
+/**
+ * Base rule from the default variant, plus one rule per variant for the declarations it changes.
+ * A variant differing in several axes only lists what the single-axis rules don't already produce
+ */
+function variantRules(
+  api: ComponentApi,
+  props: ScaffoldProp[],
+  nodes: Map<string, FigmaNode>,
+  defaultNode: FigmaNode | undefined,
+  tokens: StyleTokenIndex
+): CssRule[] {
+  const base = defaultNode ? nodeDeclarations(defaultNode, tokens) : new Map<string, string>();
+  const rules: CssRule[] = [{ selector: '.root', declarations: base }];
+  const defaults = api.variants.find(variant => variant.id === defaultNode?.id)?.values || {};
+  const axes = new Map(props.filter(prop => prop.axis).map(prop => [prop.axis!.name, prop.axis!]));
+  const single = new Map<string, Map<string, string>>();
+
+  const variants = api.variants
+    .filter(variant => variant.id !== defaultNode?.id && nodes.has(variant.id))
+    .map(variant => ({
+      variant,
+      changed: Object.keys(variant.values).filter(axis => axes.has(axis) && variant.values[axis] !== defaults[axis]),
+    }))
+    .sort((a, b) => a.changed.length - b.changed.length);
+
+  for (const { variant, changed } of variants) {
+    const expected = new Map(base);
+    for (const axis of changed) {
+      single.get(`${axis}=${variant.values[axis]}`)?.forEach((value, property) => expected.set(property, value));
+    }
+
+    const declarations = new Map<string, string>();
+    for (const [property, value] of nodeDeclarations(nodes.get(variant.id) as FigmaNode, tokens)) {
+      if (expected.get(property) !== value) {
+        declarations.set(property, value);
+      }
+    }
+    if (changed.length === 1) {
+      single.set(`${changed[0]}=${variant.values[changed[0]]}`, declarations);
+    }
+    if (declarations.size > 0) {
+      const selector = changed.map(axis => {
+        const { attribute, codeValues } = axes.get(axis)!;
+        return `[${attribute}='${codeValues[variant.values[axis]]}']`;
+      }).join('');
+      rules.push({ selector: `.root${selector}`, declarations });
+    }
+  }
+
+  return rules;
+}
+
+
+function nodeDeclarations(node: FigmaNode, tokens: StyleTokenIndex): Map<string, string> {
+  const css = boxDeclarations(node, tokens);
+  // Text inherits, so the first text layer's type style and color go on the root
+  const text = firstTextNode(node);
+  if (text) {
+    textDeclarations(text, tokens).forEach((value, property) => css.set(property, value));
+  }
+  return css;
+}
+
+function renderCss(rules: CssRule[]): string {
+  return rules
+    .filter((rule, index) => index === 0 || rule.declarations.size > 0)
+    .map(rule => [
+      `${rule.selector} {`,
+      ...[...rule.declarations].map(([property, value]) => `  ${property}: ${value};`),
+      '}',
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+function reactComponent(component: ComponentParts): string {
+  const { name, props, tag } = component;
+  const lines: string[] = [];
+
+  if (props.some(prop => prop.type === 'slot')) {
+    lines.push(`import type { ReactNode } from 'react';`);
+  }
+  lines.push(`import styles from './${name}.module.css';`, '');
+
+  lines.push(`export interface ${name}Props {`);
+  for (const prop of props) {
+    lines.push(`  /** ${prop.doc} */`, `  ${prop.name}?: ${propType(prop, 'ReactNode')};`);
+  }
+  lines.push('  className?: string;', '}', '');
+
+  lines.push(...docComment([component.description, component.figmaUrl && `@figma ${component.figmaUrl}`], ''));
+  const params = [...props.map(prop => prop.default !== undefined ? `${prop.name} = ${literalOf(prop)}` : prop.name), 'className'];
+  const signature = `export function ${name}({ ${params.join(', ')} }: ${name}Props) {`;
+  if (signature.length <= 100) {
+    lines.push(signature);
+  } else {
+    lines.push(`export function ${name}({`, ...params.map(param => `  ${param},`), `}: ${name}Props) {`);
+  }
+
+  const attributes = [
+    ...(tag === 'button' ? ['type="button"'] : []),
+    'className={[styles.root, className].filter(Boolean).join(\' \')}',
+    ...props.filter(prop => prop.axis).map(prop => `${prop.axis!.attribute}={${prop.name}}`),
+  ];
+  lines.push('  return (');
+  if (component.children.length === 0) {
+    lines.push(`    <${tag} ${attributes.join(' ')} />`);
+  } else {
+    lines.push(`    <${tag} ${attributes.join(' ')}>`);
+    for (const { prop, guard } of component.children) {
+      const content = prop.type === 'slot' ? prop.name : `<span>{${prop.name}}</span>`;
+      if (guard) {
+        lines.push(`      {${guard.name} && ${content}}`);
+      } else {
+        lines.push(prop.type === 'slot' ? `      {${content}}` : `      ${content}`);
+      }
+    }
+    lines.push(`    </${tag}>`);
+  }
+  lines.push('  );', '}', '');
+
+  return lines.join('\n');
+}
+
+function vueComponent(component: ComponentParts): string {
+  const { name, props, tag } = component;
+  const values = props.filter(prop => prop.type !== 'slot');
+  const slots = props.filter(prop => prop.type === 'slot');
+  const lines: string[] = [];
+
+  if (component.figmaUrl) {
+    lines.push(`<!-- @figma ${component.figmaUrl} -->`);
+  }
+  lines.push('<script setup lang="ts">');
+  lines.push(...docComment([component.description], ''));
+  lines.push(`export interface ${name}Props {`);
+  for (const prop of values) {
+    lines.push(`  /** ${prop.doc} */`, `  ${prop.name}?: ${propType(prop, '')};`);
+  }
+  lines.push('}', '');
+
+  const defaults = values.filter(prop => prop.default !== undefined);
+  if (defaults.length > 0) {
+    lines.push(`const props = withDefaults(defineProps<${name}Props>(), {`);
+    lines.push(...defaults.map(prop => `  ${prop.name}: ${literalOf(prop)},`));
+    lines.push('});');
+  } else {
+    lines.push(`const props = defineProps<${name}Props>();`);
+  }
+  if (slots.length > 0) {
+    lines.push('', 'defineSlots<{');
+    for (const slot of slots) {
+      lines.push(`  /** ${slot.doc} */`, `  ${slot.name}?: () => unknown;`);
+    }
+    lines.push('}>();');
+  }
+  lines.push('</script>', '', '<template>');
+
+  const attributes = [
+    ...(tag === 'button' ? ['type="button"'] : []),
+    'class="root"',
+    ...props.filter(prop => prop.axis).map(prop =>
+      `:${prop.axis!.attribute}="${prop.type === 'boolean' ? `String(props.${prop.name})` : `props.${prop.name}`}"`),
+  ];
+  if (component.children.length === 0) {
+    lines.push(`  <${tag} ${attributes.join(' ')} />`);
+  } else {
+    lines.push(`  <${tag} ${attributes.join(' ')}>`);
+    for (const { prop, guard } of component.children) {
+      const condition = guard ? ` v-if="props.${guard.name}"` : '';
+      lines.push(prop.type === 'slot'
+        ? `    <slot name="${prop.name}"${condition} />`
+        : `    <span${condition}>{{ props.${prop.name} }}</span>`);
+    }
+    lines.push(`  </${tag}>`);
+  }
+  lines.push('</template>', '', '<style scoped>', component.css.trimEnd(), '</style>', '');
+
+  return lines.join('\n');
+}
+
+function svelteComponent(component: ComponentParts): string {
+  const { props, tag } = component;
+  const lines: string[] = [];
+
+  if (component.figmaUrl) {
+    lines.push(`<!-- @figma ${component.figmaUrl} -->`);
+  }
+  lines.push('<script lang="ts">');
+  if (props.some(prop => prop.type === 'slot')) {
+    lines.push(`  import type { Snippet } from 'svelte';`, '');
+  }
+  lines.push(...docComment([component.description], '  '));
+  lines.push('  interface Props {');
+  for (const prop of props) {
+    lines.push(`    /** ${prop.doc} */`, `    ${prop.name}?: ${propType(prop, 'Snippet')};`);
+  }
+  lines.push('  }', '');
+  const bindings = props.map(prop => prop.default !== undefined ? `${prop.name} = ${literalOf(prop)}` : prop.name);
+  lines.push(`  let { ${bindings.join(', ')} }: Props = $props();`, '</script>', '');
+
+  const attributes = [
+    ...(tag === 'button' ? ['type="button"'] : []),
+    'class="root"',
+    ...props.filter(prop => prop.axis).map(prop =>
+      `${prop.axis!.attribute}={${prop.type === 'boolean' ? `String(${prop.name})` : prop.name}}`),
+  ];
+  if (component.children.length === 0) {
+    lines.push(`<${tag} ${attributes.join(' ')}></${tag}>`);
+  } else {
+    lines.push(`<${tag} ${attributes.join(' ')}>`);
+    for (const { prop, guard } of component.children) {
+      const content = prop.type === 'slot' ? `{@render ${prop.name}?.()}` : `<span>{${prop.name}}</span>`;
+      if (guard) {
+        lines.push(`  {#if ${guard.name}}`, `    ${content}`, '  {/if}');
+      } else {
+        lines.push(`  ${content}`);
+      }
+    }
+    lines.push(`</${tag}>`);
+  }
+  lines.push('', '<style>', ...component.css.trimEnd().split('\n').map(line => line ? `  ${line}` : line), '</style>', '');
+
+  return lines.join('\n');
+}
+
+function angularComponent(component: ComponentParts, fileName: string): string {
+  const { name, props, tag } = component;
+  const inputs = props.filter(prop => prop.type !== 'slot');
+  const lines: string[] = [];
+
+  // A file-level tag: the scanner names Angular components by selector, not class name
+  if (component.figmaUrl) {
+    lines.push(`// @figma ${component.figmaUrl}`);
+  }
+  lines.push(`import { Component${inputs.length > 0 ? ', input' : ''} } from '@angular/core';`, '');
+  lines.push(...docComment([component.description], ''));
+  lines.push('@Component({', `  selector: 'app-${fileName}',`, '  standalone: true,', '  template: `');
+
+  const attributes = [
+    ...(tag === 'button' ? ['type="button"'] : []),
+    'class="root"',
+    ...props.filter(prop => prop.axis).map(prop => `[attr.${prop.axis!.attribute}]="${prop.name}()"`),
+  ];
+  if (component.children.length === 0) {
+    lines.push(`    <${tag} ${attributes.join(' ')}></${tag}>`);
+  } else {
+    lines.push(`    <${tag} ${attributes.join(' ')}>`);
+    for (const { prop, guard } of component.children) {
+      const content = prop.type === 'slot'
+        ? `<ng-content select="[${prop.name}]" />`
+        : `<span>{{ ${prop.name}() }}</span>`;
+      if (guard) {
+        lines.push(`      @if (${guard.name}()) {`, `        ${content}`, '      }');
+      } else {
+        lines.push(`      ${content}`);
+      }
+    }
+    lines.push(`    </${tag}>`);
+  }
+  lines.push('  `,', `  styleUrl: './${fileName}.component.css',`, '})');
+
+  lines.push(`export class ${name}Component {`);
+  inputs.forEach((prop, index) => {
+    if (index > 0) {
+      lines.push('');
+    }
+    const value = prop.default !== undefined ? literalOf(prop) : '';
+    lines.push(`  /** ${prop.doc} */`, `  readonly ${prop.name} = input<${propType(prop, '')}>(${value});`);
+  });
+  lines.push('}', '');
+
+  return lines.join('\n');
+}
+
+function propType(prop: ScaffoldProp, slotType: string): string {
+  switch (prop.type) {
+    case 'union':
+      return (prop.values || []).map(quote).join(' | ') || 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'string':
+      return 'string';
+    default:
+      return slotType;
+  }
+}
+
+function literalOf(prop: ScaffoldProp): string {
+  return typeof prop.default === 'boolean' ? String(prop.default) : quote(String(prop.default));
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function docComment(parts: Array<string | undefined>, indent: string): string[] {
+  const lines = parts
+    .filter((part): part is string => !!part?.trim())
+    .flatMap((part, index) => [...(index > 0 ? [''] : []), ...part.trim().split('\n')]);
+  if (lines.length === 0) {
+    return [];
+  }
+  return [`${indent}/**`, ...lines.map(line => `${indent} *${line ? ` ${line.replace(/\*\//g, '*\\/')}` : ''}`), `${indent} */`];
+}
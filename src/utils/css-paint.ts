@@ -0,0 +1,255 @@
+import { FigmaEffect, FigmaFill, FigmaVector } from '../types/figma.js';
+import { figmaColorToHex, figmaColorToRgba, round } from './color-utils.js';
+
+// Pixel size of the node a paint is applied to; gradient geometry is relative to it
+export interface PaintBox {
+  width: number;
+  height: number;
+}
+
+const BLEND_MODES: Record<string, string> = {
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  COLOR_BURN: 'color-burn',
+  // plus-darker is only supported by Safari, and like plus-lighter only by mix-blend-mode
+  LINEAR_BURN: 'plus-darker',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  COLOR_DODGE: 'color-dodge',
+  LINEAR_DODGE: 'plus-lighter',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'soft-light',
+  HARD_LIGHT: 'hard-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+};
+
+// Handles Figma uses for a gradient nobody has dragged: left to right through the middle
+const DEFAULT_HANDLES: FigmaVector[] = [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }];
+
+// Valid for mix-blend-mode but not background-blend-mode
+const MIX_ONLY_BLEND_MODES = new Set(['plus-darker', 'plus-lighter']);
+
+/**
+ * CSS blend mode for a Figma blend mode, or undefined for NORMAL and PASS_THROUGH
+ */
+export function blendModeToCss(mode: string | undefined): string | undefined {
+  return mode ? BLEND_MODES[mode] : undefined;
+}
+
+/**
+ * Like `blendModeToCss`, for a fill layer: modes `background-blend-mode` has no equivalent for
+ * are left out, so the layer falls back to normal
+ */
+export function backgroundBlendModeToCss(mode: string | undefined): string | undefined {
+  const css = blendModeToCss(mode);
+  return css && !MIX_ONLY_BLEND_MODES.has(css) ? css : undefined;
+}
+
+/**
+ * A paint as a CSS color or gradient image, or undefined for image, video and hidden paints.
+ *
+ * Gradient handles are relative to the node's box, so angles and stop positions are only exact
+ * when the box is given; without one the node is treated as square.
+ */
+export function paintToCss(paint: FigmaFill, box?: PaintBox): string | undefined {
+  if (paint.visible === false) {
+    return undefined;
+  }
+  const opacity = paint.opacity ?? 1;
+
+  if (paint.type === 'SOLID') {
+    return paint.color ? figmaColorToHex(paint.color, opacity) : undefined;
+  }
+  if (!paint.type.startsWith('GRADIENT_') || !paint.gradientStops?.length) {
+    return undefined;
+  }
+
+  const [start, end, width] = paint.gradientHandlePositions?.length === 3 ? paint.gradientHandlePositions : DEFAULT_HANDLES;
+  const { width: w, height: h } = box || { width: 1, height: 1 };
+  const stops = (positionAt: (position: number) => number) => paint.gradientStops!
+    .map(stop => `${figmaColorToHex(stop.color, opacity)} ${round(positionAt(stop.position) * 100)}%`)
+    .join(', ');
+
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR': {
+      const angle = handleAngle(start, end, w, h);
+      // CSS stretches the gradient line corner to corner, Figma runs it between the two handles
+      const radians = angle * Math.PI / 180;
+      const [ux, uy] = [Math.sin(radians), -Math.cos(radians)];
+      const length = Math.abs(w * ux) + Math.abs(h * uy);
+      const project = (point: FigmaVector) => ((point.x - 0.5) * w * ux + (point.y - 0.5) * h * uy) / length + 0.5;
+      const [from, to] = [project(start), project(end)];
+      return `linear-gradient(${round(angle)}deg, ${stops(position => from + position * (to - from))})`;
+    }
+    case 'GRADIENT_ANGULAR':
+      return `conic-gradient(from ${round(handleAngle(start, end, w, h))}deg at ${center(start)}, ${stops(position => position)})`;
+    case 'GRADIENT_RADIAL':
+    case 'GRADIENT_DIAMOND': {
+      // CSS has no diamond gradient; a radial one with the same extent is the closest match
+      const radius = (handle: FigmaVector) => box
+        ? `${round(Math.hypot((handle.x - start.x) * w, (handle.y - start.y) * h))}px`
+        : `${round(Math.hypot(handle.x - start.x, handle.y - start.y) * 100)}%`;
+      return `radial-gradient(ellipse ${radius(end)} ${radius(width)} at ${center(start)}, ${stops(position => position)})`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Background sizing that reproduces an image fill's scale mode. STRETCH fills are crops: their
+ * transform says which part of the image is visible, which becomes a background size and position.
+ * Rotated crops can't be expressed and fall back to cover
+ */
+export function imageFillToCss(paint: FigmaFill): Record<string, string> {
+  switch (paint.scaleMode) {
+    case 'FIT':
+      return { 'background-size': 'contain', 'background-position': 'center', 'background-repeat': 'no-repeat' };
+    case 'TILE':
+      return { 'background-repeat': 'repeat', 'background-position': 'left top' };
+    case 'STRETCH': {
+      const [[a, b, tx] = [1, 0, 0], [c, d, ty] = [0, 1, 0]] = paint.imageTransform || [];
+      if (!b && !c && a > 0 && d > 0) {
+        // The node shows image x from tx to tx + a; CSS positions by the fraction of the spare space
+        const offset = (translate: number, scale: number) => (scale < 1 ? `${round(translate / (1 - scale) * 100)}%` : '0%');
+        return {
+          'background-size': `${round(100 / a)}% ${round(100 / d)}%`,
+          'background-position': `${offset(tx, a)} ${offset(ty, d)}`,
+          'background-repeat': 'no-repeat',
+        };
+      }
+      return { 'background-size': 'cover', 'background-position': 'center', 'background-repeat': 'no-repeat' };
+    }
+    default:
+      return { 'background-size': 'cover', 'background-position': 'center', 'background-repeat': 'no-repeat' };
+  }
+}
+
+/**
+ * `background` (and `background-blend-mode`) for a node's fills. Figma lists fills bottom to top
+ * and CSS backgrounds top to bottom, and only the bottom CSS layer may be a plain color
+ */
+export function fillsToCss(paints: FigmaFill[], box?: PaintBox): Record<string, string> {
+  const layers = paints
+    .filter(paint => paint.visible !== false)
+    .flatMap(paint => {
+      const css = paintToCss(paint, box);
+      return css ? [{ css, solid: paint.type === 'SOLID', blend: backgroundBlendModeToCss(paint.blendMode) }] : [];
+    })
+    .reverse();
+  if (layers.length === 0) {
+    return {};
+  }
+
+  const css: Record<string, string> = {
+    background: layers
+      .map((layer, index) => (layer.solid && index < layers.length - 1 ? `linear-gradient(${layer.css}, ${layer.css})` : layer.css))
+      .join(', '),
+  };
+  if (layers.some(layer => layer.blend)) {
+    css['background-blend-mode'] = layers.map(layer => layer.blend || 'normal').join(', ');
+  }
+  return css;
+}
+
+/**
+ * Border for a stroke. INSIDE and CENTER strokes become a border, OUTSIDE strokes an outline, which
+ * doesn't take up layout space. Gradient strokes use border-image. `color` replaces a solid stroke's
+ * color, e.g. with a token reference
+ */
+export function strokeToCss(
+  paint: FigmaFill,
+  options: { weight: number; align?: string; box?: PaintBox; color?: string }
+): Record<string, string> {
+  const weight = px(options.weight);
+  if (paint.type === 'SOLID') {
+    const color = options.color || paintToCss(paint, options.box);
+    if (!color) {
+      return {};
+    }
+    return options.align === 'OUTSIDE' ? { outline: `${weight} solid ${color}` } : { border: `${weight} solid ${color}` };
+  }
+
+  const gradient = paintToCss(paint, options.box);
+  return gradient ? { border: `${weight} solid transparent`, 'border-image': `${gradient} 1` } : {};
+}
+
+/**
+ * One effect as a CSS declaration. Shadows on text become text-shadow, which has no spread or inset.
+ * Figma blur radii are twice the standard deviation CSS blur() takes
+ */
+export function effectToCss(effect: FigmaEffect, options: { text?: boolean } = {}): { property: string; value: string } | undefined {
+  if (effect.visible === false) {
+    return undefined;
+  }
+
+  switch (effect.type) {
+    case 'DROP_SHADOW':
+      return options.text
+        ? { property: 'text-shadow', value: shadowParts(effect, false).join(' ') }
+        : { property: 'box-shadow', value: shadowParts(effect, true).join(' ') };
+    case 'INNER_SHADOW':
+      return options.text ? undefined : { property: 'box-shadow', value: ['inset', ...shadowParts(effect, true)].join(' ') };
+    case 'LAYER_BLUR':
+      return { property: 'filter', value: blurToCss(effect.radius) };
+    case 'BACKGROUND_BLUR':
+      return { property: 'backdrop-filter', value: blurToCss(effect.radius) };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * All of a node's effects, combined per property: shadows comma-separated, filters chained
+ */
+export function effectsToCss(effects: FigmaEffect[], options: { text?: boolean } = {}): Record<string, string> {
+  const css: Record<string, string> = {};
+  for (const effect of effects) {
+    const declaration = effectToCss(effect, options);
+    if (declaration) {
+      const separator = declaration.property.endsWith('shadow') ? ', ' : ' ';
+      css[declaration.property] = css[declaration.property]
+        ? `${css[declaration.property]}${separator}${declaration.value}`
+        : declaration.value;
+    }
+  }
+  return css;
+}
+
+/**
+ * CSS blur() for a Figma blur radius
+ */
+export function blurToCss(radius: number): string {
+  return `blur(${px((radius || 0) / 2)})`;
+}
+
+function shadowParts(effect: FigmaEffect, withSpread: boolean): string[] {
+  return [
+    px(effect.offset?.x || 0),
+    px(effect.offset?.y || 0),
+    px(effect.radius || 0),
+    ...(withSpread ? [px(effect.spread || 0)] : []),
+    figmaColorToRgba(effect.color),
+  ];
+}
+
+/**
+ * Clockwise angle from "up" of the line between two handles, in CSS degrees
+ */
+function handleAngle(from: FigmaVector, to: FigmaVector, width: number, height: number): number {
+  const degrees = Math.atan2((to.x - from.x) * width, -(to.y - from.y) * height) * 180 / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+function center(point: FigmaVector): string {
+  return `${round(point.x * 100)}% ${round(point.y * 100)}%`;
+}
+
+function px(value: number): string {
+  return value === 0 ? '0' : `${round(value)}px`;
+}
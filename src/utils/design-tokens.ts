@@ -0,0 +1,434 @@
+import {
+  FigmaEffect,
+  FigmaFile,
+  FigmaFill,
+  FigmaLocalVariablesResponse,
+  FigmaNode,
+  FigmaStyle,
+  FigmaTypeStyle,
+  FigmaVariable,
+  FigmaVariableAlias,
+} from '../types/figma.js';
+import {
+  DesignToken,
+  DesignTokenTree,
+  DesignTokenType,
+  ResolvedToken,
+  ShadowTokenValue,
+  TypographyTokenValue,
+} from '../types/tokens.js';
+import { figmaColorToHex, round } from './color-utils.js';
+import { blurToCss, paintToCss } from './css-paint.js';
+
+export interface ExtractedTokens {
+  tokens: DesignTokenTree;
+  resolved: ResolvedToken[];
+  unresolved: Array<{ style_id: string; name: string; styleType: string; reason: string }>;
+}
+
+type StyleUsage = { node: FigmaNode; kind: string };
+
+const FIGMA_EXTENSION = 'com.figma';
+
+/**
+ * Resolve every FILL, TEXT, EFFECT and GRID style in a file to a concrete value and emit DTCG tokens.
+ *
+ * Style values come from the first node that applies the style. When local variables are supplied
+ * they become tokens too, and paints bound to a variable are emitted as `{alias}` references.
+ */
+export function extractDesignTokens(
+  file: FigmaFile,
+  variables?: FigmaLocalVariablesResponse['meta']
+): ExtractedTokens {
+  const result: ExtractedTokens = { tokens: {}, resolved: [], unresolved: [] };
+  const variablePaths = new Map<string, string[]>();
+
+  if (variables) {
+    addVariableTokens(result, variables, variablePaths);
+  }
+
+  const usages = findStyleUsages(file.document as unknown as FigmaNode, new Set(Object.keys(file.styles || {})));
+
+  for (const [styleId, style] of Object.entries(file.styles || {})) {
+    const usage = usages.get(styleId);
+    if (!usage) {
+      result.unresolved.push({ style_id: styleId, name: style.name, styleType: style.styleType, reason: 'style is not applied to any node in this file' });
+      continue;
+    }
+
+    const token = resolveStyleToken(style, usage, variablePaths);
+    if ('reason' in token) {
+      result.unresolved.push({ style_id: styleId, name: style.name, styleType: style.styleType, reason: token.reason });
+      continue;
+    }
+
+    const extensions = token.$extensions?.[FIGMA_EXTENSION] as Record<string, unknown> | undefined;
+    token.$extensions = {
+      [FIGMA_EXTENSION]: { ...extensions, styleId, styleKey: style.key, styleType: style.styleType },
+    };
+    if (style.description) {
+      token.$description = style.description;
+    }
+
+    insertToken(result.tokens, toTokenPath(style.name), token);
+  }
+
+  // Flatten last: later insertions can move an earlier token under DEFAULT
+  result.resolved = flattenTokens(result.tokens);
+  return result;
+}
+
+/**
+ * Split a slash-separated Figma name into DTCG-safe group segments
+ */
+export function toTokenPath(name: string): string[] {
+  return name
+    .split('/')
+    .map(segment => segment.trim().replace(/[{}]/g, '').replace(/\./g, '_').replace(/^\$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Flatten a DTCG tree into resolved tokens (aliases resolved to their target values)
+ */
+export function flattenTokens(tree: DesignTokenTree, prefix: string[] = []): ResolvedToken[] {
+  const tokens: ResolvedToken[] = [];
+
+  for (const [name, entry] of Object.entries(tree)) {
+    if (name.startsWith('$')) {
+      continue;
+    }
+    if (isToken(entry)) {
+      const extensions = entry.$extensions?.[FIGMA_EXTENSION] as Record<string, any> | undefined;
+      tokens.push({
+        path: [...prefix, name],
+        type: extensions?.type || entry.$type || 'string',
+        value: entry.$value,
+        alias: parseAlias(entry.$value),
+        description: entry.$description,
+        styleId: extensions?.styleId,
+        styleKey: extensions?.styleKey,
+        variableId: extensions?.variableId,
+        css: extensions?.css,
+      });
+    } else {
+      tokens.push(...flattenTokens(entry, [...prefix, name]));
+    }
+  }
+
+  if (prefix.length === 0) {
+    const byPath = new Map(tokens.map(token => [token.path.join('.'), token]));
+    for (const token of tokens) {
+      if (token.alias) {
+        token.value = resolveAliasValue(token.alias, byPath);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Line height as a multiple of the font size, from the pixel value or, when Figma only sends the
+ * percentage, from that
+ */
+export function lineHeightRatio(style: FigmaTypeStyle): number | undefined {
+  if (style.lineHeightPx && style.fontSize) {
+    return round(style.lineHeightPx / style.fontSize, 3);
+  }
+  return style.lineHeightPercentFontSize ? round(style.lineHeightPercentFontSize / 100, 3) : undefined;
+}
+
+export function isToken(entry: DesignToken | DesignTokenTree): entry is DesignToken {
+  return Object.prototype.hasOwnProperty.call(entry, '$value');
+}
+
+function addVariableTokens(
+  result: ExtractedTokens,
+  variables: FigmaLocalVariablesResponse['meta'],
+  variablePaths: Map<string, string[]>
+): void {
+  const collections = variables.variableCollections || {};
+  const entries = Object.values(variables.variables || {});
+
+  for (const variable of entries) {
+    const collection = collections[variable.variableCollectionId];
+    variablePaths.set(variable.id, toTokenPath(`${collection?.name || 'Variables'}/${variable.name}`));
+  }
+
+  for (const variable of entries) {
+    const collection = collections[variable.variableCollectionId];
+    const modeId = collection?.defaultModeId || Object.keys(variable.valuesByMode)[0];
+    const token: DesignToken = {
+      $type: variableTokenType(variable),
+      $value: variableValue(variable, variable.valuesByMode[modeId], variablePaths),
+    };
+
+    const modes: Record<string, unknown> = {};
+    for (const mode of collection?.modes || []) {
+      if (mode.modeId in variable.valuesByMode) {
+        modes[mode.name] = variableValue(variable, variable.valuesByMode[mode.modeId], variablePaths);
+      }
+    }
+    token.$extensions = { [FIGMA_EXTENSION]: { variableId: variable.id, variableKey: variable.key, modes } };
+    if (variable.description) {
+      token.$description = variable.description;
+    }
+
+    insertToken(result.tokens, variablePaths.get(variable.id) as string[], token);
+  }
+}
+
+function variableTokenType(variable: FigmaVariable): DesignTokenType {
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return 'color';
+    case 'FLOAT':
+      return 'number';
+    case 'BOOLEAN':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+function variableValue(
+  variable: FigmaVariable,
+  value: FigmaVariable['valuesByMode'][string],
+  variablePaths: Map<string, string[]>
+): unknown {
+  if (isVariableAlias(value)) {
+    const target = variablePaths.get(value.id);
+    return target ? `{${target.join('.')}}` : null;
+  }
+  if (variable.resolvedType === 'COLOR' && typeof value === 'object') {
+    return figmaColorToHex(value);
+  }
+  return value;
+}
+
+function isVariableAlias(value: unknown): value is FigmaVariableAlias {
+  return typeof value === 'object' && value !== null && (value as FigmaVariableAlias).type === 'VARIABLE_ALIAS';
+}
+
+/**
+ * Walk the document once, remembering the first node that applies each style
+ */
+function findStyleUsages(root: FigmaNode, styleIds: Set<string>): Map<string, StyleUsage> {
+  const usages = new Map<string, StyleUsage>();
+  const stack: FigmaNode[] = [root];
+
+  while (stack.length > 0 && usages.size < styleIds.size) {
+    const node = stack.pop() as FigmaNode;
+    for (const [kind, styleId] of Object.entries(node.styles || {})) {
+      if (styleIds.has(styleId) && !usages.has(styleId)) {
+        usages.set(styleId, { node, kind });
+      }
+    }
+    if (node.children) {
+      stack.push(...[...node.children].reverse());
+    }
+  }
+
+  return usages;
+}
+
+function resolveStyleToken(
+  style: FigmaStyle,
+  usage: StyleUsage,
+  variablePaths: Map<string, string[]>
+): DesignToken | { reason: string } {
+  const { node, kind } = usage;
+
+  switch (style.styleType) {
+    case 'FILL': {
+      const paints = (kind.startsWith('stroke') ? node.strokes : node.fills) as FigmaFill[] | undefined;
+      return paintToken(paints || [], variablePaths);
+    }
+    case 'TEXT':
+      return node.style ? typographyToken(node) : { reason: 'text node has no type style' };
+    case 'EFFECT':
+      return effectToken(node.effects || []);
+    case 'GRID':
+      if (!node.layoutGrids?.length) {
+        return { reason: 'node has no layout grids' };
+      }
+      return {
+        $value: node.layoutGrids.map(grid => ({
+          pattern: grid.pattern,
+          sectionSize: `${grid.sectionSize}px`,
+          gutterSize: grid.gutterSize !== undefined ? `${grid.gutterSize}px` : undefined,
+          count: grid.count,
+          alignment: grid.alignment,
+          offset: grid.offset !== undefined ? `${grid.offset}px` : undefined,
+        })),
+        // DTCG has no grid type, so the kind is recorded as a Figma extension
+        $extensions: { [FIGMA_EXTENSION]: { type: 'grid' } },
+      };
+    default:
+      return { reason: `unsupported style type ${style.styleType}` };
+  }
+}
+
+function paintToken(paints: FigmaFill[], variablePaths: Map<string, string[]>): DesignToken | { reason: string } {
+  const visible = paints.filter(paint => paint.visible !== false);
+  const paint = visible[visible.length - 1];
+  if (!paint) {
+    return { reason: 'style has no visible paint' };
+  }
+
+  const extensions: Record<string, unknown> = {};
+  if (visible.length > 1) {
+    extensions.layers = visible.length;
+  }
+  if (paint.blendMode && paint.blendMode !== 'NORMAL' && paint.blendMode !== 'PASS_THROUGH') {
+    extensions.blendMode = paint.blendMode;
+  }
+
+  if (paint.type === 'SOLID' && paint.color) {
+    const bound = paint.boundVariables?.color;
+    const aliasPath = bound ? variablePaths.get(bound.id) : undefined;
+    return {
+      $type: 'color',
+      $value: aliasPath ? `{${aliasPath.join('.')}}` : figmaColorToHex(paint.color, paint.opacity ?? 1),
+      ...(Object.keys(extensions).length ? { $extensions: { [FIGMA_EXTENSION]: extensions } } : {}),
+    };
+  }
+
+  if (paint.type.startsWith('GRADIENT_') && paint.gradientStops) {
+    return {
+      $type: 'gradient',
+      $value: paint.gradientStops.map(stop => ({
+        color: figmaColorToHex(stop.color, paint.opacity ?? 1),
+        position: round(stop.position, 4),
+      })),
+      $extensions: {
+        [FIGMA_EXTENSION]: {
+          ...extensions,
+          gradientType: paint.type,
+          gradientHandlePositions: paint.gradientHandlePositions,
+          css: paintToCss(paint),
+        },
+      },
+    };
+  }
+
+  return { reason: `${paint.type.toLowerCase()} paints have no token representation` };
+}
+
+function typographyToken(node: FigmaNode): DesignToken {
+  const style = node.style!;
+  const lineHeight = lineHeightRatio(style);
+  const value: TypographyTokenValue = {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: `${round(style.fontSize)}px`,
+    ...(lineHeight !== undefined ? { lineHeight } : {}),
+    letterSpacing: `${round(style.letterSpacing || 0)}px`,
+  };
+
+  const extensions: Record<string, unknown> = {};
+  if (style.italic) {
+    extensions.italic = true;
+  }
+  if (style.textCase && style.textCase !== 'ORIGINAL') {
+    extensions.textCase = style.textCase;
+  }
+  if (style.textDecoration && style.textDecoration !== 'NONE') {
+    extensions.textDecoration = style.textDecoration;
+  }
+
+  return {
+    $type: 'typography',
+    $value: value,
+    ...(Object.keys(extensions).length ? { $extensions: { [FIGMA_EXTENSION]: extensions } } : {}),
+  };
+}
+
+function effectToken(effects: FigmaEffect[]): DesignToken | { reason: string } {
+  const visible = effects.filter(effect => effect.visible !== false);
+  const shadows = visible.filter(effect => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW');
+
+  if (shadows.length > 0) {
+    const values: ShadowTokenValue[] = shadows.map(shadow => ({
+      color: figmaColorToHex(shadow.color),
+      offsetX: `${round(shadow.offset?.x || 0)}px`,
+      offsetY: `${round(shadow.offset?.y || 0)}px`,
+      blur: `${round(shadow.radius || 0)}px`,
+      spread: `${round(shadow.spread || 0)}px`,
+      ...(shadow.type === 'INNER_SHADOW' ? { inset: true } : {}),
+    }));
+    return { $type: 'shadow', $value: values.length === 1 ? values[0] : values };
+  }
+
+  const blur = visible.find(effect => effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR');
+  if (blur) {
+    return {
+      $type: 'dimension',
+      $value: `${round(blur.radius)}px`,
+      $extensions: { [FIGMA_EXTENSION]: { type: 'blur', effectType: blur.type, css: blurToCss(blur.radius) } },
+    };
+  }
+
+  return { reason: 'style has no visible effects' };
+}
+
+/**
+ * Insert a token at a path, keeping DTCG's rule that a name is either a token or a group.
+ * Returns the path actually used.
+ */
+function insertToken(tree: DesignTokenTree, tokenPath: string[], token: DesignToken): string[] {
+  const segments = tokenPath.length ? [...tokenPath] : ['unnamed'];
+  let group = tree;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    let next = group[segments[i]];
+    if (next && isToken(next)) {
+      // A token already sits where a group is needed; move it under DEFAULT
+      group[segments[i]] = { DEFAULT: next };
+      next = group[segments[i]];
+    }
+    if (!next) {
+      next = {};
+      group[segments[i]] = next;
+    }
+    group = next as DesignTokenTree;
+  }
+
+  let leaf = segments[segments.length - 1];
+  const existing = group[leaf];
+  if (existing && !isToken(existing)) {
+    group = existing;
+    segments.push('DEFAULT');
+    leaf = 'DEFAULT';
+  }
+
+  let unique = leaf;
+  for (let n = 2; group[unique]; n++) {
+    unique = `${leaf}-${n}`;
+  }
+  group[unique] = token;
+  segments[segments.length - 1] = unique;
+
+  return segments;
+}
+
+function parseAlias(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    const match = value.match(/^\{([^}]+)\}$/);
+    if (match) {
+      return match[1].split('.');
+    }
+  }
+  return undefined;
+}
+
+function resolveAliasValue(alias: string[], byPath: Map<string, ResolvedToken>, seen = new Set<string>()): unknown {
+  const key = alias.join('.');
+  const target = byPath.get(key) || byPath.get(`${key}.DEFAULT`);
+  if (!target || seen.has(key)) {
+    return null;
+  }
+  seen.add(key);
+  return target.alias ? resolveAliasValue(target.alias, byPath, seen) : target.value;
+}
@@ -0,0 +1,242 @@
+import { FigmaDocument, FigmaNode } from '../types/figma.js';
+
+export type SummaryDetail = 'outline' | 'layout' | 'full';
+
+export interface SummarizeOptions {
+  detail?: SummaryDetail;
+  maxDepth?: number;
+  nodeTypes?: string[];
+  properties?: string[];
+  includeHidden?: boolean;
+  collapseInstances?: boolean;
+  tokenBudget?: number;
+}
+
+export interface SummarizedNode {
+  id: string;
+  name: string;
+  type: string;
+  [property: string]: unknown;
+  children?: SummarizedNode[];
+}
+
+export interface DocumentSummary {
+  document: SummarizedNode;
+  stats: {
+    detail: SummaryDetail;
+    effective_max_depth: number | null;
+    estimated_tokens: number;
+    token_budget: number | null;
+    truncated: boolean;
+    nodes_included: number;
+    hidden_dropped: number;
+    instances_collapsed: number;
+  };
+}
+
+// Properties that only carry vector geometry and blow up output size
+const GEOMETRY_PROPERTIES = new Set([
+  'fillGeometry',
+  'strokeGeometry',
+  'vectorNetwork',
+  'vectorPaths',
+  'relativeTransform',
+  'size',
+]);
+
+// Properties handled structurally rather than copied verbatim
+const STRUCTURAL_PROPERTIES = new Set(['id', 'name', 'type', 'children', 'visible']);
+
+const LAYOUT_PROPERTIES = [
+  'layoutMode',
+  'primaryAxisAlignItems',
+  'counterAxisAlignItems',
+  'layoutWrap',
+  'itemSpacing',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'layoutAlign',
+  'layoutGrow',
+  'layoutPositioning',
+  'layoutSizingHorizontal',
+  'layoutSizingVertical',
+  'constraints',
+  'cornerRadius',
+  'componentId',
+  'characters',
+  'styles',
+];
+
+interface WalkState {
+  nodes: number;
+  hidden: number;
+  collapsed: number;
+  cutOff: boolean;
+}
+
+/**
+ * Summarize a Figma document into an LLM-sized tree.
+ *
+ * Invisible layers and vector geometry are dropped, repeated sibling instances are collapsed,
+ * and when a token budget is set the depth is reduced until the estimate fits.
+ */
+export function summarizeDocument(document: FigmaDocument | FigmaNode, options: SummarizeOptions = {}): DocumentSummary {
+  const detail = options.detail || 'layout';
+  const budget = options.tokenBudget;
+  let maxDepth = options.maxDepth;
+
+  for (;;) {
+    const state: WalkState = { nodes: 0, hidden: 0, collapsed: 0, cutOff: false };
+    const summary = summarizeNode(document as FigmaNode, 0, { ...options, detail, maxDepth }, state)[0] ?? {
+      id: document.id,
+      name: document.name,
+      type: document.type,
+    };
+    const tokens = estimateTokens(summary);
+
+    const overBudget = budget !== undefined && tokens > budget;
+    const deepest = maxDepth ?? measureDepth(summary);
+    if (overBudget && deepest > 1) {
+      maxDepth = deepest - 1;
+      continue;
+    }
+
+    return {
+      document: summary,
+      stats: {
+        detail,
+        effective_max_depth: maxDepth ?? null,
+        estimated_tokens: tokens,
+        token_budget: budget ?? null,
+        truncated: state.cutOff || overBudget,
+        nodes_included: state.nodes,
+        hidden_dropped: state.hidden,
+        instances_collapsed: state.collapsed,
+      },
+    };
+  }
+}
+
+/**
+ * Rough token estimate for JSON output (about four characters per token)
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/**
+ * Returns the summarized node, or its promoted children when its type is filtered out
+ */
+function summarizeNode(node: FigmaNode, depth: number, options: SummarizeOptions, state: WalkState): SummarizedNode[] {
+  const raw = node as FigmaNode & Record<string, any>;
+  if (raw.visible === false && !options.includeHidden) {
+    state.hidden++;
+    return [];
+  }
+
+  const children = node.children || [];
+  const atDepthLimit = options.maxDepth !== undefined && depth >= options.maxDepth;
+  let summarizedChildren: SummarizedNode[] = [];
+
+  if (!atDepthLimit) {
+    summarizedChildren = children.flatMap(child => summarizeNode(child, depth + 1, options, state));
+    if (options.collapseInstances !== false) {
+      summarizedChildren = collapseRepeatedInstances(summarizedChildren, state);
+    }
+  } else if (children.length > 0) {
+    state.cutOff = true;
+  }
+
+  // Documents and pages are always kept so filtered results stay grouped by page
+  const keep = !options.nodeTypes?.length
+    || options.nodeTypes.includes(node.type)
+    || node.type === 'DOCUMENT'
+    || node.type === 'CANVAS';
+  if (!keep) {
+    return summarizedChildren;
+  }
+
+  state.nodes++;
+  const summary: SummarizedNode = { id: node.id, name: node.name, type: node.type };
+  Object.assign(summary, pickProperties(raw, options));
+
+  if (summarizedChildren.length > 0) {
+    summary.children = summarizedChildren;
+  } else if (atDepthLimit && children.length > 0) {
+    summary.child_count = children.length;
+  }
+
+  return [summary];
+}
+
+function pickProperties(raw: Record<string, any>, options: SummarizeOptions): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+
+  if (options.detail === 'full') {
+    for (const [key, value] of Object.entries(raw)) {
+      if (!STRUCTURAL_PROPERTIES.has(key) && !GEOMETRY_PROPERTIES.has(key)) {
+        picked[key] = value;
+      }
+    }
+  } else if (options.detail === 'layout') {
+    if (raw.absoluteBoundingBox) {
+      const { x, y, width, height } = raw.absoluteBoundingBox;
+      picked.bounds = { x, y, width, height };
+    }
+    for (const key of LAYOUT_PROPERTIES) {
+      if (raw[key] !== undefined) {
+        picked[key] = raw[key];
+      }
+    }
+  }
+
+  for (const key of options.properties || []) {
+    if (raw[key] !== undefined && !STRUCTURAL_PROPERTIES.has(key)) {
+      picked[key] = raw[key];
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Merge runs of sibling instances of the same component into one node with a repeat count
+ */
+function collapseRepeatedInstances(nodes: SummarizedNode[], state: WalkState): SummarizedNode[] {
+  const result: SummarizedNode[] = [];
+
+  for (const node of nodes) {
+    const previous = result[result.length - 1];
+    const sameInstance = previous
+      && node.type === 'INSTANCE'
+      && previous.type === 'INSTANCE'
+      && node.componentId !== undefined
+      && previous.componentId === node.componentId;
+    // Without componentId (outline detail) fall back to matching instance names
+    const sameName = previous
+      && node.type === 'INSTANCE'
+      && previous.type === 'INSTANCE'
+      && node.componentId === undefined
+      && previous.name === node.name;
+
+    if (sameInstance || sameName) {
+      const ids = (previous.repeated_ids as string[] | undefined) || [previous.id];
+      previous.repeated_ids = [...ids, node.id];
+      previous.repeat = ids.length + 1;
+      state.collapsed++;
+      continue;
+    }
+    result.push(node);
+  }
+
+  return result;
+}
+
+function measureDepth(node: SummarizedNode): number {
+  if (!node.children?.length) {
+    return 0;
+  }
+  return 1 + Math.max(...node.children.map(measureDepth));
+}
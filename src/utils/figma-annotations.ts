@@ -0,0 +1,68 @@
+import { FigmaLink } from '../types/figma.js';
+import { extractFigmaIds } from './figma-url-parser.js';
+
+export interface FigmaAnnotation extends FigmaLink {
+  // Component the annotation names: the figma.connect() target or the declaration after a doc comment
+  component?: string;
+}
+
+// A Figma URL inside source text, stopping at whitespace, quotes, brackets and comment ends
+const URL_PATTERN = String.raw`https:\/\/(?:www\.)?figma\.com\/[^\s'"\`)<>]+?(?=\*\/|[\s'"\`)<>]|$)`;
+
+// `@figma https://...` in a JSDoc, line or HTML comment
+const TAG_REGEX = new RegExp(String.raw`@figma\s+(${URL_PATTERN})`, 'g');
+
+// figma.connect(Button, 'https://...') or figma.connect('https://...', {...}) for non-React files
+const CONNECT_REGEX = new RegExp(String.raw`figma\.connect\(\s*(?:([A-Za-z_$][\w$.]*)\s*,\s*)?(['"\`])(${URL_PATTERN})\2`, 'g');
+
+// The first declaration after a doc comment names the component it documents
+const DECLARATION_REGEX = /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:const|let|var|function|class)\s+([A-Za-z_$][\w$]*)/;
+
+/**
+ * Find Code Connect-style links from source to Figma nodes: `@figma <url>` tags and figma.connect() calls
+ */
+export function extractFigmaAnnotations(content: string): FigmaAnnotation[] {
+  const annotations: FigmaAnnotation[] = [];
+
+  for (const match of content.matchAll(TAG_REGEX)) {
+    const index = match.index ?? 0;
+    const annotation = toAnnotation(match[1], 'jsdoc', lineAt(content, index));
+    const component = declarationAfterComment(content, index);
+    annotations.push(component ? { ...annotation, component } : annotation);
+  }
+
+  for (const match of content.matchAll(CONNECT_REGEX)) {
+    const annotation = toAnnotation(match[3], 'connect', lineAt(content, match.index ?? 0));
+    // `figma.connect(Button, ...)`, or `figma.connect(Ui.Button, ...)` for namespaced imports
+    const component = match[1]?.split('.').pop();
+    annotations.push(component ? { ...annotation, component } : annotation);
+  }
+
+  return annotations;
+}
+
+function toAnnotation(url: string, source: FigmaLink['source'], line: number): FigmaAnnotation {
+  const ids = extractFigmaIds(url);
+  return {
+    url,
+    source,
+    line,
+    ...(ids.fileKey ? { file_key: ids.fileKey } : {}),
+    ...(ids.nodeIds?.[0] ? { node_id: ids.nodeIds[0] } : {}),
+  };
+}
+
+function declarationAfterComment(content: string, index: number): string | undefined {
+  const before = content.slice(0, index);
+  const inBlockComment = before.lastIndexOf('/*') > before.lastIndexOf('*/');
+  // Block comments end at `*/`; line and HTML comments document whatever follows the line
+  const end = inBlockComment ? content.indexOf('*/', index) + 2 : content.indexOf('\n', index) + 1;
+  if (end <= 0) {
+    return undefined;
+  }
+  return DECLARATION_REGEX.exec(content.slice(end, end + 300))?.[1];
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export interface FigmaCacheOptions {
+  directory: string;
+  enabled?: boolean;
+  freshnessTtlMs?: number;
+}
+
+export interface FigmaCacheStats {
+  enabled: boolean;
+  directory: string;
+  hits: number;
+  misses: number;
+  freshness_checks: number;
+  merged_in_flight: number;
+  entries: number;
+  size_bytes: number;
+  files: Record<string, { entries: number; size_bytes: number }>;
+}
+
+interface CacheEntry {
+  endpoint: string;
+  version: string;
+  lastModified: string;
+  cachedAt: string;
+  data: unknown;
+}
+
+interface FileVersion {
+  version: string;
+  lastModified: string;
+}
+
+// File-scoped endpoints whose payload only changes when the file version does
+const CACHEABLE_ENDPOINT = /^\/files\/([^/?]+)(?:\/(?:components|component_sets|styles|nodes|variables\/local))?(?:\?(.*))?$/;
+
+/**
+ * Persistent, version-keyed cache for Figma file responses.
+ *
+ * Entries are keyed by file key, endpoint and the file's version/lastModified, which is
+ * looked up with a cheap `depth=1` request before serving a cached body. Identical
+ * requests that are already in flight share a single promise.
+ */
+export class FigmaCache {
+  private directory: string;
+  private enabled: boolean;
+  private freshnessTtlMs: number;
+  private inFlight = new Map<string, Promise<any>>();
+  private versions = new Map<string, { value: FileVersion; checkedAt: number }>();
+  private counters = { hits: 0, misses: 0, freshness_checks: 0, merged_in_flight: 0 };
+
+  constructor(options: FigmaCacheOptions) {
+    this.directory = options.directory;
+    this.enabled = options.enabled ?? true;
+    this.freshnessTtlMs = options.freshnessTtlMs ?? 30000;
+  }
+
+  /**
+   * Resolve an endpoint through the cache, calling `fetcher` on a miss
+   */
+  async get<T = any>(endpoint: string, fetcher: (endpoint: string) => Promise<T>): Promise<T> {
+    return this.merge(endpoint, () => this.resolve(endpoint, fetcher));
+  }
+
+  /**
+   * Remove cached entries for one file, or everything when no key is given
+   */
+  clear(fileKey?: string): { removed_entries: number; removed_bytes: number } {
+    const before = this.stats();
+    const target = fileKey ? path.join(this.directory, this.safeSegment(fileKey)) : this.directory;
+
+    if (fs.existsSync(target)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+
+    if (fileKey) {
+      this.versions.delete(fileKey);
+    } else {
+      this.versions.clear();
+    }
+
+    const removed = fileKey
+      ? before.files[this.safeSegment(fileKey)] || { entries: 0, size_bytes: 0 }
+      : { entries: before.entries, size_bytes: before.size_bytes };
+
+    return { removed_entries: removed.entries, removed_bytes: removed.size_bytes };
+  }
+
+  /**
+   * Make the next request for a file check its version again instead of trusting the last check,
+   * for when an edit was seen some other way
+   */
+  expireVersion(fileKey: string): void {
+    this.versions.delete(fileKey);
+  }
+
+  stats(): FigmaCacheStats {
+    const files: FigmaCacheStats['files'] = {};
+    let entries = 0;
+    let sizeBytes = 0;
+
+    if (fs.existsSync(this.directory)) {
+      for (const fileDir of fs.readdirSync(this.directory)) {
+        const dirPath = path.join(this.directory, fileDir);
+        if (!fs.statSync(dirPath).isDirectory()) {
+          continue;
+        }
+
+        const fileStats = { entries: 0, size_bytes: 0 };
+        for (const entry of fs.readdirSync(dirPath)) {
+          if (!entry.endsWith('.json')) {
+            continue;
+          }
+          fileStats.entries++;
+          fileStats.size_bytes += fs.statSync(path.join(dirPath, entry)).size;
+        }
+
+        files[fileDir] = fileStats;
+        entries += fileStats.entries;
+        sizeBytes += fileStats.size_bytes;
+      }
+    }
+
+    return {
+      enabled: this.enabled,
+      directory: this.directory,
+      ...this.counters,
+      entries,
+      size_bytes: sizeBytes,
+      files,
+    };
+  }
+
+  private async resolve<T>(endpoint: string, fetcher: (endpoint: string) => Promise<T>): Promise<T> {
+    const match = this.enabled ? endpoint.match(CACHEABLE_ENDPOINT) : null;
+    if (!match || this.isMetadataRequest(match[2])) {
+      return fetcher(endpoint);
+    }
+
+    const fileKey = match[1];
+    const pinnedVersion = new URLSearchParams(match[2] || '').get('version');
+    const version: FileVersion = pinnedVersion
+      ? { version: pinnedVersion, lastModified: 'pinned' }
+      : await this.currentVersion(fileKey, fetcher);
+
+    const entryPath = this.entryPath(fileKey, endpoint, version);
+    const cached = this.read(entryPath);
+    if (cached) {
+      this.counters.hits++;
+      return cached.data as T;
+    }
+
+    this.counters.misses++;
+    const data = await fetcher(endpoint);
+    this.write(fileKey, endpoint, entryPath, version, data);
+    return data;
+  }
+
+  private async currentVersion(fileKey: string, fetcher: (endpoint: string) => Promise<any>): Promise<FileVersion> {
+    const known = this.versions.get(fileKey);
+    if (known && Date.now() - known.checkedAt < this.freshnessTtlMs) {
+      return known.value;
+    }
+
+    const metadataEndpoint = `/files/${fileKey}?depth=1`;
+    const value = await this.merge(metadataEndpoint, async () => {
+      this.counters.freshness_checks++;
+      const metadata = await fetcher(metadataEndpoint);
+      return { version: String(metadata.version), lastModified: String(metadata.lastModified) };
+    });
+
+    this.versions.set(fileKey, { value, checkedAt: Date.now() });
+    return value;
+  }
+
+  private merge<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.merged_in_flight++;
+      return pending;
+    }
+
+    const promise = run().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private isMetadataRequest(query: string | undefined): boolean {
+    return new URLSearchParams(query || '').get('depth') === '1';
+  }
+
+  private entryPath(fileKey: string, endpoint: string, version: FileVersion): string {
+    const versionHash = hash(`${version.version}|${version.lastModified}`).slice(0, 12);
+    return path.join(this.directory, this.safeSegment(fileKey), `${this.endpointId(endpoint)}-${versionHash}.json`);
+  }
+
+  private endpointId(endpoint: string): string {
+    return hash(endpoint).slice(0, 16);
+  }
+
+  private read(entryPath: string): CacheEntry | null {
+    try {
+      if (fs.existsSync(entryPath)) {
+        return JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+      }
+    } catch (error) {
+      // Corrupt entry; fall through and refetch
+    }
+    return null;
+  }
+
+  private write(fileKey: string, endpoint: string, entryPath: string, version: FileVersion, data: unknown): void {
+    const entry: CacheEntry = {
+      endpoint,
+      version: version.version,
+      lastModified: version.lastModified,
+      cachedAt: new Date().toISOString(),
+      data,
+    };
+
+    try {
+      const dir = path.dirname(entryPath);
+      fs.mkdirSync(dir, { recursive: true });
+
+      // Drop entries for older versions of the same endpoint
+      const prefix = `${this.endpointId(endpoint)}-`;
+      for (const existing of fs.readdirSync(dir)) {
+        if (existing.startsWith(prefix) && path.join(dir, existing) !== entryPath) {
+          fs.rmSync(path.join(dir, existing), { force: true });
+        }
+      }
+
+      fs.writeFileSync(entryPath, JSON.stringify(entry));
+    } catch (error) {
+      // Caching is best-effort; a read-only disk shouldn't fail the tool call
+      console.error(`Failed to write Figma cache entry for ${fileKey}: ${error}`);
+    }
+  }
+
+  private safeSegment(value: string): string {
+    return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex');
+}
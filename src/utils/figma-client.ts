@@ -0,0 +1,340 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { FixtureStore } from './fixture-store.js';
+
+export interface FigmaClientOptions {
+  token?: string;
+  baseUrl: string;
+  maxRetries?: number;
+  timeoutMs?: number;
+  maxConcurrent?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  fixtures?: FixtureStore;
+}
+
+/**
+ * MCP error raised for a failed Figma API call, carrying the HTTP status and a hint
+ */
+export class FigmaApiError extends McpError {
+  readonly status: number;
+  readonly hint: string;
+
+  constructor(code: ErrorCode, status: number, message: string, hint: string) {
+    super(code, `${message}. Hint: ${hint}`, { status, hint });
+    this.name = 'FigmaApiError';
+    this.status = status;
+    this.hint = hint;
+  }
+}
+
+// Statuses worth retrying: rate limits and transient server errors
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// A downloaded file, such as a rendered image
+export interface FigmaDownload {
+  data: Buffer;
+  contentType?: string;
+}
+
+// How downloads are stored as JSON fixtures
+interface DownloadFixture {
+  contentType?: string;
+  base64: string;
+}
+
+/**
+ * Figma REST client with retries, Retry-After handling, timeouts and a concurrency limit
+ */
+export class FigmaClient {
+  private token: string | undefined;
+  private baseUrl: string;
+  private maxRetries: number;
+  private timeoutMs: number;
+  private maxConcurrent: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private fixtures: FixtureStore | undefined;
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(options: FigmaClientOptions) {
+    this.token = options.token;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    // A NaN limit would make every request hang in the queue or time out at once
+    this.maxRetries = Math.max(0, finiteOr(options.maxRetries, 3));
+    this.timeoutMs = Math.max(1, finiteOr(options.timeoutMs, 30000));
+    this.maxConcurrent = Math.max(1, finiteOr(options.maxConcurrent, 4));
+    this.baseDelayMs = Math.max(0, finiteOr(options.baseDelayMs, 500));
+    this.maxDelayMs = Math.max(0, finiteOr(options.maxDelayMs, 30000));
+    this.fixtures = options.fixtures;
+  }
+
+  /**
+   * GET a Figma API endpoint (e.g. `/files/KEY`) and return the parsed JSON body
+   */
+  async get<T = any>(endpoint: string): Promise<T> {
+    if (this.fixtures?.mode === 'replay') {
+      return this.replay<T>(endpoint);
+    }
+
+    if (!this.token) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Figma access token not provided. Set FIGMA_ACCESS_TOKEN environment variable.'
+      );
+    }
+
+    await this.acquire();
+    let data: T;
+    try {
+      data = await this.requestWithRetries(`${this.baseUrl}${endpoint}`, endpoint, {
+        'X-Figma-Token': this.token,
+        'Content-Type': 'application/json',
+      }, (response) => this.readJson<T>(endpoint, response));
+    } finally {
+      this.release();
+    }
+
+    if (this.fixtures?.mode === 'record' && this.fixtures.handles(endpoint)) {
+      this.fixtures.save(endpoint, data);
+    }
+    return data;
+  }
+
+  /**
+   * Download a file Figma links to, such as the temporary S3 URL of an image render.
+   * Shares the retries, timeout and concurrency limit of API calls, and is recorded and
+   * replayed with the other fixtures
+   */
+  async download(url: string): Promise<FigmaDownload> {
+    const fixtureKey = `/download/${url}`;
+    if (this.fixtures?.mode === 'replay') {
+      const fixture = this.replay<DownloadFixture>(fixtureKey);
+      return { data: Buffer.from(fixture.base64, 'base64'), contentType: fixture.contentType };
+    }
+
+    await this.acquire();
+    let download: FigmaDownload;
+    try {
+      // Signed storage URLs carry their own credentials; the Figma token isn't sent along
+      download = await this.requestWithRetries(url, url.split('?')[0], {}, async (response) => ({
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || undefined,
+      }));
+    } finally {
+      this.release();
+    }
+
+    if (this.fixtures?.mode === 'record') {
+      this.fixtures.save(fixtureKey, { contentType: download.contentType, base64: download.data.toString('base64') });
+    }
+    return download;
+  }
+
+  private replay<T>(endpoint: string): T {
+    const fixture = this.fixtures?.load(endpoint);
+    if (!fixture) {
+      throw new FigmaApiError(
+        ErrorCode.InvalidRequest,
+        404,
+        `No recorded fixture for GET ${endpoint}`,
+        'run once with FIGMA_FIXTURE_MODE=record and a valid token to capture it'
+      );
+    }
+    return fixture.data as T;
+  }
+
+  private async readJson<T>(endpoint: string, response: Response): Promise<T> {
+    const text = await response.text();
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new FigmaApiError(
+        ErrorCode.InternalError,
+        response.status,
+        `Figma API returned a body that is not JSON for GET ${endpoint}: ${error instanceof Error ? error.message : error}`,
+        'unexpected response from the Figma API; try again shortly'
+      );
+    }
+  }
+
+  /**
+   * Fetch a URL and read its body with `read` until it succeeds, retrying network errors and
+   * retryable statuses. `endpoint` names the request in errors
+   */
+  private async requestWithRetries<T>(
+    url: string,
+    endpoint: string,
+    headers: Record<string, string>,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let result: { response: Response; body?: T; detail?: string };
+      try {
+        result = await this.fetchWithTimeout(url, headers, read);
+      } catch (error) {
+        // A body that arrived but can't be parsed won't parse any better on a retry
+        if (error instanceof FigmaApiError) {
+          throw error;
+        }
+        if (attempt < this.maxRetries) {
+          await sleep(this.backoffDelay(attempt));
+          continue;
+        }
+        throw this.networkError(endpoint, error);
+      }
+
+      const { response, body, detail } = result;
+      if (response.ok) {
+        return body as T;
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && attempt < this.maxRetries) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        await sleep(retryAfter !== undefined ? Math.min(retryAfter, this.maxDelayMs) : this.backoffDelay(attempt));
+        continue;
+      }
+
+      throw this.apiError(endpoint, response, attempt, detail || '');
+    }
+  }
+
+  private async fetchWithTimeout<T>(
+    url: string,
+    headers: Record<string, string>,
+    read: (response: Response) => Promise<T>
+  ): Promise<{ response: Response; body?: T; detail?: string }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        headers,
+        signal: controller.signal,
+      });
+      // The timeout runs until the body is read, so a stalled body can't hang a tool call
+      return response.ok
+        ? { response, body: await read(response) }
+        : { response, detail: await this.errorDetail(response) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private networkError(endpoint: string, error: unknown): McpError {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new FigmaApiError(
+        ErrorCode.RequestTimeout,
+        0,
+        `Figma API request timed out after ${this.timeoutMs}ms: GET ${endpoint}`,
+        'the file may be very large; request a subtree or lower depth'
+      );
+    }
+    return new FigmaApiError(
+      ErrorCode.InternalError,
+      0,
+      `Figma API request failed: GET ${endpoint}: ${error}`,
+      'check network connectivity to the Figma API'
+    );
+  }
+
+  private async errorDetail(response: Response): Promise<string> {
+    try {
+      const body: any = await response.json();
+      return body?.err || body?.message || '';
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error;
+      }
+      // Body isn't JSON; the status line is all we have
+      return '';
+    }
+  }
+
+  private apiError(endpoint: string, response: Response, attempt: number, detail: string): FigmaApiError {
+    const status = response.status;
+    const message = `Figma API error: ${status} ${response.statusText}${detail ? ` (${detail})` : ''} for GET ${endpoint}`;
+
+    switch (true) {
+      // Downloads are named by URL rather than API path
+      case !endpoint.startsWith('/') && (status === 403 || status === 404):
+        return new FigmaApiError(ErrorCode.InvalidRequest, status, message,
+          'the download URL has expired; request the export again');
+      case status === 400:
+        return new FigmaApiError(ErrorCode.InvalidParams, status, message,
+          'check node IDs, version IDs and query parameters');
+      case status === 401:
+        return new FigmaApiError(ErrorCode.InvalidRequest, status, message,
+          'FIGMA_ACCESS_TOKEN is invalid or expired');
+      case status === 403:
+        return new FigmaApiError(ErrorCode.InvalidRequest, status, message,
+          'token lacks file_read scope or has no access to this file');
+      case status === 404:
+        return new FigmaApiError(ErrorCode.InvalidParams, status, message,
+          'file key not found, or the file is not shared with this token');
+      case status === 429:
+        return new FigmaApiError(ErrorCode.InternalError, status, message,
+          `rate limited by Figma after ${attempt + 1} attempts; wait a minute or reduce parallel tool calls`);
+      case status >= 500:
+        return new FigmaApiError(ErrorCode.InternalError, status, message,
+          'Figma service error; try again shortly');
+      default:
+        return new FigmaApiError(ErrorCode.InternalError, status, message,
+          'unexpected response from the Figma API');
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function finiteOr(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -37,7 +37,7 @@ export function parseNodeIds(input: string): string[] {
     const match = input.match(FIGMA_URL_PATTERNS.file);
     if (match && match[2]) {
       // Convert node-id format (1-2) to API format (1:2)
-      return match[2].split('%2C').map(id => id.replace(/-/g, ':'));
+      return match[2].split(/%2C|,/i).map(id => decodeURIComponent(id).replace(/-/g, ':'));
     }
     return [];
   }
@@ -0,0 +1,200 @@
+import { FigmaApiError } from './figma-client.js';
+
+export interface FigmaWatcherOptions {
+  // Files polled directly with a `depth=1` request
+  fileKeys: string[];
+  // Projects whose files are polled with one request per project
+  projectIds: string[];
+  intervalMs: number;
+  // Upper bound for the delay after repeated failures
+  maxBackoffMs: number;
+  // Uncached request to the Figma API
+  fetch: (endpoint: string) => Promise<any>;
+  onChange: (change: FigmaFileChange) => Promise<void> | void;
+  onError?: (error: unknown) => void;
+}
+
+export interface WatchedFile {
+  file_key: string;
+  name?: string;
+  // Project the file was found in, when it is watched through a project URL
+  project_id?: string;
+  version?: string;
+  last_modified?: string;
+  last_checked?: string;
+}
+
+export interface FigmaFileChange {
+  file_key: string;
+  name?: string;
+  project_id?: string;
+  // Only known for files polled directly; the project listing has no versions
+  previous_version?: string;
+  version?: string;
+  previous_last_modified?: string;
+  last_modified?: string;
+  detected_at: string;
+}
+
+export interface FigmaWatcherStatus {
+  running: boolean;
+  interval_seconds: number;
+  consecutive_failures: number;
+  next_poll_at?: string;
+  last_error?: string;
+}
+
+/**
+ * Polls Figma for edits to a set of files and projects.
+ *
+ * The first poll records a baseline; later polls report every file whose version or
+ * lastModified moved. Polls are chained with setTimeout so a slow poll never overlaps the next
+ * one, and failures double the delay up to `maxBackoffMs` to stay clear of rate limits.
+ */
+export class FigmaWatcher {
+  private options: FigmaWatcherOptions;
+  private files = new Map<string, WatchedFile>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private failures = 0;
+  private nextPollAt?: number;
+  private lastError?: string;
+
+  constructor(options: FigmaWatcherOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Take the baseline right away, then keep polling until stopped
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.nextPollAt = undefined;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check every watched file once and report the ones that changed since the previous poll.
+   * Nothing is recorded unless every request succeeds, so a failed poll leaves its changes to the
+   * next one. Change handlers run one at a time, and their failures go to `onError` without failing
+   * the poll
+   */
+  async pollOnce(): Promise<FigmaFileChange[]> {
+    const observed = new Map<string, WatchedFile>();
+    const checkedAt = new Date().toISOString();
+
+    for (const projectId of this.options.projectIds) {
+      const data = await this.options.fetch(`/projects/${projectId}/files`);
+      for (const file of data.files || []) {
+        // Files that are also watched directly get their version from that poll instead
+        if (this.options.fileKeys.includes(file.key)) {
+          continue;
+        }
+        observed.set(file.key, { file_key: file.key, name: file.name, project_id: projectId, last_modified: file.last_modified, last_checked: checkedAt });
+      }
+    }
+
+    for (const fileKey of this.options.fileKeys) {
+      const data = await this.options.fetch(`/files/${fileKey}?depth=1`);
+      observed.set(fileKey, { file_key: fileKey, name: data.name, version: String(data.version), last_modified: data.lastModified, last_checked: checkedAt });
+    }
+
+    const changes: FigmaFileChange[] = [];
+    for (const current of observed.values()) {
+      const change = this.compare(this.files.get(current.file_key), current);
+      if (change) {
+        changes.push(change);
+      }
+      this.files.set(current.file_key, current);
+    }
+
+    for (const change of changes) {
+      try {
+        await this.options.onChange(change);
+      } catch (error) {
+        this.options.onError?.(error);
+      }
+    }
+    return changes;
+  }
+
+  list(): WatchedFile[] {
+    return [...this.files.values()];
+  }
+
+  get(fileKey: string): WatchedFile | undefined {
+    return this.files.get(fileKey);
+  }
+
+  status(): FigmaWatcherStatus {
+    return {
+      running: this.running,
+      interval_seconds: Math.round(this.options.intervalMs / 1000),
+      consecutive_failures: this.failures,
+      ...(this.nextPollAt ? { next_poll_at: new Date(this.nextPollAt).toISOString() } : {}),
+      ...(this.lastError ? { last_error: this.lastError } : {}),
+    };
+  }
+
+  /**
+   * The change between two observations of a file; a file seen for the first time is its own baseline
+   */
+  private compare(previous: WatchedFile | undefined, current: WatchedFile): FigmaFileChange | undefined {
+    if (!previous) {
+      return undefined;
+    }
+
+    const versionChanged = current.version !== undefined && previous.version !== undefined && current.version !== previous.version;
+    if (versionChanged || current.last_modified !== previous.last_modified) {
+      return {
+        file_key: current.file_key,
+        ...(current.name ? { name: current.name } : {}),
+        ...(current.project_id ? { project_id: current.project_id } : {}),
+        ...(previous.version ? { previous_version: previous.version } : {}),
+        ...(current.version ? { version: current.version } : {}),
+        ...(previous.last_modified ? { previous_last_modified: previous.last_modified } : {}),
+        ...(current.last_modified ? { last_modified: current.last_modified } : {}),
+        detected_at: current.last_checked || new Date().toISOString(),
+      };
+    }
+    return undefined;
+  }
+
+  private schedule(delayMs: number): void {
+    this.nextPollAt = Date.now() + delayMs;
+    this.timer = setTimeout(() => this.tick(), delayMs);
+    // Polling alone should not keep the process alive once the transport closes
+    this.timer.unref();
+  }
+
+  private async tick(): Promise<void> {
+    let delayMs = this.options.intervalMs;
+    try {
+      await this.pollOnce();
+      this.failures = 0;
+      this.lastError = undefined;
+    } catch (error) {
+      this.failures++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      // A rate limit that survived the client's own retries waits at least the full backoff
+      delayMs = error instanceof FigmaApiError && error.status === 429
+        ? this.options.maxBackoffMs
+        : Math.min(this.options.maxBackoffMs, this.options.intervalMs * 2 ** Math.min(this.failures, 20));
+      this.options.onError?.(error);
+    }
+    if (this.running) {
+      this.schedule(delayMs);
+    }
+  }
+}
@@ -0,0 +1,455 @@
+import { ComponentApi, FigmaFile, FigmaFill, FigmaNode } from '../types/figma.js';
+import { buildComponentApis } from './component-api.js';
+import { effectsToCss, paintToCss } from './css-paint.js';
+import { round } from './color-utils.js';
+
+export interface DiffNodeRef {
+  id: string;
+  name: string;
+  type: string;
+  page?: string;
+  // Ancestor names below the page, e.g. `Hero / Content / Title`
+  path: string;
+}
+
+export interface PropertyChange {
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface DiffEntityRef {
+  id: string;
+  key?: string;
+  name: string;
+}
+
+export interface VariantApiChange {
+  component: string;
+  id: string;
+  added_axes: string[];
+  removed_axes: string[];
+  changed_axes: Array<{ axis: string; added_values: string[]; removed_values: string[]; default_before?: string; default_after?: string }>;
+  added_properties: string[];
+  removed_properties: string[];
+  changed_properties: Array<{ property: string; before: string; after: string }>;
+}
+
+export interface FileDiff {
+  summary: {
+    nodes_added: number;
+    nodes_removed: number;
+    nodes_renamed: number;
+    nodes_moved: number;
+    nodes_changed: number;
+    components_added: number;
+    components_removed: number;
+    components_renamed: number;
+    components_with_api_changes: number;
+    styles_added: number;
+    styles_removed: number;
+    styles_renamed: number;
+  };
+  nodes: {
+    // Only the top of an added or removed subtree is listed; `descendants` counts the layers inside it
+    added: Array<DiffNodeRef & { descendants: number }>;
+    removed: Array<DiffNodeRef & { descendants: number }>;
+    renamed: Array<DiffNodeRef & { before_name: string }>;
+    moved: Array<DiffNodeRef & { from: string; to: string }>;
+    changed: Array<DiffNodeRef & { changes: PropertyChange[] }>;
+  };
+  // Components and component sets
+  components: {
+    added: DiffEntityRef[];
+    removed: DiffEntityRef[];
+    renamed: Array<DiffEntityRef & { before_name: string }>;
+    api_changes: VariantApiChange[];
+  };
+  styles: {
+    added: Array<DiffEntityRef & { style_type: string }>;
+    removed: Array<DiffEntityRef & { style_type: string }>;
+    renamed: Array<DiffEntityRef & { style_type: string; before_name: string }>;
+  };
+}
+
+interface IndexedNode {
+  node: FigmaNode;
+  parentId?: string;
+  page?: string;
+  path: string;
+}
+
+// Node bullets per page in the changelog before the rest are summarised
+const CHANGELOG_NODE_LIMIT = 50;
+
+/**
+ * Structural diff of two versions of a file: nodes matched by ID, plus the component, style and
+ * variant API changes that usually mean code has to follow
+ */
+export function diffFigmaFiles(before: FigmaFile, after: FigmaFile): FileDiff {
+  const beforeNodes = indexNodes(before);
+  const afterNodes = indexNodes(after);
+
+  const added = topLevelOnly(afterNodes, beforeNodes);
+  const removed = topLevelOnly(beforeNodes, afterNodes);
+  const renamed: FileDiff['nodes']['renamed'] = [];
+  const moved: FileDiff['nodes']['moved'] = [];
+  const changed: FileDiff['nodes']['changed'] = [];
+
+  for (const [id, next] of afterNodes) {
+    const previous = beforeNodes.get(id);
+    if (!previous || next.node.type === 'DOCUMENT') {
+      continue;
+    }
+    if (previous.node.name !== next.node.name) {
+      renamed.push({ ...nodeRef(next), before_name: previous.node.name });
+    }
+    if (previous.parentId !== next.parentId) {
+      moved.push({ ...nodeRef(next), from: parentLabel(beforeNodes, previous), to: parentLabel(afterNodes, next) });
+    }
+    const changes = diffProperties(nodeProperties(previous.node, before), nodeProperties(next.node, after));
+    if (changes.length > 0) {
+      changed.push({ ...nodeRef(next), changes });
+    }
+  }
+
+  const components = diffEntities(componentEntities(before), componentEntities(after));
+  const styles = diffEntities(
+    Object.fromEntries(Object.entries(before.styles || {}).map(([id, style]) => [id, { ...style, style_type: style.styleType }])),
+    Object.fromEntries(Object.entries(after.styles || {}).map(([id, style]) => [id, { ...style, style_type: style.styleType }]))
+  );
+  const apiChanges = diffComponentApis(buildComponentApis(before), buildComponentApis(after));
+
+  return {
+    summary: {
+      nodes_added: added.length,
+      nodes_removed: removed.length,
+      nodes_renamed: renamed.length,
+      nodes_moved: moved.length,
+      nodes_changed: changed.length,
+      components_added: components.added.length,
+      components_removed: components.removed.length,
+      components_renamed: components.renamed.length,
+      components_with_api_changes: apiChanges.length,
+      styles_added: styles.added.length,
+      styles_removed: styles.removed.length,
+      styles_renamed: styles.renamed.length,
+    },
+    nodes: { added, removed, renamed, moved, changed },
+    components: { ...components, api_changes: apiChanges },
+    styles: {
+      added: styles.added.map(style => ({ id: style.id, key: style.key, name: style.name, style_type: style.style_type })),
+      removed: styles.removed.map(style => ({ id: style.id, key: style.key, name: style.name, style_type: style.style_type })),
+      renamed: styles.renamed.map(style => ({
+        id: style.id, key: style.key, name: style.name, style_type: style.style_type, before_name: style.before_name,
+      })),
+    },
+  };
+}
+
+/**
+ * Markdown changelog of a diff, grouped into components, styles and one section per page
+ */
+export function formatDesignChangelog(diff: FileDiff, title: string): string {
+  const lines = [`# ${title}`, ''];
+  const section = (heading: string, bullets: string[]) => {
+    if (bullets.length > 0) {
+      lines.push(`## ${heading}`, '', ...bullets.map(bullet => `- ${bullet}`), '');
+    }
+  };
+
+  section('Components', [
+    ...diff.components.added.map(component => `Added **${component.name}**`),
+    ...diff.components.removed.map(component => `Removed **${component.name}**`),
+    ...diff.components.renamed.map(component => `Renamed **${component.before_name}** → **${component.name}**`),
+    ...diff.components.api_changes.map(change => `**${change.component}**: ${describeApiChange(change)}`),
+  ]);
+  section('Styles', [
+    ...diff.styles.added.map(style => `Added ${style.style_type.toLowerCase()} style **${style.name}**`),
+    ...diff.styles.removed.map(style => `Removed ${style.style_type.toLowerCase()} style **${style.name}**`),
+    ...diff.styles.renamed.map(style => `Renamed ${style.style_type.toLowerCase()} style **${style.before_name}** → **${style.name}**`),
+  ]);
+
+  const pages = new Map<string, string[]>();
+  const add = (page: string | undefined, bullet: string) => {
+    const key = page || 'Document';
+    pages.set(key, [...(pages.get(key) || []), bullet]);
+  };
+  const layers = (count: number) => (count > 0 ? ` (${count} layer${count === 1 ? '' : 's'} inside)` : '');
+  // Components coming and going or being renamed is already told by the Components section
+  const isComponent = (node: DiffNodeRef) => node.type === 'COMPONENT' || node.type === 'COMPONENT_SET';
+  for (const node of diff.nodes.added.filter(node => !isComponent(node))) {
+    add(node.page, `Added ${node.type.toLowerCase()} **${node.path}**${layers(node.descendants)}`);
+  }
+  for (const node of diff.nodes.removed.filter(node => !isComponent(node))) {
+    add(node.page, `Removed ${node.type.toLowerCase()} **${node.path}**${layers(node.descendants)}`);
+  }
+  for (const node of diff.nodes.renamed.filter(node => !isComponent(node))) {
+    add(node.page, `Renamed **${node.before_name}** → **${node.path}**`);
+  }
+  for (const node of diff.nodes.moved) {
+    add(node.page, `Moved **${node.name}** from ${node.from} to ${node.to}`);
+  }
+  for (const node of diff.nodes.changed) {
+    add(node.page, `**${node.path}**: ${node.changes.map(describeChange).join('; ')}`);
+  }
+  for (const [page, bullets] of pages) {
+    const shown = bullets.slice(0, CHANGELOG_NODE_LIMIT);
+    if (bullets.length > shown.length) {
+      shown.push(`…and ${bullets.length - shown.length} more changes`);
+    }
+    section(`Page: ${page}`, shown);
+  }
+
+  if (lines.length === 2) {
+    lines.push('No changes.', '');
+  }
+  return lines.join('\n');
+}
+
+function indexNodes(file: FigmaFile): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+  const visit = (node: FigmaNode, parent: IndexedNode | undefined) => {
+    const page = node.type === 'CANVAS' ? node.name : parent?.page;
+    const path = node.type === 'CANVAS' || node.type === 'DOCUMENT'
+      ? ''
+      : parent?.path ? `${parent.path} / ${node.name}` : node.name;
+    const entry: IndexedNode = { node, parentId: parent?.node.id, page, path };
+    index.set(node.id, entry);
+    node.children?.forEach(child => visit(child, entry));
+  };
+  visit(file.document as unknown as FigmaNode, undefined);
+  return index;
+}
+
+/**
+ * Nodes of `from` missing in `other`, without the descendants of nodes that are missing themselves
+ */
+function topLevelOnly(from: Map<string, IndexedNode>, other: Map<string, IndexedNode>): Array<DiffNodeRef & { descendants: number }> {
+  const missing = [...from.values()].filter(entry => !other.has(entry.node.id));
+  const missingIds = new Set(missing.map(entry => entry.node.id));
+  return missing
+    .filter(entry => !entry.parentId || !missingIds.has(entry.parentId))
+    .map(entry => ({ ...nodeRef(entry), descendants: countDescendants(entry.node) }));
+}
+
+function countDescendants(node: FigmaNode): number {
+  return (node.children || []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+function nodeRef(entry: IndexedNode): DiffNodeRef {
+  return {
+    id: entry.node.id,
+    name: entry.node.name,
+    type: entry.node.type,
+    ...(entry.page ? { page: entry.page } : {}),
+    path: entry.path || entry.node.name,
+  };
+}
+
+function parentLabel(index: Map<string, IndexedNode>, entry: IndexedNode): string {
+  const parent = entry.parentId ? index.get(entry.parentId) : undefined;
+  if (!parent) {
+    return 'the document';
+  }
+  return parent.node.type === 'CANVAS' ? `page ${parent.node.name}` : `**${parent.path}**`;
+}
+
+/**
+ * The properties code usually mirrors, as comparable values
+ */
+function nodeProperties(node: FigmaNode, file: FigmaFile): Record<string, unknown> {
+  const box = node.absoluteBoundingBox;
+  const paints = (list: FigmaFill[] | undefined) => (list || [])
+    .filter(paint => paint.visible !== false)
+    .map(paint => (paint.type === 'IMAGE' ? `image ${paint.imageRef}` : paintToCss(paint, box) || paint.type));
+  const style = node.style;
+  const properties: Record<string, unknown> = {
+    fills: paints(node.fills),
+    strokes: paints(node.strokes as FigmaFill[] | undefined),
+    stroke_weight: node.strokes?.length ? node.strokeWeight : undefined,
+    effects: effectsToCss(node.effects || [], { text: node.type === 'TEXT' }),
+    text: node.characters,
+    typography: style ? {
+      font_family: style.fontFamily,
+      font_weight: style.fontWeight,
+      font_size: style.fontSize,
+      line_height: round(style.lineHeightPx),
+      letter_spacing: round(style.letterSpacing),
+    } : undefined,
+    layout: node.layoutMode && node.layoutMode !== 'NONE' ? {
+      mode: node.layoutMode,
+      gap: node.itemSpacing || 0,
+      padding: [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft].map(value => value || 0).join(' '),
+      primary_align: node.primaryAxisAlignItems || 'MIN',
+      counter_align: node.counterAxisAlignItems || 'MIN',
+    } : undefined,
+    sizing: node.layoutSizingHorizontal || node.layoutSizingVertical
+      ? `${node.layoutSizingHorizontal || 'FIXED'} × ${node.layoutSizingVertical || 'FIXED'}`
+      : undefined,
+    size: box ? `${round(box.width)}×${round(box.height)}` : undefined,
+    corner_radius: node.rectangleCornerRadii?.join(' ') ?? node.cornerRadius,
+    opacity: node.opacity ?? 1,
+    visible: node.visible ?? true,
+    component: node.componentId ? file.components?.[node.componentId]?.name ?? node.componentId : undefined,
+    component_properties: node.componentProperties
+      ? Object.fromEntries(Object.entries(node.componentProperties).map(([name, property]) => [name.replace(/#[\d:]+$/, ''), property.value]))
+      : undefined,
+  };
+  return properties;
+}
+
+function diffProperties(before: Record<string, unknown>, after: Record<string, unknown>): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const property of Object.keys(after)) {
+    const previous = normalizeEmpty(before[property]);
+    const next = normalizeEmpty(after[property]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ property, before: previous ?? null, after: next ?? null });
+    }
+  }
+  return changes;
+}
+
+function normalizeEmpty(value: unknown): unknown {
+  if (Array.isArray(value) && value.length === 0) {
+    return undefined;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0) {
+    return undefined;
+  }
+  return value;
+}
+
+function componentEntities(file: FigmaFile): Record<string, { key?: string; name: string }> {
+  // Variants are covered by their set's API diff; listing them too would repeat every variant rename
+  const entities: Record<string, { key?: string; name: string }> = {};
+  for (const [id, component] of Object.entries(file.components || {})) {
+    if (!component.componentSetId) {
+      entities[id] = { key: component.key, name: component.name };
+    }
+  }
+  for (const [id, set] of Object.entries(file.componentSets || {})) {
+    entities[id] = { key: set.key, name: set.name };
+  }
+  return entities;
+}
+
+function diffEntities<T extends { key?: string; name: string }>(
+  before: Record<string, T>,
+  after: Record<string, T>
+): { added: Array<T & { id: string }>; removed: Array<T & { id: string }>; renamed: Array<T & { id: string; before_name: string }> } {
+  const pick = (id: string, entity: T) => ({ ...entity, id });
+  return {
+    added: Object.entries(after).filter(([id]) => !before[id]).map(([id, entity]) => pick(id, entity)),
+    removed: Object.entries(before).filter(([id]) => !after[id]).map(([id, entity]) => pick(id, entity)),
+    renamed: Object.entries(after)
+      .filter(([id, entity]) => before[id] && before[id].name !== entity.name)
+      .map(([id, entity]) => ({ ...pick(id, entity), before_name: before[id].name })),
+  };
+}
+
+function diffComponentApis(before: ComponentApi[], after: ComponentApi[]): VariantApiChange[] {
+  const previousById = new Map(before.map(api => [api.id, api]));
+  const changes: VariantApiChange[] = [];
+
+  for (const api of after) {
+    const previous = previousById.get(api.id);
+    if (!previous) {
+      continue;
+    }
+    const axes = new Map(previous.variant_axes.map(axis => [axis.name, axis]));
+    const nextAxes = new Map(api.variant_axes.map(axis => [axis.name, axis]));
+    const changedAxes: VariantApiChange['changed_axes'] = [];
+    for (const axis of api.variant_axes) {
+      const old = axes.get(axis.name);
+      if (!old) {
+        continue;
+      }
+      const addedValues = axis.values.filter(value => !old.values.includes(value));
+      const removedValues = old.values.filter(value => !axis.values.includes(value));
+      if (addedValues.length || removedValues.length || old.default !== axis.default) {
+        changedAxes.push({
+          axis: axis.name,
+          added_values: addedValues,
+          removed_values: removedValues,
+          ...(old.default !== axis.default ? { default_before: old.default, default_after: axis.default } : {}),
+        });
+      }
+    }
+
+    const properties = new Map(previous.properties.map(property => [property.name, property]));
+    const nextProperties = new Map(api.properties.map(property => [property.name, property]));
+    const changedProperties = api.properties.flatMap(property => {
+      const old = properties.get(property.name);
+      if (!old) {
+        return [];
+      }
+      const describe = (value: typeof property) => `${value.type} = ${JSON.stringify(value.default_component ?? value.default_value)}`;
+      return describe(old) !== describe(property) ? [{ property: property.name, before: describe(old), after: describe(property) }] : [];
+    });
+
+    const change: VariantApiChange = {
+      component: api.name,
+      id: api.id,
+      added_axes: api.variant_axes.filter(axis => !axes.has(axis.name)).map(axis => axis.name),
+      removed_axes: previous.variant_axes.filter(axis => !nextAxes.has(axis.name)).map(axis => axis.name),
+      changed_axes: changedAxes,
+      added_properties: api.properties.filter(property => !properties.has(property.name)).map(property => `${property.name} (${property.type})`),
+      removed_properties: previous.properties.filter(property => !nextProperties.has(property.name)).map(property => property.name),
+      changed_properties: changedProperties,
+    };
+    if (change.added_axes.length || change.removed_axes.length || changedAxes.length
+      || change.added_properties.length || change.removed_properties.length || changedProperties.length) {
+      changes.push(change);
+    }
+  }
+  return changes;
+}
+
+function describeApiChange(change: VariantApiChange): string {
+  return [
+    ...change.added_axes.map(axis => `new variant axis ${axis}`),
+    ...change.removed_axes.map(axis => `removed variant axis ${axis}`),
+    ...change.changed_axes.flatMap(axis => [
+      ...(axis.added_values.length ? [`${axis.axis} gained ${axis.added_values.join(', ')}`] : []),
+      ...(axis.removed_values.length ? [`${axis.axis} lost ${axis.removed_values.join(', ')}`] : []),
+      ...(axis.default_before !== axis.default_after ? [`${axis.axis} default ${axis.default_before} → ${axis.default_after}`] : []),
+    ]),
+    ...change.added_properties.map(property => `new property ${property}`),
+    ...change.removed_properties.map(property => `removed property ${property}`),
+    ...change.changed_properties.map(property => `${property.property} ${property.before} → ${property.after}`),
+  ].join('; ');
+}
+
+function describeChange(change: PropertyChange): string {
+  const label = change.property.replace(/_/g, ' ');
+  const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+  if (isRecord(change.before) && isRecord(change.after)) {
+    // Only the fields that changed, e.g. `font size 32 → 36` rather than the whole text style
+    const before = change.before;
+    const after = change.after;
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map(key => `${key.replace(/_/g, ' ')} ${formatValue(before[key])} → ${formatValue(after[key])}`)
+      .join(', ');
+  }
+  return `${label} ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'none';
+  }
+  if (typeof value === 'string') {
+    const text = value.length > 60 ? `${value.slice(0, 57)}…` : value;
+    return `\`${text.replace(/\n/g, ' ')}\``;
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([key, entry]) => `${key.replace(/_/g, ' ')} ${formatValue(entry)}`).join(', ');
+  }
+  return String(value);
+}
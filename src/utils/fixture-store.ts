@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface RecordedFixture {
+  endpoint: string;
+  recordedAt: string;
+  data: unknown;
+}
+
+// Endpoint families worth recording: files (incl. nodes/components/styles/versions/comments), image
+// renders, and the team and project listings
+const RECORDABLE_ENDPOINT = /^\/(?:files|images|teams|projects)\//;
+
+/**
+ * Stores Figma API responses as JSON fixtures so tools can run offline against recorded data
+ */
+export class FixtureStore {
+  readonly mode: FixtureMode;
+  private directory: string;
+
+  constructor(directory: string, mode: FixtureMode) {
+    this.directory = directory;
+    this.mode = mode;
+  }
+
+  /**
+   * Whether an endpoint is part of the recorded API surface
+   */
+  handles(endpoint: string): boolean {
+    return RECORDABLE_ENDPOINT.test(endpoint);
+  }
+
+  load(endpoint: string): RecordedFixture | null {
+    const fixturePath = this.fixturePath(endpoint);
+    if (!fs.existsSync(fixturePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  }
+
+  save(endpoint: string, data: unknown): void {
+    const fixture: RecordedFixture = {
+      endpoint,
+      recordedAt: new Date().toISOString(),
+      data,
+    };
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.fixturePath(endpoint), JSON.stringify(fixture, null, 2));
+  }
+
+  /**
+   * Fixture file for an endpoint: a readable slug plus a hash so long query strings stay unique
+   */
+  fixturePath(endpoint: string): string {
+    const slug = endpoint
+      .replace(/^\/+/, '')
+      .replace(/[^a-zA-Z0-9._-]+/g, '_')
+      .slice(0, 80);
+    const digest = createHash('sha1').update(endpoint).digest('hex').slice(0, 8);
+    return path.join(this.directory, `${slug}-${digest}.json`);
+  }
+}
+
+/**
+ * Parse a fixture mode from configuration, defaulting to `off`
+ */
+export function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (value === 'record' || value === 'replay') {
+    return value;
+  }
+  return 'off';
+}
@@ -0,0 +1,319 @@
+import { ScaffoldFile } from './component-scaffold.js';
+import { formatTokenName } from './token-formatters.js';
+
+export type IconFramework = 'react' | 'vue';
+
+export interface NormalizedSvg {
+  viewBox: string;
+  width: number;
+  height: number;
+  // Root attributes worth keeping, such as Figma's fill="none"
+  attributes: Record<string, string>;
+  // Markup inside the root <svg>, whitespace between tags removed
+  body: string;
+  // Distinct paint colors found outside clip paths and masks, before any currentColor rewrite;
+  // `gradient` stands for paints that reference a gradient
+  colors: string[];
+  // One paint color and no gradients, so the icon can follow the text color
+  monochrome: boolean;
+}
+
+export interface IconDefinition {
+  node_id: string;
+  figma_name: string;
+  // Kebab-case name used in the IconName union and as the sprite symbol ID
+  name: string;
+  component_name: string;
+  svg: NormalizedSvg;
+}
+
+export interface IconPackageOptions {
+  framework: IconFramework;
+  sprite: boolean;
+}
+
+// Root attributes the components set themselves or that inline SVG doesn't need
+const DROPPED_ROOT_ATTRIBUTES = new Set(['width', 'height', 'viewBox', 'xmlns', 'xmlns:xlink', 'id', 'class', 'style']);
+
+// SVG attributes JSX spells differently from the kebab-case rule
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  'xlink:href': 'xlinkHref',
+  'xml:space': 'xmlSpace',
+  'xmlns:xlink': 'xmlnsXlink',
+};
+
+/**
+ * Normalize a Figma SVG export for use as an icon: the viewBox starts at 0 0, IDs are dropped unless
+ * something references them (clip paths, masks, gradients) and those are renamed with `idPrefix` so
+ * icons can share a page or sprite, and a monochrome icon's paint becomes currentColor
+ */
+export function normalizeSvg(svg: string, options: { idPrefix: string; currentColor: boolean }): NormalizedSvg {
+  const source = svg
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+  const match = source.match(/<svg\b([^>]*)>([\s\S]*)<\/svg>/i);
+  if (!match) {
+    throw new Error('Not an SVG document');
+  }
+
+  const rootAttributes = parseAttributes(match[1]);
+  const width = parseFloat(rootAttributes.width) || 0;
+  const height = parseFloat(rootAttributes.height) || 0;
+  const [minX = 0, minY = 0, viewWidth = width, viewHeight = height] = (rootAttributes.viewBox || '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+
+  let body = match[2].replace(/>\s+</g, '><').trim();
+  if (minX !== 0 || minY !== 0) {
+    body = `<g transform="translate(${-minX} ${-minY})">${body}</g>`;
+  }
+  body = renameIds(body, options.idPrefix);
+
+  // Clip paths and masks only use their paint as coverage, so their colors are left alone
+  const protectedBlocks: string[] = [];
+  body = body.replace(/<(clipPath|mask)\b[\s\S]*?<\/\1>/g, block => `\u0000${protectedBlocks.push(block) - 1}\u0000`);
+  const colors = new Set<string>();
+  body.replace(/\b(fill|stroke)="([^"]*)"/g, (_, _attribute, value: string) => {
+    if (value !== 'none' && value !== 'currentColor') {
+      colors.add(value.startsWith('url(') ? 'gradient' : value.toLowerCase());
+    }
+    return '';
+  });
+  const monochrome = !colors.has('gradient') && colors.size <= 1;
+  if (options.currentColor && monochrome) {
+    body = body.replace(/\b(fill|stroke)="([^"]*)"/g, (attribute, name: string, value: string) =>
+      value === 'none' ? attribute : `${name}="currentColor"`);
+  }
+  body = body.replace(/\u0000(\d+)\u0000/g, (_, index) => protectedBlocks[Number(index)]);
+
+  const attributes = Object.fromEntries(Object.entries(rootAttributes).filter(([name]) => !DROPPED_ROOT_ATTRIBUTES.has(name)));
+  return {
+    viewBox: `0 0 ${viewWidth} ${viewHeight}`,
+    width: viewWidth,
+    height: viewHeight,
+    attributes,
+    body,
+    colors: [...colors],
+    monochrome,
+  };
+}
+
+/**
+ * Kebab-case icon name from a component's Figma path, without the library prefix:
+ * `Icons/Arrow/Left` → `arrow-left`
+ */
+export function iconName(figmaPath: string, prefix: string): string {
+  const relative = prefix && figmaPath.toLowerCase().startsWith(prefix.toLowerCase())
+    ? figmaPath.slice(prefix.length)
+    : figmaPath;
+  return formatTokenName(relative.split('/'), 'kebab') || 'icon';
+}
+
+/**
+ * PascalCase component name for an icon: `arrow-left` → `ArrowLeftIcon`
+ */
+export function iconComponentName(name: string): string {
+  const camel = formatTokenName([name], 'camel');
+  const pascal = camel.charAt(0).toUpperCase() + camel.slice(1);
+  return /^[A-Za-z]/.test(pascal) ? `${pascal}Icon` : `Icon${pascal}`;
+}
+
+/**
+ * Files of a tree-shakeable icon package: one component per icon, shared prop types, an index of
+ * named exports with an `IconName` union, and optionally an SVG sprite of `<symbol>`s
+ */
+export function generateIconPackage(icons: IconDefinition[], options: IconPackageOptions): ScaffoldFile[] {
+  const files: ScaffoldFile[] = [];
+  const extension = options.framework === 'vue' ? 'vue' : 'tsx';
+  for (const icon of icons) {
+    files.push({
+      path: `${icon.component_name}.${extension}`,
+      content: options.framework === 'vue' ? vueIcon(icon) : reactIcon(icon),
+    });
+  }
+
+  files.push({ path: 'types.ts', content: iconTypes(options.framework) });
+
+  const index = [
+    ...icons.map(icon => options.framework === 'vue'
+      ? `export { default as ${icon.component_name} } from './${icon.component_name}.vue';`
+      : `export { ${icon.component_name} } from './${icon.component_name}';`),
+    `export type { IconProps } from './types';`,
+    '',
+    'export const iconNames = [',
+    ...icons.map(icon => `  '${icon.name}',`),
+    '] as const;',
+    '',
+    'export type IconName = (typeof iconNames)[number];',
+    '',
+  ];
+  files.push({ path: 'index.ts', content: index.join('\n') });
+
+  if (options.sprite) {
+    const symbols = icons.map(icon => {
+      const attributes = Object.entries(icon.svg.attributes).map(([name, value]) => ` ${name}="${value}"`).join('');
+      return `  <symbol id="${icon.name}" viewBox="${icon.svg.viewBox}"${attributes}>${icon.svg.body}</symbol>`;
+    });
+    files.push({
+      path: 'sprite.svg',
+      content: ['<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">', ...symbols, '</svg>', ''].join('\n'),
+    });
+  }
+
+  return files;
+}
+
+function reactIcon(icon: IconDefinition): string {
+  const { svg } = icon;
+  const attributes = [
+    'width={size}',
+    'height={size}',
+    `viewBox="${svg.viewBox}"`,
+    ...Object.entries(svg.attributes).map(([name, value]) => jsxAttribute(name, value)),
+    'xmlns="http://www.w3.org/2000/svg"',
+    "role={title ? 'img' : undefined}",
+    'aria-hidden={title ? undefined : true}',
+    '{...props}',
+  ];
+  return [
+    `import type { IconProps } from './types';`,
+    '',
+    `/** \`${icon.name}\` icon, from the Figma component "${icon.figma_name}" */`,
+    `export function ${icon.component_name}({ size = ${naturalSize(svg)}, title, ...props }: IconProps) {`,
+    '  return (',
+    `    <svg ${attributes.join(' ')}>`,
+    '      {title ? <title>{title}</title> : null}',
+    ...formatMarkup(toJsx(svg.body), '      '),
+    '    </svg>',
+    '  );',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function vueIcon(icon: IconDefinition): string {
+  const { svg } = icon;
+  const attributes = [
+    ':width="size"',
+    ':height="size"',
+    `viewBox="${svg.viewBox}"`,
+    ...Object.entries(svg.attributes).map(([name, value]) => `${name}="${value}"`),
+    'xmlns="http://www.w3.org/2000/svg"',
+    `:role="title ? 'img' : undefined"`,
+    `:aria-hidden="title ? undefined : 'true'"`,
+  ];
+  return [
+    '<script setup lang="ts">',
+    `import type { IconProps } from './types';`,
+    '',
+    `/** \`${icon.name}\` icon, from the Figma component "${icon.figma_name}" */`,
+    `withDefaults(defineProps<IconProps>(), { size: ${naturalSize(svg)} });`,
+    '</script>',
+    '',
+    '<template>',
+    `  <svg ${attributes.join(' ')}>`,
+    '    <title v-if="title">{{ title }}</title>',
+    ...formatMarkup(svg.body, '    '),
+    '  </svg>',
+    '</template>',
+    '',
+  ].join('\n');
+}
+
+function iconTypes(framework: IconFramework): string {
+  const lines = framework === 'vue'
+    ? ['export interface IconProps {']
+    : [`import type { SVGProps } from 'react';`, '', 'export interface IconProps extends SVGProps<SVGSVGElement> {'];
+  lines.push(
+    '  /** Width and height; defaults to the size the icon is drawn at in Figma */',
+    '  size?: number | string;',
+    '  /** Accessible name; without one the icon is hidden from assistive technology */',
+    '  title?: string;',
+    '}',
+    ''
+  );
+  return lines.join('\n');
+}
+
+function naturalSize(svg: NormalizedSvg): number {
+  return Math.max(svg.width, svg.height) || 24;
+}
+
+/**
+ * Drop IDs nothing points at and give the rest a per-icon prefix, updating url(#…) and href references
+ */
+function renameIds(body: string, prefix: string): string {
+  const referenced = new Set<string>();
+  body.replace(/url\(#([^)]+)\)|href="#([^"]+)"/g, (_, url: string | undefined, href: string | undefined) => {
+    referenced.add((url || href)!);
+    return '';
+  });
+
+  const renamed = new Map<string, string>();
+  let result = body.replace(/\sid="([^"]*)"/g, (_, id: string) => {
+    if (!referenced.has(id)) {
+      return '';
+    }
+    // Icon names are kebab-case, so `-` could rebuild another icon's sprite symbol ID
+    const next = renamed.get(id) || `${prefix}__${renamed.size + 1}`;
+    renamed.set(id, next);
+    return ` id="${next}"`;
+  });
+  result = result.replace(/url\(#([^)]+)\)/g, (reference, id: string) => renamed.has(id) ? `url(#${renamed.get(id)})` : reference);
+  return result.replace(/href="#([^"]+)"/g, (reference, id: string) => renamed.has(id) ? `href="#${renamed.get(id)}"` : reference);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of source.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * SVG markup as JSX: attribute names camelCased and `style` strings turned into objects
+ */
+export function toJsx(markup: string): string {
+  return markup.replace(/<([a-zA-Z][\w:-]*)((?:\s+[\w:.-]+="[^"]*")*)\s*(\/?)>/g, (_, tag: string, attributeSource: string, selfClosing: string) => {
+    const attributes = Object.entries(parseAttributes(attributeSource)).map(([name, value]) => jsxAttribute(name, value));
+    return `<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}${selfClosing ? ' />' : '>'}`;
+  });
+}
+
+function jsxAttribute(name: string, value: string): string {
+  if (name === 'style') {
+    const entries = value
+      .split(';')
+      .map(declaration => declaration.split(':').map(part => part.trim()))
+      .filter(([property, propertyValue]) => property && propertyValue)
+      .map(([property, propertyValue]) => `${property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())}: '${propertyValue}'`);
+    return `style={{ ${entries.join(', ')} }}`;
+  }
+  const jsxName = JSX_ATTRIBUTE_NAMES[name]
+    || (name.startsWith('data-') || name.startsWith('aria-') ? name : name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase()));
+  return `${jsxName}="${value}"`;
+}
+
+/**
+ * One element per line, indented by nesting depth
+ */
+function formatMarkup(markup: string, indent: string): string[] {
+  const lines: string[] = [];
+  let depth = 0;
+  for (const [tag] of markup.matchAll(/<[^>]+>|[^<]+/g)) {
+    if (tag.startsWith('</')) {
+      depth = Math.max(0, depth - 1);
+      lines.push(`${indent}${'  '.repeat(depth)}${tag}`);
+    } else {
+      lines.push(`${indent}${'  '.repeat(depth)}${tag}`);
+      if (tag.startsWith('<') && !tag.endsWith('/>')) {
+        depth++;
+      }
+    }
+  }
+  return lines;
+}
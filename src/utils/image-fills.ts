@@ -0,0 +1,74 @@
+import { FigmaFill, FigmaNode } from '../types/figma.js';
+import { imageFillToCss } from './css-paint.js';
+
+// One layer painted with an image
+export interface ImageFillUsage {
+  node_id: string;
+  node_name: string;
+  node_type: string;
+  scale_mode: string;
+  // Image scale of TILE fills
+  scaling_factor?: number;
+  // Crop of STRETCH fills, as Figma's 2x3 node-to-image transform
+  image_transform?: number[][];
+  // How the image sits in the layer, as `object-fit` for an <img> and background properties
+  object_fit?: 'cover' | 'contain';
+  css: Record<string, string>;
+}
+
+// Signatures of the raster formats Figma accepts for image fills
+const IMAGE_SIGNATURES: Array<{ extension: string; matches: (data: Buffer) => boolean }> = [
+  { extension: 'png', matches: data => data.subarray(0, 4).toString('hex') === '89504e47' },
+  { extension: 'jpg', matches: data => data.subarray(0, 3).toString('hex') === 'ffd8ff' },
+  { extension: 'gif', matches: data => data.subarray(0, 3).toString('ascii') === 'GIF' },
+  { extension: 'webp', matches: data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP' },
+  { extension: 'heic', matches: data => data.subarray(4, 12).toString('ascii') === 'ftypheic' },
+];
+
+/**
+ * Every image fill under a node, grouped by image ref so each image is fetched once however many
+ * layers use it. Hidden layers and hidden fills are included, since they still ship with the design
+ */
+export function collectImageFills(root: FigmaNode): Map<string, ImageFillUsage[]> {
+  const usages = new Map<string, ImageFillUsage[]>();
+  const stack: FigmaNode[] = [root];
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+    for (const fill of node.fills || []) {
+      if (fill.type === 'IMAGE' && fill.imageRef) {
+        usages.set(fill.imageRef, [...(usages.get(fill.imageRef) || []), imageFillUsage(node, fill)]);
+      }
+    }
+    if (node.children) {
+      stack.push(...[...node.children].reverse());
+    }
+  }
+  return usages;
+}
+
+/**
+ * File extension for a downloaded image, from its bytes and then its content type
+ */
+export function imageExtension(data: Buffer, contentType?: string): string {
+  const signature = IMAGE_SIGNATURES.find(candidate => candidate.matches(data));
+  if (signature) {
+    return signature.extension;
+  }
+  const subtype = contentType?.split(';')[0].split('/')[1]?.trim();
+  return subtype === 'jpeg' ? 'jpg' : subtype && /^[a-z0-9]+$/.test(subtype) ? subtype : 'bin';
+}
+
+function imageFillUsage(node: FigmaNode, fill: FigmaFill): ImageFillUsage {
+  const scaleMode = fill.scaleMode || 'FILL';
+  const objectFit = scaleMode === 'FILL' ? 'cover' : scaleMode === 'FIT' ? 'contain' : undefined;
+  return {
+    node_id: node.id,
+    node_name: node.name,
+    node_type: node.type,
+    scale_mode: scaleMode,
+    ...(scaleMode === 'TILE' && fill.scalingFactor !== undefined ? { scaling_factor: fill.scalingFactor } : {}),
+    ...(scaleMode === 'STRETCH' && fill.imageTransform ? { image_transform: fill.imageTransform } : {}),
+    ...(objectFit ? { object_fit: objectFit } : {}),
+    css: imageFillToCss(fill),
+  };
+}
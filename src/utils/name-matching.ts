@@ -0,0 +1,172 @@
+import { splitWords } from './token-formatters.js';
+
+export interface NameMatchOptions {
+  // Maps a word to its canonical form, e.g. { btn: 'button' }; keys are case-insensitive
+  aliases?: Record<string, string>;
+}
+
+export interface NameToken {
+  text: string;
+  weight: number;
+}
+
+export interface NameMatch<T> {
+  candidate: T;
+  score: number;
+}
+
+// Common abbreviations in component names; config aliases extend and override these
+export const DEFAULT_NAME_ALIASES: Record<string, string> = {
+  btn: 'button',
+  img: 'image',
+  nav: 'navigation',
+  dlg: 'dialog',
+  txt: 'text',
+  lbl: 'label',
+  msg: 'message',
+};
+
+// Words that describe what a file is rather than which component it is
+const NOISE_WORDS = new Set(['component', 'comp', 'index']);
+
+// Path segments after the first (`Button/Primary/Large`) describe a variant, so they count for less
+const VARIANT_SEGMENT_WEIGHT = 0.5;
+
+/**
+ * Split a Figma component name into weighted words. The first `/` segment names the component
+ * and weighs 1; later segments and `Prop=Value` pairs describe a variant and weigh less.
+ */
+export function tokenizeFigmaName(name: string, options: NameMatchOptions = {}): NameToken[] {
+  const segments = name.split('/').map(segment => segment.trim()).filter(Boolean);
+  return segments.flatMap((segment, index) => {
+    // `Size=Large, State=Hover` only contributes the values
+    const words = segment.includes('=')
+      ? segment.split(',').map(pair => pair.split('=').slice(1).join('='))
+      : [segment];
+    const weight = index === 0 && !segment.includes('=') ? 1 : VARIANT_SEGMENT_WEIGHT;
+    return normalizeWords(words, options).map(text => ({ text, weight }));
+  });
+}
+
+/**
+ * Split a code component name (`PrimaryButton`, `primary-button`, `PrimaryButtonComponent`) into words
+ */
+export function tokenizeCodeName(name: string, options: NameMatchOptions = {}): NameToken[] {
+  return normalizeWords([name], options).map(text => ({ text, weight: 1 }));
+}
+
+/**
+ * Score how well a Figma component name matches a code component name, from 0 to 1.
+ *
+ * Words are compared order-insensitively after alias resolution and plural folding, with partial
+ * credit for near-identical words. The score is a weighted Dice coefficient, so unmatched words on
+ * either side lower it and variant words matter less than the component name.
+ */
+export function scoreNameMatch(figmaName: string, codeName: string, options: NameMatchOptions = {}): number {
+  const figmaTokens = tokenizeFigmaName(figmaName, options);
+  const codeTokens = tokenizeCodeName(codeName, options);
+  if (figmaTokens.length === 0 || codeTokens.length === 0) {
+    return 0;
+  }
+
+  const figmaTotal = figmaTokens.reduce((sum, token) => sum + token.weight, 0);
+  let codeTotal = 0;
+  let matched = 0;
+  const used = new Set<number>();
+
+  for (const codeToken of codeTokens) {
+    let best = { index: -1, similarity: 0 };
+    figmaTokens.forEach((figmaToken, index) => {
+      if (used.has(index)) {
+        return;
+      }
+      const similarity = wordSimilarity(figmaToken.text, codeToken.text);
+      // Prefer heavier words on ties so `Button` binds to the component name, not a variant segment
+      if (similarity > best.similarity
+        || (similarity === best.similarity && similarity > 0 && figmaToken.weight > figmaTokens[best.index].weight)) {
+        best = { index, similarity };
+      }
+    });
+
+    if (best.index >= 0) {
+      used.add(best.index);
+      const weight = figmaTokens[best.index].weight;
+      // A matched code word counts with the weight of the Figma word it explains
+      codeTotal += weight;
+      matched += 2 * weight * best.similarity;
+    } else {
+      codeTotal += codeToken.weight;
+    }
+  }
+
+  return Math.round((matched / (figmaTotal + codeTotal)) * 1000) / 1000;
+}
+
+/**
+ * Rank candidates by name score against a Figma name, keeping those at or above the threshold
+ */
+export function rankNameMatches<T>(
+  figmaName: string,
+  candidates: T[],
+  nameOf: (candidate: T) => string,
+  threshold: number,
+  options: NameMatchOptions = {}
+): NameMatch<T>[] {
+  return candidates
+    .map(candidate => ({ candidate, score: scoreNameMatch(figmaName, nameOf(candidate), options) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+function normalizeWords(values: string[], options: NameMatchOptions): string[] {
+  const aliases = lowerCaseKeys({ ...DEFAULT_NAME_ALIASES, ...(options.aliases || {}) });
+  const words = values.flatMap(splitWords).map(word => word.toLowerCase());
+  const joined = words.join('');
+
+  // Whole-name aliases first (`NavBar` → `navigation bar` when configured), then word by word
+  const expanded = aliases[joined] && words.length > 1 ? splitWords(aliases[joined]) : words.flatMap(word =>
+    aliases[word] ? splitWords(aliases[word]) : [word]);
+
+  const meaningful = expanded.map(word => singular(word.toLowerCase())).filter(word => !NOISE_WORDS.has(word));
+  // A name made only of noise words (`Component`) still needs something to compare
+  return meaningful.length > 0 ? meaningful : expanded.map(word => word.toLowerCase());
+}
+
+function lowerCaseKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  // Short words must match exactly; `row` vs `rows` is folded by singular() already
+  if (Math.min(a.length, b.length) < 4) {
+    return 0;
+  }
+  const similarity = (2 * longestCommonSubsequence(a, b)) / (a.length + b.length);
+  return similarity >= 0.8 ? similarity : 0;
+}
+
+function longestCommonSubsequence(a: string, b: string): number {
+  const previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(previous[j], previous[j - 1]);
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,472 @@
+import { CodeComponentProp, FigmaNode } from '../types/figma.js';
+import { ResolvedToken } from '../types/tokens.js';
+import { round } from './color-utils.js';
+import { cleanPropertyName } from './component-api.js';
+import { toPropName, toVariantValue } from './component-consistency.js';
+import { boxDeclarations, createStyleTokenIndex, StyleTokenIndex, textDeclarations } from './node-css.js';
+import { formatTokenName, splitWords } from './token-formatters.js';
+
+export type CodegenFormat = 'jsx' | 'html';
+export type CodegenStyling = 'css' | 'tailwind';
+
+// Code component an instance renders as
+export interface CodegenComponent {
+  name: string;
+  import_specifier?: string;
+  default_export?: boolean;
+  // Known props; when present, instance properties without a matching prop are dropped
+  props?: CodeComponentProp[];
+}
+
+export interface CodegenOptions {
+  format: CodegenFormat;
+  styling: CodegenStyling;
+  tokens: ResolvedToken[];
+  // Mapped code component for an instance's main component, if any. Only used for JSX
+  componentFor?: (instance: FigmaNode) => CodegenComponent | undefined;
+}
+
+export interface GeneratedCode {
+  code: string;
+  // Stylesheet for the generated class names (css styling only)
+  css?: string;
+  imports: string[];
+  components_used: string[];
+  tokens_used: string[];
+  untokenized_values: string[];
+  // Paints and effects with no place in the generated CSS, as `layer: description`
+  omitted_styles: string[];
+}
+
+interface Element {
+  tag: string;
+  css: Map<string, string>;
+  attributes: Array<[string, string | boolean]>;
+  children: Array<Element | string>;
+}
+
+interface CodegenState {
+  options: CodegenOptions;
+  tokens: StyleTokenIndex;
+  classNames: Set<string>;
+  imports: Map<string, string>;
+  rules: string[];
+}
+
+const VOID_TAGS = new Set(['img', 'br', 'input']);
+const INLINE_PARENTS = new Set(['button', 'a']);
+const SHAPE_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'POLYGON', 'REGULAR_POLYGON']);
+
+// Layer name words that imply an element, checked in order
+const SEMANTIC_NAMES: Array<[RegExp, string]> = [
+  [/^(button|btn|cta)$/, 'button'],
+  [/^link$/, 'a'],
+  [/^(nav|navbar|navigation)$/, 'nav'],
+  [/^header$/, 'header'],
+  [/^footer$/, 'footer'],
+  [/^(sidebar|aside)$/, 'aside'],
+  [/^section$/, 'section'],
+];
+
+// Declarations with a fixed Tailwind utility
+const TAILWIND_STATIC: Record<string, string> = {
+  'display: flex': 'flex',
+  'flex-direction: column': 'flex-col',
+  'justify-content: center': 'justify-center',
+  'justify-content: flex-end': 'justify-end',
+  'justify-content: space-between': 'justify-between',
+  'align-items: center': 'items-center',
+  'align-items: flex-end': 'items-end',
+  'align-items: baseline': 'items-baseline',
+  'align-self: stretch': 'self-stretch',
+  'flex: 1 1 0': 'flex-1',
+  'position: absolute': 'absolute',
+  'position: relative': 'relative',
+  'border-radius: 50%': 'rounded-full',
+};
+
+// Properties whose Tailwind utility takes any arbitrary value
+const TAILWIND_PREFIXES: Record<string, string> = {
+  gap: 'gap',
+  'border-radius': 'rounded',
+  width: 'w',
+  height: 'h',
+  left: 'left',
+  top: 'top',
+  opacity: 'opacity',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+};
+
+// Utilities shared by several properties only accept literals; var() values use arbitrary properties
+const TAILWIND_LITERAL_PREFIXES: Record<string, string> = {
+  background: 'bg',
+  color: 'text',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'box-shadow': 'shadow',
+};
+
+/**
+ * Convert a node subtree into JSX or HTML with flexbox CSS or Tailwind classes.
+ *
+ * Auto layout becomes flexbox, children of frames without auto layout (and ABSOLUTE children)
+ * are positioned against their parent, and in JSX mapped instances render as their code component.
+ */
+export function generateNodeCode(root: FigmaNode, options: CodegenOptions): GeneratedCode {
+  const state: CodegenState = {
+    options,
+    tokens: createStyleTokenIndex(options.tokens),
+    classNames: new Set(),
+    imports: new Map(),
+    rules: [],
+  };
+
+  const element = renderNode(root, undefined, false, state);
+  const code = element ? serialize(element, 0, state).join('\n') + '\n' : '';
+
+  return {
+    code,
+    ...(options.styling === 'css' ? { css: state.rules.join('\n\n') + (state.rules.length ? '\n' : '') } : {}),
+    imports: [...state.imports.values()],
+    components_used: [...state.imports.keys()],
+    tokens_used: [...state.tokens.used].sort(),
+    untokenized_values: [...state.tokens.untokenized].sort(),
+    omitted_styles: [...state.tokens.omitted],
+  };
+}
+
+function renderNode(node: FigmaNode, parent: FigmaNode | undefined, inline: boolean, state: CodegenState): Element | undefined {
+  if (node.visible === false) {
+    return undefined;
+  }
+
+  if (node.type === 'INSTANCE' && state.options.format === 'jsx') {
+    const component = state.options.componentFor?.(node);
+    if (component) {
+      return componentElement(node, parent, component, state);
+    }
+  }
+
+  const css = layoutItemDeclarations(node, parent);
+  const own = node.type === 'TEXT' ? textDeclarations(node, state.tokens) : boxDeclarations(node, state.tokens);
+  own.forEach((value, property) => css.set(property, value));
+  if (node.type === 'ELLIPSE') {
+    css.set('border-radius', '50%');
+  }
+  if (node.children?.some(child => child.visible !== false && isPositioned(child, node)) && !css.has('position')) {
+    css.set('position', 'relative');
+  }
+
+  const tag = semanticTag(node, inline);
+  const element: Element = { tag, css, attributes: [], children: [] };
+  if (tag === 'button') {
+    element.attributes.push(['type', 'button']);
+  }
+
+  if (node.type === 'TEXT') {
+    (node.characters || '').split('\n').forEach((line, index) => {
+      if (index > 0) {
+        element.children.push({ tag: 'br', css: new Map(), attributes: [], children: [] });
+      }
+      if (line) {
+        element.children.push(escapeText(line, state.options.format));
+      }
+    });
+  } else if (tag === 'img') {
+    element.attributes.push(['src', ''], ['alt', node.name]);
+  }
+
+  // Styled before the children so rules come out parent first
+  applyStyles(element, node, state);
+
+  if (node.type !== 'TEXT' && tag !== 'img' && !SHAPE_TYPES.has(node.type)) {
+    const childInline = inline || INLINE_PARENTS.has(tag);
+    for (const child of node.children || []) {
+      const rendered = renderNode(child, node, childInline, state);
+      if (rendered) {
+        element.children.push(rendered);
+      }
+    }
+  }
+
+  return element;
+}
+
+function componentElement(node: FigmaNode, parent: FigmaNode | undefined, component: CodegenComponent, state: CodegenState): Element {
+  const { attributes, children } = instanceProps(node, component);
+  const element: Element = { tag: component.name, css: new Map(), attributes, children };
+
+  if (!state.imports.has(component.name)) {
+    const specifier = component.import_specifier || `./${component.name}`;
+    state.imports.set(component.name, component.default_export
+      ? `import ${component.name} from '${specifier}';`
+      : `import { ${component.name} } from '${specifier}';`);
+  }
+
+  // Code components don't necessarily accept a class, so positioning goes on a wrapper
+  if (parent && isPositioned(node, parent)) {
+    const wrapper: Element = { tag: 'div', css: layoutItemDeclarations(node, parent), attributes: [], children: [element] };
+    applyStyles(wrapper, node, state);
+    return wrapper;
+  }
+  return element;
+}
+
+/**
+ * Props for a mapped instance from its component property values, skipping values equal to the
+ * code default. A text property the component has no prop for becomes its children
+ */
+function instanceProps(node: FigmaNode, component: CodegenComponent): Pick<Element, 'attributes' | 'children'> {
+  const props = component.props || [];
+  const byName = new Map(props.map(prop => [normalize(prop.name), prop]));
+  const attributes: Element['attributes'] = [];
+  const children: string[] = [];
+
+  for (const [definitionName, property] of Object.entries(node.componentProperties || {})) {
+    if (property.type === 'INSTANCE_SWAP') {
+      continue;
+    }
+    const name = toPropName(cleanPropertyName(definitionName));
+    const prop = byName.get(normalize(name));
+
+    if (!prop && property.type === 'TEXT' && byName.has('children') && children.length === 0) {
+      children.push(escapeText(String(property.value), 'jsx'));
+      continue;
+    }
+    if (!prop && props.length > 0) {
+      continue;
+    }
+
+    let value: string | boolean = property.value;
+    if (property.type === 'VARIANT') {
+      const option = String(property.value);
+      const toggle = toggleValue(option);
+      value = toggle !== undefined && (!prop?.values?.length || prop.type === 'boolean')
+        ? toggle
+        : prop?.values?.find(candidate => normalize(candidate) === normalize(option)) ?? toVariantValue(option);
+    }
+    if (prop?.default_value !== undefined && prop.default_value.replace(/^['"`]|['"`]$/g, '') === String(value)) {
+      continue;
+    }
+    attributes.push([prop?.name || name, value]);
+  }
+
+  return { attributes, children };
+}
+
+/**
+ * Size and position of a node within its parent: flex sizing inside auto layout, otherwise
+ * absolute offsets from the parent's bounding box
+ */
+function layoutItemDeclarations(node: FigmaNode, parent: FigmaNode | undefined): Map<string, string> {
+  const css = new Map<string, string>();
+  const box = node.absoluteBoundingBox;
+
+  if (parent && isPositioned(node, parent)) {
+    const parentBox = parent.absoluteBoundingBox;
+    css.set('position', 'absolute');
+    if (box && parentBox) {
+      css.set('left', px(box.x - parentBox.x));
+      css.set('top', px(box.y - parentBox.y));
+    }
+    if (box) {
+      css.set('width', px(box.width));
+      css.set('height', px(box.height));
+    }
+    return css;
+  }
+
+  const flow = parent?.layoutMode === 'HORIZONTAL' || parent?.layoutMode === 'VERTICAL' ? parent.layoutMode : undefined;
+  for (const axis of ['horizontal', 'vertical'] as const) {
+    const mainAxis = flow !== undefined && (flow === 'HORIZONTAL') === (axis === 'horizontal');
+    const sizing = (axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical)
+      || legacySizing(node, flow !== undefined, mainAxis);
+    const dimension = axis === 'horizontal' ? 'width' : 'height';
+
+    if (sizing === 'FILL' && flow) {
+      if (mainAxis) {
+        css.set('flex', '1 1 0');
+      } else {
+        css.set('align-self', 'stretch');
+      }
+    } else if (sizing === 'FILL' && parent) {
+      css.set(dimension, '100%');
+    } else if (sizing === 'FIXED' && box) {
+      css.set(dimension, px(axis === 'horizontal' ? box.width : box.height));
+    }
+  }
+
+  return css;
+}
+
+/**
+ * Sizing for files saved before layoutSizing* existed
+ */
+function legacySizing(node: FigmaNode, inFlow: boolean, mainAxis: boolean): string {
+  if (inFlow && mainAxis && node.layoutGrow === 1) {
+    return 'FILL';
+  }
+  if (inFlow && !mainAxis && node.layoutAlign === 'STRETCH') {
+    return 'FILL';
+  }
+  return node.type === 'TEXT' || node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL' ? 'HUG' : 'FIXED';
+}
+
+function isPositioned(node: FigmaNode, parent: FigmaNode): boolean {
+  return node.layoutPositioning === 'ABSOLUTE' || !parent.layoutMode || parent.layoutMode === 'NONE';
+}
+
+function semanticTag(node: FigmaNode, inline: boolean): string {
+  if (node.type === 'TEXT') {
+    if (inline) {
+      return 'span';
+    }
+    const size = node.style?.fontSize || 0;
+    return size >= 32 ? 'h1' : size >= 24 ? 'h2' : size >= 20 ? 'h3' : 'p';
+  }
+  if (node.fills?.some(fill => fill.type === 'IMAGE' && fill.visible !== false) && !node.children?.length) {
+    return 'img';
+  }
+
+  const words = splitWords(node.name).map(word => word.toLowerCase());
+  for (const [pattern, tag] of SEMANTIC_NAMES) {
+    // Interactive elements can't nest
+    if (words.some(word => pattern.test(word)) && !(inline && INLINE_PARENTS.has(tag))) {
+      return tag;
+    }
+  }
+  return inline ? 'span' : 'div';
+}
+
+function applyStyles(element: Element, node: FigmaNode, state: CodegenState): void {
+  if (element.css.size === 0) {
+    return;
+  }
+
+  if (state.options.styling === 'tailwind') {
+    element.attributes.unshift([classAttribute(state), tailwindClasses(element.css).join(' ')]);
+    return;
+  }
+
+  const base = formatTokenName([node.name], 'kebab') || node.type.toLowerCase();
+  const prefix = /^[a-z]/.test(base) ? base : `node-${base}`;
+  let className = prefix;
+  for (let n = 2; state.classNames.has(className); n++) {
+    className = `${prefix}-${n}`;
+  }
+  state.classNames.add(className);
+  element.attributes.unshift([classAttribute(state), className]);
+  state.rules.push([
+    `.${className} {`,
+    ...[...element.css].map(([property, value]) => `  ${property}: ${value};`),
+    '}',
+  ].join('\n'));
+}
+
+function classAttribute(state: CodegenState): string {
+  return state.options.format === 'jsx' ? 'className' : 'class';
+}
+
+function tailwindClasses(css: Map<string, string>): string[] {
+  const classes: string[] = [];
+
+  for (const [property, value] of css) {
+    const fixed = TAILWIND_STATIC[`${property}: ${value}`];
+    const literalPrefix = TAILWIND_LITERAL_PREFIXES[property];
+    if (fixed) {
+      classes.push(fixed);
+    } else if (property === 'padding') {
+      const [top, right = top, bottom = top, left = right] = value.split(' ');
+      if (top === bottom && right === left) {
+        classes.push(...(top === right ? [`p-[${top}]`] : [`py-[${top}]`, `px-[${right}]`]));
+      } else {
+        classes.push(`pt-[${top}]`, `pr-[${right}]`, `pb-[${bottom}]`, `pl-[${left}]`);
+      }
+    } else if (TAILWIND_PREFIXES[property]) {
+      classes.push(`${TAILWIND_PREFIXES[property]}-[${arbitrary(value)}]`);
+    } else if (literalPrefix && !value.includes('var(')) {
+      classes.push(`${literalPrefix}-[${arbitrary(value)}]`);
+    } else {
+      classes.push(`[${property}:${arbitrary(value)}]`);
+    }
+  }
+
+  return classes;
+}
+
+/**
+ * Tailwind arbitrary values can't contain spaces, and class attributes are double-quoted
+ */
+function arbitrary(value: string): string {
+  return value.replace(/\s*,\s*/g, ',').replace(/\s+/g, '_').replace(/"/g, "'");
+}
+
+function serialize(element: Element | string, depth: number, state: CodegenState): string[] {
+  const indent = '  '.repeat(depth);
+  if (typeof element === 'string') {
+    return [`${indent}${element}`];
+  }
+
+  const attributes = element.attributes.map(([name, value]) => formatAttribute(name, value, state.options.format)).join('');
+  const open = `<${element.tag}${attributes}`;
+
+  if (element.children.length === 0) {
+    if (state.options.format === 'jsx') {
+      return [`${indent}${open} />`];
+    }
+    return [VOID_TAGS.has(element.tag) ? `${indent}${open}>` : `${indent}${open}></${element.tag}>`];
+  }
+  if (element.children.length === 1 && typeof element.children[0] === 'string') {
+    const line = `${indent}${open}>${element.children[0]}</${element.tag}>`;
+    if (line.length <= 100) {
+      return [line];
+    }
+  }
+
+  return [
+    `${indent}${open}>`,
+    ...element.children.flatMap(child => serialize(child, depth + 1, state)),
+    `${indent}</${element.tag}>`,
+  ];
+}
+
+function formatAttribute(name: string, value: string | boolean, format: CodegenFormat): string {
+  if (typeof value === 'boolean') {
+    if (format === 'html') {
+      return value ? ` ${name}` : '';
+    }
+    return value ? ` ${name}` : ` ${name}={false}`;
+  }
+  if (format === 'jsx' && /["{}]/.test(value)) {
+    return ` ${name}={${JSON.stringify(value)}}`;
+  }
+  return ` ${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`;
+}
+
+function escapeText(text: string, format: CodegenFormat): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return format === 'jsx' ? escaped.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;') : escaped;
+}
+
+/**
+ * true/false for toggle-like variant options, undefined for anything else
+ */
+function toggleValue(option: string): boolean | undefined {
+  const lower = option.toLowerCase();
+  if (['true', 'yes', 'on'].includes(lower)) {
+    return true;
+  }
+  if (['false', 'no', 'off'].includes(lower)) {
+    return false;
+  }
+  return undefined;
+}
+
+function px(value: number): string {
+  return value === 0 ? '0' : `${round(value)}px`;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,324 @@
+import { FigmaFill, FigmaNode } from '../types/figma.js';
+import { ResolvedToken, TypographyTokenValue } from '../types/tokens.js';
+import { figmaColorToHex, round } from './color-utils.js';
+import { effectsToCss, fillsToCss, paintToCss } from './css-paint.js';
+import { lineHeightRatio } from './design-tokens.js';
+import { formatTokenName, quoteFontFamily, typographyProperties } from './token-formatters.js';
+
+// Resolved tokens indexed for matching, plus what matching has used and missed so far
+export interface StyleTokenIndex {
+  byStyleId: Map<string, ResolvedToken>;
+  byVariableId: Map<string, ResolvedToken>;
+  colors: Map<string, ResolvedToken>;
+  dimensions: ResolvedToken[];
+  // CSS custom properties referenced, named as the css token format emits them
+  used: Set<string>;
+  // `property: value` literals no token matched
+  untokenized: Set<string>;
+  // Paints and effects the CSS leaves out, described for the caller
+  omitted: Set<string>;
+}
+
+const SPACING_TOKEN = /spac|gap|padding|inset|gutter/i;
+const RADIUS_TOKEN = /radius|radii|corner|round/i;
+
+const AXIS_ALIGNMENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline',
+};
+
+/**
+ * Index resolved tokens by the style, variable and value they can be matched on
+ */
+export function createStyleTokenIndex(tokens: ResolvedToken[]): StyleTokenIndex {
+  const index: StyleTokenIndex = {
+    byStyleId: new Map(),
+    byVariableId: new Map(),
+    colors: new Map(),
+    dimensions: [],
+    used: new Set(),
+    untokenized: new Set(),
+    omitted: new Set(),
+  };
+
+  for (const token of tokens) {
+    if (token.styleId) {
+      index.byStyleId.set(token.styleId, token);
+    }
+    if (token.variableId) {
+      index.byVariableId.set(token.variableId, token);
+    }
+    if (token.type === 'color' && typeof token.value === 'string' && !index.colors.has(token.value.toLowerCase())) {
+      index.colors.set(token.value.toLowerCase(), token);
+    }
+    if ((token.type === 'number' || token.type === 'dimension') && tokenPx(token) !== undefined) {
+      index.dimensions.push(token);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * CSS for a node's own box: auto layout, padding, fills, stroke, corner radius, shadows, blurs and
+ * opacity. Values reference design tokens when a style, bound variable or equal token value matches
+ */
+export function boxDeclarations(node: FigmaNode, index: StyleTokenIndex): Map<string, string> {
+  const css = new Map<string, string>();
+
+  if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+    css.set('display', 'flex');
+    if (node.layoutMode === 'VERTICAL') {
+      css.set('flex-direction', 'column');
+    }
+    const justify = AXIS_ALIGNMENT[node.primaryAxisAlignItems || ''];
+    if (justify && justify !== 'flex-start') {
+      css.set('justify-content', justify);
+    }
+    const align = AXIS_ALIGNMENT[node.counterAxisAlignItems || ''];
+    if (align && align !== 'flex-start') {
+      css.set('align-items', align);
+    }
+    if (node.itemSpacing) {
+      css.set('gap', dimensionValue(node, 'itemSpacing', node.itemSpacing, SPACING_TOKEN, 'gap', index));
+    }
+  }
+
+  const sides = ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'] as const;
+  if (sides.some(side => node[side])) {
+    css.set('padding', shorthand(sides.map(side => dimensionValue(node, side, node[side] || 0, SPACING_TOKEN, 'padding', index))));
+  }
+
+  backgroundDeclarations(node, css, index);
+
+  const border = node.strokeWeight ? paintValue(node, 'stroke', 'border-color', index) : undefined;
+  if (border) {
+    css.set('border', `${round(node.strokeWeight as number)}px solid ${border}`);
+  }
+
+  const radii = node.rectangleCornerRadii;
+  if (radii && radii.some(radius => radius !== radii[0])) {
+    css.set('border-radius', shorthand(radii.map(radius => dimensionValue(node, '', radius, RADIUS_TOKEN, 'border-radius', index))));
+  } else if (node.cornerRadius) {
+    css.set('border-radius', dimensionValue(node, 'topLeftRadius', node.cornerRadius, RADIUS_TOKEN, 'border-radius', index));
+  }
+
+  const shadow = shadowValue(node, index);
+  if (shadow) {
+    css.set('box-shadow', shadow);
+  }
+  blurDeclarations(node, css, index);
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    css.set('opacity', String(round(node.opacity)));
+  }
+
+  return css;
+}
+
+/**
+ * CSS for a text layer: its type style (or the typography token it uses) and color
+ */
+export function textDeclarations(text: FigmaNode, index: StyleTokenIndex): Map<string, string> {
+  const css = new Map<string, string>();
+  typographyDeclarations(text, css, index);
+  const color = paintValue(text, 'fill', 'color', index);
+  if (color) {
+    css.set('color', color);
+  }
+  return css;
+}
+
+/**
+ * First visible text layer of a node, not descending into nested instances
+ */
+export function firstTextNode(root: FigmaNode): FigmaNode | undefined {
+  const stack: FigmaNode[] = [...(root.children || [])].reverse();
+  while (stack.length > 0) {
+    const node = stack.pop() as FigmaNode;
+    if (node.type === 'TEXT' && node.visible !== false) {
+      return node;
+    }
+    // Nested instances style their own text
+    if (node.children && node.type !== 'INSTANCE') {
+      stack.push(...[...node.children].reverse());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A single solid fill can use a color token; stacked, blended and gradient fills become literal
+ * background layers. Image fills have no URL until their image is exported, so they are left out
+ */
+function backgroundDeclarations(node: FigmaNode, css: Map<string, string>, index: StyleTokenIndex): void {
+  const paints = ((node.fills || []) as FigmaFill[]).filter(paint => paint.visible !== false);
+  if (paints.length === 0) {
+    return;
+  }
+
+  const style = index.byStyleId.get(node.styles?.fill || node.styles?.fills || '');
+  if (style || (paints.length === 1 && paints[0].type === 'SOLID')) {
+    const background = paintValue(node, 'fill', 'background', index);
+    if (background) {
+      css.set('background', background);
+    }
+    return;
+  }
+
+  for (const paint of paints) {
+    if (!paintToCss(paint, node.absoluteBoundingBox)) {
+      omit(node, `${paint.type.toLowerCase()} fill${paint.imageRef ? ` ${paint.imageRef}` : ''}`, index);
+    }
+  }
+  const layers = fillsToCss(paints, node.absoluteBoundingBox);
+  if (layers.background) {
+    css.set('background', literal('background', layers.background, index));
+  }
+  if (layers['background-blend-mode']) {
+    css.set('background-blend-mode', layers['background-blend-mode']);
+  }
+}
+
+/**
+ * Token or literal for the top visible paint, for properties that take a single color
+ */
+function paintValue(node: FigmaNode, kind: 'fill' | 'stroke', property: string, index: StyleTokenIndex): string | undefined {
+  const paints = (((kind === 'fill' ? node.fills : node.strokes) || []) as FigmaFill[]).filter(candidate => candidate.visible !== false);
+  const paint = paints.pop();
+  if (!paint) {
+    return undefined;
+  }
+
+  const style = index.byStyleId.get(node.styles?.[kind] || node.styles?.[`${kind}s`] || '');
+  if (style) {
+    return reference(style, index);
+  }
+  if (paints.length > 0) {
+    omit(node, `${paints.length} lower ${kind}${paints.length > 1 ? 's' : ''}; ${property} takes only the top one`, index);
+  }
+  // Only background layers can hold gradients; other paints without a style are left for the developer
+  if (paint.type !== 'SOLID' || !paint.color) {
+    const gradient = property === 'background' ? paintToCss(paint, node.absoluteBoundingBox) : undefined;
+    if (!gradient) {
+      omit(node, `${paint.type.toLowerCase()} ${kind}`, index);
+    }
+    return gradient ? literal(property, gradient, index) : undefined;
+  }
+
+  const variable = paint.boundVariables?.color && index.byVariableId.get(paint.boundVariables.color.id);
+  if (variable) {
+    return reference(variable, index);
+  }
+  const hex = figmaColorToHex(paint.color, paint.opacity ?? 1);
+  const token = index.colors.get(hex);
+  return token ? reference(token, index) : literal(property, hex, index);
+}
+
+function dimensionValue(
+  node: FigmaNode,
+  field: string,
+  px: number,
+  pattern: RegExp,
+  property: string,
+  index: StyleTokenIndex
+): string {
+  const alias = node.boundVariables?.[field];
+  const token = (alias && !Array.isArray(alias) ? index.byVariableId.get(alias.id) : undefined)
+    || index.dimensions.find(candidate => pattern.test(candidate.path.join('/')) && tokenPx(candidate) === round(px));
+  if (token) {
+    // Number variables are exported unitless
+    return typeof token.value === 'number' ? `calc(${reference(token, index)} * 1px)` : reference(token, index);
+  }
+  return px === 0 ? '0' : literal(property, `${round(px)}px`, index);
+}
+
+function shadowValue(node: FigmaNode, index: StyleTokenIndex): string | undefined {
+  const shadows = (node.effects || []).filter(effect =>
+    effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'));
+  if (shadows.length === 0) {
+    return undefined;
+  }
+
+  const style = index.byStyleId.get(node.styles?.effect || '');
+  if (style?.type === 'shadow') {
+    return reference(style, index);
+  }
+  return literal('box-shadow', effectsToCss(shadows)['box-shadow'], index);
+}
+
+/**
+ * Layer blur as `filter` and background blur as `backdrop-filter`, using the effect style's token
+ * when it is a blur
+ */
+function blurDeclarations(node: FigmaNode, css: Map<string, string>, index: StyleTokenIndex): void {
+  const blurs = (node.effects || []).filter(effect => effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR');
+  const style = index.byStyleId.get(node.styles?.effect || '');
+  for (const [property, value] of Object.entries(effectsToCss(blurs))) {
+    css.set(property, style?.type === 'blur' ? reference(style, index) : literal(property, value, index));
+  }
+}
+
+function typographyDeclarations(text: FigmaNode, css: Map<string, string>, index: StyleTokenIndex): void {
+  const style = index.byStyleId.get(text.styles?.text || '');
+  if (style?.type === 'typography') {
+    // The css token format expands typography into one custom property per field
+    for (const [property] of typographyProperties(style.value as TypographyTokenValue)) {
+      const name = `--${formatTokenName([...style.path, property], 'kebab')}`;
+      index.used.add(name);
+      css.set(property, `var(${name})`);
+    }
+    return;
+  }
+
+  const type = text.style;
+  if (!type) {
+    return;
+  }
+  css.set('font-family', literal('font-family', quoteFontFamily(type.fontFamily), index));
+  css.set('font-weight', String(type.fontWeight));
+  css.set('font-size', literal('font-size', `${round(type.fontSize)}px`, index));
+  const lineHeight = lineHeightRatio(type);
+  if (lineHeight !== undefined) {
+    css.set('line-height', String(lineHeight));
+  }
+  if (type.letterSpacing) {
+    css.set('letter-spacing', `${round(type.letterSpacing)}px`);
+  }
+}
+
+function reference(token: ResolvedToken, index: StyleTokenIndex): string {
+  const name = `--${formatTokenName(token.path, 'kebab')}`;
+  index.used.add(name);
+  return `var(${name})`;
+}
+
+function literal(property: string, value: string, index: StyleTokenIndex): string {
+  index.untokenized.add(`${property}: ${value}`);
+  return value;
+}
+
+function omit(node: FigmaNode, description: string, index: StyleTokenIndex): void {
+  index.omitted.add(`${node.name}: ${description}`);
+}
+
+function tokenPx(token: ResolvedToken): number | undefined {
+  if (typeof token.value === 'number') {
+    return token.value;
+  }
+  const match = typeof token.value === 'string' ? token.value.match(/^(-?[\d.]+)px$/) : null;
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+function shorthand([top, right, bottom, left]: string[]): string {
+  if (top === right && right === bottom && bottom === left) {
+    return top;
+  }
+  if (top === bottom && right === left) {
+    return `${top} ${right}`;
+  }
+  return `${top} ${right} ${bottom} ${left}`;
+}
@@ -0,0 +1,435 @@
+import { FigmaBoundingBox, FigmaFill, FigmaNode, FigmaStyle } from '../types/figma.js';
+import { ResolvedToken } from '../types/tokens.js';
+import { round } from './color-utils.js';
+import { blendModeToCss, effectToCss, fillsToCss, PaintBox, paintToCss, strokeToCss } from './css-paint.js';
+import { formatTokenName, quoteFontFamily } from './token-formatters.js';
+
+// A spec value with the named style or variable it comes from
+export interface InspectedValue {
+  // CSS value as written in the design
+  value: string;
+  style?: string;
+  variable?: string;
+  // Custom property the export_design_tokens css format emits for the style or variable
+  token?: string;
+}
+
+export interface InspectedPaint extends InspectedValue {
+  type: string;
+  opacity?: number;
+  blend_mode?: string;
+}
+
+export interface SiblingSpacing {
+  id: string;
+  name: string;
+  distance: number;
+}
+
+export interface NodeInspection {
+  id: string;
+  name: string;
+  type: string;
+  dimensions?: { width: number; height: number; x: number; y: number };
+  spacing?: {
+    // Distance from each edge of the node to the same edge of its parent
+    parent?: { top: number; right: number; bottom: number; left: number };
+    // Closest non-overlapping sibling on each side
+    siblings: Partial<Record<'above' | 'below' | 'left' | 'right', SiblingSpacing>>;
+  };
+  layout?: {
+    direction: 'row' | 'column';
+    gap?: InspectedValue;
+    padding?: { top: InspectedValue; right: InspectedValue; bottom: InspectedValue; left: InspectedValue };
+    justify_content?: string;
+    align_items?: string;
+  };
+  sizing?: { horizontal?: string; vertical?: string };
+  typography?: {
+    style?: string;
+    token?: string;
+    font_family: InspectedValue;
+    font_weight: InspectedValue;
+    font_size: InspectedValue;
+    line_height?: InspectedValue;
+    letter_spacing?: InspectedValue;
+    text_align?: string;
+    text_transform?: string;
+    text_decoration?: string;
+  };
+  fills: InspectedPaint[];
+  strokes: Array<InspectedPaint & { weight: string; align?: string }>;
+  effects: Array<InspectedValue & { type: string; property: string }>;
+  corner_radius?: InspectedValue;
+  opacity?: number;
+  mix_blend_mode?: string;
+  // Ready-to-paste declarations, token references first with the design value in a comment
+  css: string;
+}
+
+export interface InspectOptions {
+  parent?: FigmaNode;
+  tokens: ResolvedToken[];
+  styles: Record<string, FigmaStyle>;
+}
+
+const AXIS_ALIGNMENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline',
+};
+
+const TEXT_TRANSFORMS: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+};
+
+const TEXT_DECORATIONS: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through',
+};
+
+/**
+ * Developer handoff specs for a single node: geometry, spacing to its parent and siblings,
+ * typography, paints, effects and radii as CSS, each annotated with its style or variable
+ */
+export function inspectNode(node: FigmaNode, options: InspectOptions): NodeInspection {
+  const byStyleId = new Map<string, ResolvedToken>();
+  const byVariableId = new Map<string, ResolvedToken>();
+  for (const token of options.tokens) {
+    if (token.styleId) {
+      byStyleId.set(token.styleId, token);
+    }
+    if (token.variableId) {
+      byVariableId.set(token.variableId, token);
+    }
+  }
+
+  const styleFor = (kind: string): Pick<InspectedValue, 'style' | 'token'> => {
+    const styleId = node.styles?.[kind] || node.styles?.[`${kind}s`];
+    const style = styleId ? options.styles[styleId] : undefined;
+    const token = styleId ? byStyleId.get(styleId) : undefined;
+    return {
+      ...(style ? { style: style.name } : {}),
+      ...(token ? { token: cssVariable(token.path) } : {}),
+    };
+  };
+  const variableFor = (id: string | undefined): Pick<InspectedValue, 'variable' | 'token'> => {
+    const token = id ? byVariableId.get(id) : undefined;
+    return token ? { variable: token.path.join('/'), token: cssVariable(token.path) } : {};
+  };
+  const dimension = (field: string, px: number): InspectedValue => {
+    const alias = node.boundVariables?.[field];
+    return { value: pxValue(px), ...variableFor(alias && !Array.isArray(alias) ? alias.id : undefined) };
+  };
+
+  const inspection: NodeInspection = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    fills: [],
+    strokes: [],
+    effects: [],
+    css: '',
+  };
+
+  const box = node.absoluteBoundingBox;
+  const parentBox = options.parent?.absoluteBoundingBox;
+  if (box) {
+    inspection.dimensions = {
+      width: round(box.width),
+      height: round(box.height),
+      x: round(box.x - (parentBox?.x ?? 0)),
+      y: round(box.y - (parentBox?.y ?? 0)),
+    };
+    inspection.spacing = {
+      ...(parentBox ? { parent: edgeDistances(box, parentBox) } : {}),
+      siblings: siblingSpacing(node, options.parent),
+    };
+  }
+
+  if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+    inspection.layout = {
+      direction: node.layoutMode === 'HORIZONTAL' ? 'row' : 'column',
+      ...(node.itemSpacing ? { gap: dimension('itemSpacing', node.itemSpacing) } : {}),
+      ...(['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'].some(side => node[side as keyof FigmaNode])
+        ? {
+          padding: {
+            top: dimension('paddingTop', node.paddingTop || 0),
+            right: dimension('paddingRight', node.paddingRight || 0),
+            bottom: dimension('paddingBottom', node.paddingBottom || 0),
+            left: dimension('paddingLeft', node.paddingLeft || 0),
+          },
+        }
+        : {}),
+      justify_content: AXIS_ALIGNMENT[node.primaryAxisAlignItems || 'MIN'],
+      align_items: AXIS_ALIGNMENT[node.counterAxisAlignItems || 'MIN'],
+    };
+  }
+  if (node.layoutSizingHorizontal || node.layoutSizingVertical) {
+    inspection.sizing = { horizontal: node.layoutSizingHorizontal, vertical: node.layoutSizingVertical };
+  }
+
+  if (node.type === 'TEXT' && node.style) {
+    const type = node.style;
+    const { style, token } = styleFor('text');
+    inspection.typography = {
+      ...(style ? { style } : {}),
+      ...(token ? { token } : {}),
+      font_family: { value: quoteFontFamily(type.fontFamily), ...variableFor(boundId(node, 'fontFamily')) },
+      font_weight: { value: String(type.fontWeight), ...variableFor(boundId(node, 'fontWeight')) },
+      font_size: { value: pxValue(type.fontSize), ...variableFor(boundId(node, 'fontSize')) },
+      ...(type.lineHeightPx ? { line_height: { value: pxValue(type.lineHeightPx), ...variableFor(boundId(node, 'lineHeight')) } } : {}),
+      ...(type.letterSpacing ? { letter_spacing: { value: pxValue(type.letterSpacing), ...variableFor(boundId(node, 'letterSpacing')) } } : {}),
+      ...(type.textAlignHorizontal && type.textAlignHorizontal !== 'LEFT' ? { text_align: type.textAlignHorizontal === 'JUSTIFIED' ? 'justify' : type.textAlignHorizontal.toLowerCase() } : {}),
+      ...(type.textCase && TEXT_TRANSFORMS[type.textCase] ? { text_transform: TEXT_TRANSFORMS[type.textCase] } : {}),
+      ...(type.textDecoration && TEXT_DECORATIONS[type.textDecoration] ? { text_decoration: TEXT_DECORATIONS[type.textDecoration] } : {}),
+    };
+  }
+
+  const paintBox = box ? { width: box.width, height: box.height } : undefined;
+  const fills = visiblePaints(node.fills);
+  inspection.fills = fills.map(paint => ({
+    ...inspectPaint(paint, paintBox),
+    ...(fills.length === 1 ? styleFor('fill') : {}),
+    ...variableFor(paint.boundVariables?.color?.id),
+  }));
+
+  const strokes = visiblePaints(node.strokes as FigmaFill[] | undefined);
+  if (node.strokeWeight) {
+    inspection.strokes = strokes.map(paint => ({
+      ...inspectPaint(paint, paintBox),
+      weight: pxValue(node.strokeWeight as number),
+      ...(node.strokeAlign ? { align: node.strokeAlign.toLowerCase() } : {}),
+      ...(strokes.length === 1 ? styleFor('stroke') : {}),
+      ...variableFor(paint.boundVariables?.color?.id),
+    }));
+  }
+
+  const effects = (node.effects || []).filter(effect => effect.visible !== false);
+  const effectStyle = styleFor('effect');
+  inspection.effects = effects.flatMap(effect => {
+    const css = effectToCss(effect, { text: node.type === 'TEXT' });
+    return css ? [{ type: effect.type, ...css, ...(effects.length === 1 ? effectStyle : {}) }] : [];
+  });
+
+  const radii = node.rectangleCornerRadii;
+  if (radii && radii.some(radius => radius !== radii[0])) {
+    inspection.corner_radius = { value: radii.map(pxValue).join(' ') };
+  } else if (node.cornerRadius) {
+    inspection.corner_radius = dimension('topLeftRadius', node.cornerRadius);
+  }
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    inspection.opacity = round(node.opacity);
+  }
+  inspection.mix_blend_mode = blendModeToCss(node.blendMode);
+
+  inspection.css = cssSnippet(inspection, { fills, strokes: node.strokeWeight ? strokes : [], box: paintBox, node }, effects.length > 1 ? effectStyle : {});
+
+  // Geometry and layout first, the way inspect panels read
+  const { fills: fillSpecs, strokes: strokeSpecs, effects: effectSpecs, corner_radius, opacity, mix_blend_mode, css, ...rest } = inspection;
+  return { ...rest, fills: fillSpecs, strokes: strokeSpecs, effects: effectSpecs, corner_radius, opacity, mix_blend_mode, css };
+}
+
+function inspectPaint(paint: FigmaFill, box: PaintBox | undefined): InspectedPaint {
+  const opacity = paint.opacity ?? 1;
+  const blendMode = blendModeToCss(paint.blendMode);
+  return {
+    type: paint.type,
+    // Image paints have no CSS value until their image is exported
+    value: paintToCss(paint, box) || '',
+    ...(opacity < 1 ? { opacity: round(opacity) } : {}),
+    ...(blendMode ? { blend_mode: blendMode } : {}),
+  };
+}
+
+function cssSnippet(
+  inspection: NodeInspection,
+  paints: { fills: FigmaFill[]; strokes: FigmaFill[]; box?: PaintBox; node: FigmaNode },
+  effectStyle: Pick<InspectedValue, 'style' | 'token'>
+): string {
+  const lines: string[] = [];
+  const declare = (property: string, value: InspectedValue | string) => {
+    if (typeof value === 'string') {
+      lines.push(`${property}: ${value};`);
+      return;
+    }
+    const note = [value.style || value.variable, value.token ? value.value : ''].filter(Boolean).join(', ');
+    lines.push(`${property}: ${value.token ? `var(${value.token})` : value.value};${note ? ` /* ${note} */` : ''}`);
+  };
+
+  const { dimensions, layout, typography } = inspection;
+  if (dimensions) {
+    declare('width', pxValue(dimensions.width));
+    declare('height', pxValue(dimensions.height));
+  }
+  if (layout) {
+    declare('display', 'flex');
+    declare('flex-direction', layout.direction);
+    if (layout.justify_content && layout.justify_content !== 'flex-start') {
+      declare('justify-content', layout.justify_content);
+    }
+    if (layout.align_items && layout.align_items !== 'flex-start') {
+      declare('align-items', layout.align_items);
+    }
+    if (layout.gap) {
+      declare('gap', layout.gap);
+    }
+    if (layout.padding) {
+      const { top, right, bottom, left } = layout.padding;
+      declare('padding', shorthand([top, right, bottom, left].map(side => side.token ? `var(${side.token})` : side.value)));
+    }
+  }
+
+  if (typography) {
+    if (typography.token) {
+      // The css token format expands a typography style into one custom property per field
+      for (const field of ['font-family', 'font-weight', 'font-size', 'line-height', 'letter-spacing']) {
+        if (field === 'line-height' && !typography.line_height) {
+          continue;
+        }
+        lines.push(`${field}: var(${typography.token}-${field});${field === 'font-family' && typography.style ? ` /* ${typography.style} */` : ''}`);
+      }
+    } else {
+      declare('font-family', typography.font_family);
+      declare('font-weight', typography.font_weight);
+      declare('font-size', typography.font_size);
+      if (typography.line_height) {
+        declare('line-height', typography.line_height);
+      }
+      if (typography.letter_spacing) {
+        declare('letter-spacing', typography.letter_spacing);
+      }
+    }
+    if (typography.text_align) {
+      declare('text-align', typography.text_align);
+    }
+    if (typography.text_transform) {
+      declare('text-transform', typography.text_transform);
+    }
+    if (typography.text_decoration) {
+      declare('text-decoration', typography.text_decoration);
+    }
+  }
+
+  const fills = inspection.fills.filter(paint => paint.value);
+  if (inspection.type === 'TEXT') {
+    // Text takes the top solid fill as its color
+    const color = fills.filter(paint => paint.type === 'SOLID').pop();
+    if (color) {
+      declare('color', color);
+    }
+  } else if (fills.length === 1 && fills[0].token) {
+    declare('background', fills[0]);
+  } else {
+    const style = fills.find(paint => paint.style)?.style;
+    Object.entries(fillsToCss(paints.fills, paints.box)).forEach(([property, value], index) =>
+      lines.push(`${property}: ${value};${index === 0 && style ? ` /* ${style} */` : ''}`));
+  }
+
+  // Figma draws the last stroke on top; CSS has a single border
+  const strokeIndex = inspection.strokes.map(paint => Boolean(paint.value)).lastIndexOf(true);
+  if (strokeIndex >= 0) {
+    const stroke = inspection.strokes[strokeIndex];
+    const css = strokeToCss(paints.strokes[strokeIndex], {
+      weight: paints.node.strokeWeight as number,
+      align: paints.node.strokeAlign,
+      box: paints.box,
+      color: stroke.token ? `var(${stroke.token})` : undefined,
+    });
+    const note = [stroke.style || stroke.variable, stroke.token ? stroke.value : ''].filter(Boolean).join(', ');
+    Object.entries(css).forEach(([property, value], index) =>
+      lines.push(`${property}: ${value};${index === 0 && note ? ` /* ${note} */` : ''}`));
+  }
+  if (inspection.corner_radius) {
+    declare('border-radius', inspection.corner_radius);
+  }
+
+  for (const property of ['box-shadow', 'text-shadow', 'filter', 'backdrop-filter']) {
+    const effects = inspection.effects.filter(effect => effect.property === property);
+    if (effects.length === 1) {
+      declare(property, effects[0]);
+    } else if (effects.length > 1) {
+      // Shadows are listed, filter functions chained
+      const value = effects.map(effect => effect.value).join(property.endsWith('shadow') ? ', ' : ' ');
+      declare(property, { ...(property.endsWith('shadow') ? effectStyle : {}), value });
+    }
+  }
+
+  if (inspection.opacity !== undefined) {
+    declare('opacity', String(inspection.opacity));
+  }
+  if (inspection.mix_blend_mode) {
+    declare('mix-blend-mode', inspection.mix_blend_mode);
+  }
+
+  return lines.join('\n');
+}
+
+function shorthand([top, right, bottom, left]: string[]): string {
+  if (top === right && right === bottom && bottom === left) {
+    return top;
+  }
+  if (top === bottom && right === left) {
+    return `${top} ${right}`;
+  }
+  return `${top} ${right} ${bottom} ${left}`;
+}
+
+function edgeDistances(box: FigmaBoundingBox, parent: FigmaBoundingBox) {
+  return {
+    top: round(box.y - parent.y),
+    right: round(parent.x + parent.width - (box.x + box.width)),
+    bottom: round(parent.y + parent.height - (box.y + box.height)),
+    left: round(box.x - parent.x),
+  };
+}
+
+function siblingSpacing(node: FigmaNode, parent: FigmaNode | undefined): NonNullable<NodeInspection['spacing']>['siblings'] {
+  const box = node.absoluteBoundingBox as FigmaBoundingBox;
+  const closest: NonNullable<NodeInspection['spacing']>['siblings'] = {};
+
+  for (const sibling of parent?.children || []) {
+    const other = sibling.absoluteBoundingBox;
+    if (sibling.id === node.id || sibling.visible === false || !other) {
+      continue;
+    }
+    const overlapsX = other.x < box.x + box.width && box.x < other.x + other.width;
+    const overlapsY = other.y < box.y + box.height && box.y < other.y + other.height;
+
+    const candidates: Array<[keyof typeof closest, number, boolean]> = [
+      ['above', box.y - (other.y + other.height), overlapsX],
+      ['below', other.y - (box.y + box.height), overlapsX],
+      ['left', box.x - (other.x + other.width), overlapsY],
+      ['right', other.x - (box.x + box.width), overlapsY],
+    ];
+    for (const [side, distance, aligned] of candidates) {
+      if (aligned && distance >= 0 && (closest[side] === undefined || distance < (closest[side] as SiblingSpacing).distance)) {
+        closest[side] = { id: sibling.id, name: sibling.name, distance: round(distance) };
+      }
+    }
+  }
+
+  return closest;
+}
+
+function visiblePaints(paints: FigmaFill[] | undefined): FigmaFill[] {
+  return (paints || []).filter(paint => paint.visible !== false);
+}
+
+function boundId(node: FigmaNode, field: string): string | undefined {
+  const alias = node.boundVariables?.[field];
+  return Array.isArray(alias) ? alias[0]?.id : alias?.id;
+}
+
+function cssVariable(path: string[]): string {
+  return `--${formatTokenName(path, 'kebab')}`;
+}
+
+function pxValue(value: number): string {
+  return value === 0 ? '0' : `${round(value)}px`;
+}
@@ -0,0 +1,465 @@
+import { ResolvedToken, ShadowTokenValue, TypographyTokenValue } from '../types/tokens.js';
+import { colorDistance, parseCssColor, RgbaColor } from './color-utils.js';
+import { tokenToCssValue } from './token-formatters.js';
+
+export type StyleIssueType =
+  | 'off_palette_color'
+  | 'near_miss_value'
+  | 'off_scale_value'
+  | 'unknown_font_family'
+  | 'untokenized_shadow'
+  | 'unused_figma_style';
+
+export interface StyleIssue {
+  type: StyleIssueType;
+  severity: 'low' | 'medium' | 'high';
+  issue: string;
+  file?: string;
+  line?: number;
+  property?: string;
+  code_value?: string;
+  nearest_token?: string;
+  figma_value?: string;
+  figma_style?: string;
+}
+
+export interface StyleConsistencyReport {
+  total_styles: number;
+  consistent_styles: number;
+  files_scanned: number;
+  values_checked: number;
+  matched_values: number;
+  issues: StyleIssue[];
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+// Colors closer than this (0-255 RGB distance) are treated as near misses rather than off-palette
+const NEAR_MISS_COLOR_DISTANCE = 16;
+const NEAR_MISS_PX = 2;
+const ROOT_FONT_SIZE = 16;
+
+const GENERIC_FONT_FAMILIES = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif',
+  'ui-monospace', '-apple-system', 'blinkmacsystemfont', 'inherit', 'initial', 'unset', 'emoji', 'math',
+]);
+
+const COLOR_PATTERN = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})\b|(?:rgba?|hsla?)\([^)]*\)/g;
+
+// Short hex colors are also words (`#add`, `#bad`, `#face`), so they only count after a color
+// property (CSS, camelCase or JSX/SVG attribute), a custom property or Sass/Less variable, or in
+// a Tailwind arbitrary value
+const SHORT_HEX_COLOR = /^#[0-9a-fA-F]{3,4}$/;
+const SHORT_HEX_CONTEXT = /(?:(?:color|background|fill|stroke|border|outline|shadow|caret|accent|decoration|rule)[\w-]*\s*[:=]\s*\{?\s*['"`]?[^;'"`{}]*|(?:--|\$|@)[\w-]+\s*:\s*[^;]*|-\[)$/i;
+
+// Gradient and blur values, looked up only to tell which gradient and blur styles the code uses
+const GRADIENT_PATTERN = /\b(?:linear|radial|conic)-gradient\((?:[^()]|\([^()]*\))*\)/g;
+const BLUR_PATTERN = /\bblur\(\s*([^)]+)\)/g;
+
+// CSS and camelCase (styled-components objects, inline styles) spellings of the checked properties
+const PROPERTY_PATTERNS: Array<{ property: string; pattern: RegExp }> = [
+  { property: 'font-size', pattern: /\b(?:font-size|fontSize)\s*:\s*['"`]?([^;,'"`}\n]+)/g },
+  { property: 'font-family', pattern: /\b(?:font-family|fontFamily)\s*:\s*([^;}\n]+)/g },
+  { property: 'line-height', pattern: /\b(?:line-height|lineHeight)\s*:\s*['"`]?([^;,'"`}\n]+)/g },
+  { property: 'border-radius', pattern: /\b(?:border-radius|borderRadius)\s*:\s*['"`]?([^;,'"`}\n]+)/g },
+  { property: 'box-shadow', pattern: /\b(?:box-shadow|boxShadow)\s*:\s*['"`]?([^;'"`}\n]+)/g },
+];
+
+interface TokenIndex {
+  colors: Array<{ token: ResolvedToken; color: RgbaColor }>;
+  fontSizes: Array<{ token: ResolvedToken; px: number }>;
+  lineHeights: Array<{ token: ResolvedToken; ratio: number; px: number }>;
+  fontFamilies: Map<string, ResolvedToken[]>;
+  radii: Array<{ token: ResolvedToken; px: number }>;
+  shadows: Array<{ token: ResolvedToken; css: string }>;
+  gradients: Array<{ token: ResolvedToken; css: string }>;
+  blurs: Array<{ token: ResolvedToken; px: number }>;
+}
+
+/**
+ * Compare hard-coded style values in source files against a file's resolved design tokens
+ */
+export function findStyleInconsistencies(tokens: ResolvedToken[], files: SourceFile[]): StyleConsistencyReport {
+  const index = indexTokens(tokens);
+  const usedTokens = new Set<ResolvedToken>();
+  const report: StyleConsistencyReport = {
+    total_styles: 0,
+    consistent_styles: 0,
+    files_scanned: files.length,
+    values_checked: 0,
+    matched_values: 0,
+    issues: [],
+  };
+
+  for (const file of files) {
+    file.content.split('\n').forEach((text, i) => {
+      const trimmed = text.trim();
+      if (trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*')) {
+        return;
+      }
+
+      const location = { file: file.path, line: i + 1 };
+      const shadowSpans: Array<[number, number]> = [];
+
+      for (const { property, pattern } of PROPERTY_PATTERNS) {
+        pattern.lastIndex = 0;
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+          const value = match[1].trim();
+          if (isReference(property, value)) {
+            continue;
+          }
+          if (property === 'box-shadow') {
+            shadowSpans.push([match.index, match.index + match[0].length]);
+          }
+          report.values_checked++;
+          const issue = checkProperty(property, value, index, usedTokens);
+          if (issue) {
+            report.issues.push({ ...location, property, code_value: value, ...issue });
+          } else {
+            report.matched_values++;
+          }
+        }
+      }
+
+      COLOR_PATTERN.lastIndex = 0;
+      let colorMatch;
+      while ((colorMatch = COLOR_PATTERN.exec(text)) !== null) {
+        // Shadow colors are checked as part of the whole shadow value
+        const position = colorMatch.index;
+        if (shadowSpans.some(([start, end]) => position >= start && position < end)) {
+          continue;
+        }
+        if (SHORT_HEX_COLOR.test(colorMatch[0]) && !SHORT_HEX_CONTEXT.test(text.slice(0, position))) {
+          continue;
+        }
+        report.values_checked++;
+        const issue = checkColor(colorMatch[0], index, usedTokens);
+        if (issue) {
+          report.issues.push({ ...location, property: 'color', code_value: colorMatch[0], ...issue });
+        } else {
+          report.matched_values++;
+        }
+      }
+
+      markGradientsAndBlurs(text, index, usedTokens);
+    });
+  }
+
+  // Layout grids have no single CSS value to find in code, so they can't be reported as unused
+  const styleTokens = tokens.filter(token => token.styleId && token.type !== 'grid');
+  report.total_styles = styleTokens.length;
+  report.consistent_styles = styleTokens.filter(token => usedTokens.has(token)).length;
+
+  for (const token of styleTokens) {
+    if (!usedTokens.has(token)) {
+      report.issues.push({
+        type: 'unused_figma_style',
+        severity: 'low',
+        figma_style: token.path.join('/'),
+        figma_value: describeValue(token),
+        issue: `Figma style "${token.path.join('/')}" is not used anywhere in the scanned code`,
+      });
+    }
+  }
+
+  return report;
+}
+
+function indexTokens(tokens: ResolvedToken[]): TokenIndex {
+  const index: TokenIndex = {
+    colors: [], fontSizes: [], lineHeights: [], fontFamilies: new Map(), radii: [], shadows: [], gradients: [], blurs: [],
+  };
+
+  for (const token of tokens) {
+    if (token.value === null || token.value === undefined) {
+      continue;
+    }
+
+    if (token.type === 'color') {
+      const color = parseCssColor(String(token.value));
+      if (color) {
+        index.colors.push({ token, color });
+      }
+    } else if (token.type === 'typography') {
+      const type = token.value as TypographyTokenValue;
+      const px = parseFloat(type.fontSize);
+      index.fontSizes.push({ token, px });
+      if (type.lineHeight !== undefined) {
+        index.lineHeights.push({ token, ratio: type.lineHeight, px: type.lineHeight * px });
+      }
+      const family = type.fontFamily.toLowerCase();
+      index.fontFamilies.set(family, [...(index.fontFamilies.get(family) || []), token]);
+    } else if (token.type === 'shadow') {
+      index.shadows.push({ token, css: normalizeShadow(tokenToCssValue(token) || '') });
+    } else if (token.type === 'gradient') {
+      index.gradients.push({ token, css: normalizeGradient(tokenToCssValue(token) || '') });
+    } else if (token.type === 'blur') {
+      const px = toPx(tokenToCssValue(token)?.match(/blur\(([^)]+)\)/)?.[1] || '');
+      if (px !== null) {
+        index.blurs.push({ token, px });
+      }
+    } else if ((token.type === 'number' || token.type === 'dimension') && /radius|radii|corner|rounded/i.test(token.path.join('/'))) {
+      const px = toPx(String(token.value));
+      if (px !== null) {
+        index.radii.push({ token, px });
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Mark gradient and blur styles whose exact value appears on a line. Their colors are still checked
+ * one by one, and a gradient or blur that matches no style is not reported on its own
+ */
+function markGradientsAndBlurs(text: string, index: TokenIndex, used: Set<ResolvedToken>): void {
+  for (const match of text.matchAll(GRADIENT_PATTERN)) {
+    const css = normalizeGradient(match[0]);
+    index.gradients.filter(entry => entry.css === css).forEach(entry => used.add(entry.token));
+  }
+  for (const match of text.matchAll(BLUR_PATTERN)) {
+    const px = toPx(match[1]);
+    index.blurs.filter(entry => px !== null && Math.abs(entry.px - px) < 0.5).forEach(entry => used.add(entry.token));
+  }
+}
+
+function checkColor(value: string, index: TokenIndex, used: Set<ResolvedToken>): Omit<StyleIssue, 'file' | 'line'> | null {
+  const color = parseCssColor(value);
+  if (!color || index.colors.length === 0) {
+    return null;
+  }
+
+  const ranked = index.colors
+    .map(entry => ({ ...entry, distance: colorDistance(color, entry.color) }))
+    .sort((a, b) => a.distance - b.distance);
+  const nearest = ranked[0];
+
+  if (nearest.distance < 1) {
+    // Several styles (or aliases) can share one value; all of them count as used
+    ranked.filter(entry => entry.distance < 1).forEach(entry => used.add(entry.token));
+    return null;
+  }
+
+  const tokenName = nearest.token.path.join('.');
+  if (nearest.distance <= NEAR_MISS_COLOR_DISTANCE) {
+    return {
+      type: 'near_miss_value',
+      severity: 'medium',
+      nearest_token: tokenName,
+      figma_value: String(nearest.token.value),
+      issue: `Color ${value} is close to but not exactly ${tokenName} (${nearest.token.value})`,
+    };
+  }
+
+  return {
+    type: 'off_palette_color',
+    severity: 'high',
+    nearest_token: tokenName,
+    figma_value: String(nearest.token.value),
+    issue: `Color ${value} is not in the Figma palette; nearest is ${tokenName} (${nearest.token.value})`,
+  };
+}
+
+function checkProperty(
+  property: string,
+  value: string,
+  index: TokenIndex,
+  used: Set<ResolvedToken>
+): Omit<StyleIssue, 'file' | 'line' | 'property' | 'code_value'> | null {
+  switch (property) {
+    case 'font-size': {
+      const px = toPx(value);
+      return px === null ? null : checkScale(px, index.fontSizes, 'font size', used);
+    }
+    case 'line-height': {
+      if (/^[\d.]+$/.test(value)) {
+        return checkLineHeightRatio(parseFloat(value), index, used);
+      }
+      const px = toPx(value);
+      return px === null ? null : checkScale(px, index.lineHeights, 'line height', used);
+    }
+    case 'border-radius': {
+      const px = toPx(value.split(/\s+/)[0]);
+      return px === null || px === 0 ? null : checkScale(px, index.radii, 'radius', used);
+    }
+    case 'font-family': {
+      const family = value.split(',')[0].trim().replace(/^['"`]|['"`]$/g, '').toLowerCase();
+      if (!family || GENERIC_FONT_FAMILIES.has(family) || index.fontFamilies.size === 0) {
+        return null;
+      }
+      const tokens = index.fontFamilies.get(family);
+      if (tokens) {
+        tokens.forEach(token => used.add(token));
+        return null;
+      }
+      return {
+        type: 'unknown_font_family',
+        severity: 'high',
+        figma_value: [...index.fontFamilies.keys()].join(', '),
+        issue: `Font family "${family}" is not used by any Figma text style`,
+      };
+    }
+    case 'box-shadow': {
+      if (index.shadows.length === 0 || value === 'none') {
+        return null;
+      }
+      const normalized = normalizeShadow(value);
+      const match = index.shadows.find(entry => entry.css === normalized);
+      if (match) {
+        used.add(match.token);
+        return null;
+      }
+      return {
+        type: 'untokenized_shadow',
+        severity: 'medium',
+        nearest_token: index.shadows[0].token.path.join('.'),
+        figma_value: index.shadows.map(entry => entry.token.path.join('.')).join(', '),
+        issue: `Shadow "${value}" does not match any Figma effect style`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function checkLineHeightRatio(
+  ratio: number,
+  index: TokenIndex,
+  used: Set<ResolvedToken>
+): Omit<StyleIssue, 'file' | 'line' | 'property' | 'code_value'> | null {
+  if (index.lineHeights.length === 0) {
+    return null;
+  }
+
+  const exact = index.lineHeights.filter(entry => Math.abs(entry.ratio - ratio) < 0.01);
+  if (exact.length > 0) {
+    exact.forEach(entry => used.add(entry.token));
+    return null;
+  }
+
+  const nearest = [...index.lineHeights].sort((a, b) => Math.abs(a.ratio - ratio) - Math.abs(b.ratio - ratio))[0];
+  const tokenName = nearest.token.path.join('.');
+  const nearMiss = Math.abs(nearest.ratio - ratio) <= 0.05;
+  return {
+    type: nearMiss ? 'near_miss_value' : 'off_scale_value',
+    severity: nearMiss ? 'medium' : 'low',
+    nearest_token: tokenName,
+    figma_value: String(nearest.ratio),
+    issue: nearMiss
+      ? `Line height ${ratio} is close to but not exactly ${tokenName} (${nearest.ratio})`
+      : `Line height ${ratio} is not on the Figma scale; nearest is ${tokenName} (${nearest.ratio})`,
+  };
+}
+
+function checkScale(
+  px: number,
+  scale: Array<{ token: ResolvedToken; px: number }>,
+  label: string,
+  used: Set<ResolvedToken>
+): Omit<StyleIssue, 'file' | 'line' | 'property' | 'code_value'> | null {
+  if (scale.length === 0) {
+    return null;
+  }
+
+  const exact = scale.filter(entry => Math.abs(entry.px - px) < 0.01);
+  if (exact.length > 0) {
+    exact.forEach(entry => used.add(entry.token));
+    return null;
+  }
+
+  const nearest = [...scale].sort((a, b) => Math.abs(a.px - px) - Math.abs(b.px - px))[0];
+  const tokenName = nearest.token.path.join('.');
+  if (Math.abs(nearest.px - px) <= NEAR_MISS_PX) {
+    return {
+      type: 'near_miss_value',
+      severity: 'medium',
+      nearest_token: tokenName,
+      figma_value: `${nearest.px}px`,
+      issue: `${capitalize(label)} ${px}px is close to but not exactly ${tokenName} (${nearest.px}px)`,
+    };
+  }
+
+  return {
+    type: 'off_scale_value',
+    severity: 'low',
+    nearest_token: tokenName,
+    figma_value: `${nearest.px}px`,
+    issue: `${capitalize(label)} ${px}px is not on the Figma scale; nearest is ${tokenName} (${nearest.px}px)`,
+  };
+}
+
+/**
+ * Values that already reference a token, variable or prop aren't hard-coded
+ */
+function isReference(property: string, value: string): boolean {
+  if (/var\(|\$[\w-]|\$\{|theme\.|tokens\./.test(value)) {
+    return true;
+  }
+  // Bare identifiers like `sizes.md` or `inherit`; font families are plain words too, so keep those
+  return property !== 'font-family' && /^[a-zA-Z_][\w.-]*$/.test(value);
+}
+
+function toPx(value: string): number | null {
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+  if (!match) {
+    return null;
+  }
+  const amount = parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? amount * ROOT_FONT_SIZE : amount;
+}
+
+/**
+ * Canonical form of a box-shadow list: lengths in px with blur/spread defaulted, colors as rgba()
+ */
+function normalizeShadow(value: string): string {
+  return value
+    .toLowerCase()
+    .split(/,(?![^(]*\))/)
+    .map(layer => {
+      const colorMatch = layer.match(/#[0-9a-f]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)/);
+      const parsed = colorMatch ? parseCssColor(colorMatch[0]) : null;
+      const color = parsed ? `rgba(${parsed.r},${parsed.g},${parsed.b},${Math.round(parsed.a * 100) / 100})` : '';
+      const lengths = layer
+        .replace(colorMatch?.[0] || '', '')
+        .split(/\s+/)
+        .map(part => toPx(part))
+        .filter((px): px is number => px !== null);
+      const [x = 0, y = 0, blur = 0, spread = 0] = lengths;
+      return `${/\binset\b/.test(layer) ? 'inset ' : ''}${x} ${y} ${blur} ${spread} ${color}`.trim();
+    })
+    .join(', ');
+}
+
+/**
+ * Canonical form of a CSS gradient: colors as rgba(), no whitespace, lower case
+ */
+function normalizeGradient(value: string): string {
+  return value
+    .replace(/#[0-9a-fA-F]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)/g, color => {
+      const parsed = parseCssColor(color);
+      return parsed ? `rgba(${parsed.r},${parsed.g},${parsed.b},${Math.round(parsed.a * 100) / 100})` : color;
+    })
+    .replace(/\s+/g, '')
+    .toLowerCase();
+}
+
+function describeValue(token: ResolvedToken): string {
+  if (token.type === 'typography') {
+    const type = token.value as TypographyTokenValue;
+    return `${type.fontFamily} ${type.fontWeight} ${type.fontSize}${type.lineHeight === undefined ? '' : `/${type.lineHeight}`}`;
+  }
+  if (token.type === 'shadow') {
+    const shadows = (Array.isArray(token.value) ? token.value : [token.value]) as ShadowTokenValue[];
+    return shadows.map(shadow => `${shadow.offsetX} ${shadow.offsetY} ${shadow.blur} ${shadow.color}`).join(', ');
+  }
+  return typeof token.value === 'object' ? JSON.stringify(token.value) : String(token.value);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
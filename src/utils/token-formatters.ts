@@ -0,0 +1,291 @@
+import { DesignTokenTree, GradientStopTokenValue, ResolvedToken, ShadowTokenValue, TypographyTokenValue } from '../types/tokens.js';
+
+export type TokenNaming = 'kebab' | 'camel' | 'snake';
+
+export interface TokenFormatOptions {
+  naming: TokenNaming;
+  prefix?: string;
+}
+
+export interface TokenFormatterInput {
+  tokens: ResolvedToken[];
+  tree: DesignTokenTree;
+}
+
+export interface TokenFormatter {
+  fileName: string;
+  format(input: TokenFormatterInput, options: TokenFormatOptions): string;
+}
+
+const formatters = new Map<string, TokenFormatter>();
+
+// CSS properties a typography token expands into
+const TYPOGRAPHY_PROPERTIES: Array<[string, (value: TypographyTokenValue) => string | undefined]> = [
+  ['font-family', value => quoteFontFamily(value.fontFamily)],
+  ['font-weight', value => String(value.fontWeight)],
+  ['font-size', value => value.fontSize],
+  ['line-height', value => (value.lineHeight === undefined ? undefined : String(value.lineHeight))],
+  ['letter-spacing', value => value.letterSpacing],
+];
+
+/**
+ * Register a token formatter under a format name, replacing any existing one
+ */
+export function registerTokenFormatter(name: string, formatter: TokenFormatter): void {
+  formatters.set(name, formatter);
+}
+
+export function getTokenFormatter(name: string): TokenFormatter | undefined {
+  return formatters.get(name);
+}
+
+export function listTokenFormats(): string[] {
+  return [...formatters.keys()];
+}
+
+/**
+ * Split a token path segment into words on spaces, punctuation and camelCase boundaries
+ */
+export function splitWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Join path segments into one identifier using the naming convention
+ */
+export function formatTokenName(segments: string[], naming: TokenNaming): string {
+  const words = segments.flatMap(splitWords);
+  switch (naming) {
+    case 'camel': {
+      const [first = '', ...rest] = words.map(word => word.toLowerCase());
+      return first + rest.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    }
+    case 'snake':
+      return words.map(word => word.toLowerCase()).join('_');
+    default:
+      return words.map(word => word.toLowerCase()).join('-');
+  }
+}
+
+/**
+ * Render a resolved token value as a CSS value string, or undefined when CSS can't express it
+ */
+export function tokenToCssValue(token: ResolvedToken): string | undefined {
+  const value = token.value;
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (token.css && !token.alias) {
+    return token.css;
+  }
+
+  switch (token.type) {
+    case 'shadow':
+      return (Array.isArray(value) ? value : [value])
+        .map((shadow: ShadowTokenValue) =>
+          `${shadow.inset ? 'inset ' : ''}${shadow.offsetX} ${shadow.offsetY} ${shadow.blur} ${shadow.spread} ${shadow.color}`)
+        .join(', ');
+    case 'gradient':
+      return `linear-gradient(${(value as GradientStopTokenValue[])
+        .map(stop => `${stop.color} ${Math.round(stop.position * 10000) / 100}%`)
+        .join(', ')})`;
+    case 'typography': {
+      const type = value as TypographyTokenValue;
+      const lineHeight = type.lineHeight === undefined ? '' : `/${type.lineHeight}`;
+      return `${type.fontWeight} ${type.fontSize}${lineHeight} ${quoteFontFamily(type.fontFamily)}`;
+    }
+    case 'blur':
+      return `blur(${value})`;
+    case 'grid':
+      return undefined;
+    default:
+      return typeof value === 'object' ? undefined : String(value);
+  }
+}
+
+/**
+ * Quote a font family name for CSS unless it is a bare identifier
+ */
+export function quoteFontFamily(family: string): string {
+  return /^[a-zA-Z-]+$/.test(family) ? family : `"${family}"`;
+}
+
+function withPrefix(token: ResolvedToken, options: TokenFormatOptions): string[] {
+  return options.prefix ? [options.prefix, ...token.path] : token.path;
+}
+
+/**
+ * Expand typography tokens into their individual CSS properties, skipping fields the token lacks
+ */
+export function typographyProperties(value: TypographyTokenValue): Array<[string, string]> {
+  return TYPOGRAPHY_PROPERTIES.flatMap(([property, read]): Array<[string, string]> => {
+    const css = read(value);
+    return css === undefined ? [] : [[property, css]];
+  });
+}
+
+registerTokenFormatter('css', {
+  fileName: 'tokens.css',
+  format({ tokens }, options) {
+    const names = new Map(tokens.map(token => [token.path.join('.'), formatTokenName(withPrefix(token, options), options.naming)]));
+    const lines: string[] = [];
+
+    for (const token of tokens) {
+      const name = names.get(token.path.join('.'));
+      const targetPath = token.alias && [token.alias, [...token.alias, 'DEFAULT']].find(candidate => names.has(candidate.join('.')));
+      const target = targetPath && names.get(targetPath.join('.'));
+
+      if (targetPath && token.type === 'typography') {
+        // Typography only exists as one variable per property, so the alias points at each of them
+        for (const [property] of typographyProperties(token.value as TypographyTokenValue)) {
+          const targetName = formatTokenName([...(options.prefix ? [options.prefix] : []), ...targetPath, property], options.naming);
+          lines.push(`  --${formatTokenName([...withPrefix(token, options), property], options.naming)}: var(--${targetName});`);
+        }
+      } else if (target) {
+        lines.push(`  --${name}: var(--${target});`);
+      } else if (token.type === 'typography' && token.value) {
+        for (const [property, value] of typographyProperties(token.value as TypographyTokenValue)) {
+          lines.push(`  --${formatTokenName([...withPrefix(token, options), property], options.naming)}: ${value};`);
+        }
+      } else {
+        const value = tokenToCssValue(token);
+        if (value !== undefined) {
+          lines.push(`  --${name}: ${value};`);
+        }
+      }
+    }
+
+    return `/* Generated from Figma. Do not edit by hand. */\n:root {\n${lines.join('\n')}\n}\n`;
+  },
+});
+
+registerTokenFormatter('scss', {
+  fileName: '_tokens.scss',
+  format({ tokens }, options) {
+    const names = new Map(tokens.map(token => [token.path.join('.'), formatTokenName(withPrefix(token, options), options.naming)]));
+    const variables: string[] = [];
+    const groups = new Map<string, string[]>();
+
+    for (const token of tokens) {
+      const name = names.get(token.path.join('.')) as string;
+      const target = token.alias && (names.get(token.alias.join('.')) || names.get([...token.alias, 'DEFAULT'].join('.')));
+      let value: string | undefined;
+
+      if (target) {
+        value = `$${target}`;
+      } else if (token.type === 'typography' && token.value) {
+        const entries = typographyProperties(token.value as TypographyTokenValue).map(([property, v]) => `  '${property}': ${v},`);
+        value = `(\n${entries.join('\n')}\n)`;
+      } else {
+        value = tokenToCssValue(token);
+      }
+      if (value === undefined) {
+        continue;
+      }
+
+      variables.push(`$${name}: ${value};`);
+
+      // One map per top-level group, keyed by the rest of the path
+      const group = formatTokenName(withPrefix(token, options).slice(0, options.prefix ? 2 : 1), options.naming);
+      const key = formatTokenName(token.path.slice(1), options.naming) || 'default';
+      groups.set(group, [...(groups.get(group) || []), `  '${key}': $${name},`]);
+    }
+
+    const maps = [...groups.entries()].map(([group, entries]) => `$${group}-tokens: (\n${entries.join('\n')}\n);`);
+    return `// Generated from Figma. Do not edit by hand.\n\n${variables.join('\n')}\n\n${maps.join('\n\n')}\n`;
+  },
+});
+
+registerTokenFormatter('tailwind', {
+  fileName: 'tailwind.tokens.js',
+  format({ tokens }, options) {
+    const theme: Record<string, Record<string, unknown>> = {};
+    const set = (section: string, segments: string[], value: unknown) => {
+      const prefixed = options.prefix ? [options.prefix, ...segments] : segments;
+      // Only colors support nested keys in Tailwind; other scales use flat names
+      const path = section === 'colors'
+        ? prefixed.map(segment => (segment === 'DEFAULT' ? segment : formatTokenName([segment], options.naming)))
+        : [formatTokenName(prefixed.filter(segment => segment !== 'DEFAULT'), options.naming)];
+      let target = (theme[section] = theme[section] || {});
+      for (const segment of path.slice(0, -1)) {
+        const next = target[segment];
+        target = (typeof next === 'object' && next !== null ? next : (target[segment] = {})) as Record<string, unknown>;
+      }
+      target[path[path.length - 1]] = value;
+    };
+
+    for (const token of tokens) {
+      const value = token.value;
+      if (value === null || value === undefined) {
+        continue;
+      }
+      switch (token.type) {
+        case 'color':
+          set('colors', token.path, value);
+          break;
+        case 'gradient':
+          set('backgroundImage', token.path, tokenToCssValue(token));
+          break;
+        case 'shadow':
+          set('boxShadow', token.path, tokenToCssValue(token));
+          break;
+        case 'blur':
+          // Tailwind's blur scale takes the blur() argument, not Figma's radius
+          set('blur', token.path, tokenToCssValue(token)?.replace(/^blur\((.*)\)$/, '$1') ?? value);
+          break;
+        case 'typography': {
+          const type = value as TypographyTokenValue;
+          set('fontSize', token.path, [type.fontSize, {
+            ...(type.lineHeight !== undefined ? { lineHeight: String(type.lineHeight) } : {}),
+            letterSpacing: type.letterSpacing,
+            fontWeight: String(type.fontWeight),
+          }]);
+          set('fontFamily', token.path, [type.fontFamily]);
+          break;
+        }
+        case 'dimension':
+          set('spacing', token.path, value);
+          break;
+      }
+    }
+
+    return `// Generated from Figma. Do not edit by hand.\n/** @type {import('tailwindcss').Config} */\nexport default {\n  theme: {\n    extend: ${indent(JSON.stringify(theme, null, 2), 4)},\n  },\n};\n`;
+  },
+});
+
+registerTokenFormatter('typescript', {
+  fileName: 'tokens.ts',
+  format({ tokens }, options) {
+    const root: Record<string, unknown> = {};
+    for (const token of tokens) {
+      if (token.value === null || token.value === undefined) {
+        continue;
+      }
+      const path = (options.prefix ? [options.prefix, ...token.path] : token.path).map(segment =>
+        formatTokenName([segment], options.naming === 'kebab' ? 'camel' : options.naming));
+      let target = root;
+      for (const segment of path.slice(0, -1)) {
+        const next = target[segment];
+        target = (typeof next === 'object' && next !== null ? next : (target[segment] = {})) as Record<string, unknown>;
+      }
+      target[path[path.length - 1]] = token.value;
+    }
+
+    return `// Generated from Figma. Do not edit by hand.\n\nexport const tokens = ${JSON.stringify(root, null, 2)} as const;\n\nexport type Tokens = typeof tokens;\n`;
+  },
+});
+
+registerTokenFormatter('json', {
+  fileName: 'tokens.json',
+  format({ tree }) {
+    return `${JSON.stringify(tree, null, 2)}\n`;
+  },
+});
+
+function indent(text: string, spaces: number): string {
+  return text.split('\n').map((line, i) => (i === 0 ? line : ' '.repeat(spaces) + line)).join('\n');
+}
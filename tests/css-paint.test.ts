@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { blendModeToCss, fillsToCss } from '../src/utils/css-paint.js';
+import { FigmaFill } from '../src/types/figma.js';
+
+const red: FigmaFill = { type: 'SOLID', blendMode: 'NORMAL', color: { r: 1, g: 0, b: 0, a: 1 } };
+const blue: FigmaFill = { type: 'SOLID', blendMode: 'MULTIPLY', color: { r: 0, g: 0, b: 1, a: 1 } };
+
+test('stacked fills become background layers, top first, with their blend modes', () => {
+  assert.deepEqual(fillsToCss([red, blue]), {
+    background: 'linear-gradient(#0000ff, #0000ff), #ff0000',
+    'background-blend-mode': 'multiply, normal',
+  });
+});
+
+test('linear burn and dodge stay out of background-blend-mode but still map for mix-blend-mode', () => {
+  const css = fillsToCss([red, { ...blue, blendMode: 'LINEAR_DODGE' }, { ...blue, blendMode: 'LINEAR_BURN' }]);
+  assert.equal(css['background-blend-mode'], undefined);
+  assert.equal(fillsToCss([red, { ...blue, blendMode: 'LINEAR_BURN' }, blue])['background-blend-mode'], 'multiply, normal, normal');
+  assert.equal(blendModeToCss('LINEAR_DODGE'), 'plus-lighter');
+});
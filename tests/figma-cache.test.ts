@@ -0,0 +1,109 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FigmaCache } from '../src/utils/figma-cache.js';
+
+const directories: string[] = [];
+
+afterEach(() => {
+  for (const directory of directories.splice(0)) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+function tempCache(freshnessTtlMs: number): FigmaCache {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-cache-test-'));
+  directories.push(directory);
+  return new FigmaCache({ directory, freshnessTtlMs });
+}
+
+// Serves the file's current version for depth=1 checks and a numbered body for everything else
+function fakeFigma(version: { current: string }) {
+  const calls: string[] = [];
+  const fetcher = async (endpoint: string) => {
+    calls.push(endpoint);
+    if (endpoint.endsWith('?depth=1')) {
+      return { version: version.current, lastModified: `modified-${version.current}` };
+    }
+    return { endpoint, fetch: calls.length };
+  };
+  return { calls, fetcher };
+}
+
+test('serves repeat requests from disk without checking the version again while it is fresh', async () => {
+  const cache = tempCache(60000);
+  const figma = fakeFigma({ current: '1' });
+
+  const first = await cache.get('/files/KEY/components', figma.fetcher);
+  const second = await cache.get('/files/KEY/components', figma.fetcher);
+
+  assert.deepEqual(second, first);
+  assert.deepEqual(figma.calls, ['/files/KEY?depth=1', '/files/KEY/components']);
+  assert.equal(cache.stats().hits, 1);
+  assert.equal(cache.stats().freshness_checks, 1);
+});
+
+test('revalidates the version once it is stale and refetches only when it moved', async () => {
+  const cache = tempCache(0);
+  const version = { current: '1' };
+  const figma = fakeFigma(version);
+
+  await cache.get('/files/KEY/styles', figma.fetcher);
+  await cache.get('/files/KEY/styles', figma.fetcher);
+  assert.deepEqual(figma.calls, ['/files/KEY?depth=1', '/files/KEY/styles', '/files/KEY?depth=1']);
+
+  version.current = '2';
+  const updated = await cache.get('/files/KEY/styles', figma.fetcher);
+  assert.equal(figma.calls.at(-1), '/files/KEY/styles');
+  assert.equal(updated.fetch, 5);
+  // The entry for version 1 was replaced rather than kept alongside
+  assert.equal(cache.stats().entries, 1);
+});
+
+test('expireVersion forces the next request to check the version', async () => {
+  const cache = tempCache(60000);
+  const figma = fakeFigma({ current: '1' });
+
+  await cache.get('/files/KEY/nodes?ids=1:2', figma.fetcher);
+  cache.expireVersion('KEY');
+  await cache.get('/files/KEY/nodes?ids=1:2', figma.fetcher);
+  assert.equal(figma.calls.filter(endpoint => endpoint === '/files/KEY?depth=1').length, 2);
+});
+
+test('caches component sets and local variables, but not renders or metadata', async () => {
+  const cache = tempCache(60000);
+  const figma = fakeFigma({ current: '1' });
+
+  for (const endpoint of ['/files/KEY/component_sets', '/files/KEY/variables/local']) {
+    await cache.get(endpoint, figma.fetcher);
+    await cache.get(endpoint, figma.fetcher);
+  }
+  assert.equal(cache.stats().hits, 2);
+
+  const before = figma.calls.length;
+  await cache.get('/images/KEY?ids=1:2', figma.fetcher);
+  await cache.get('/images/KEY?ids=1:2', figma.fetcher);
+  await cache.get('/files/KEY?depth=1', figma.fetcher);
+  assert.equal(figma.calls.length, before + 3);
+});
+
+test('pinned versions skip the freshness check', async () => {
+  const cache = tempCache(0);
+  const figma = fakeFigma({ current: '1' });
+
+  await cache.get('/files/KEY?version=7', figma.fetcher);
+  await cache.get('/files/KEY?version=7', figma.fetcher);
+  assert.deepEqual(figma.calls, ['/files/KEY?version=7']);
+});
+
+test('identical requests in flight share one fetch', async () => {
+  const cache = tempCache(60000);
+  const figma = fakeFigma({ current: '1' });
+
+  const [a, b] = await Promise.all([cache.get('/files/KEY', figma.fetcher), cache.get('/files/KEY', figma.fetcher)]);
+  assert.deepEqual(a, b);
+  assert.deepEqual(figma.calls, ['/files/KEY?depth=1', '/files/KEY']);
+  assert.equal(cache.stats().merged_in_flight, 1);
+});
@@ -0,0 +1,119 @@
+import { afterEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { FigmaApiError, FigmaClient, parseRetryAfter } from '../src/utils/figma-client.js';
+
+const realFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+// Answer each call with the next response; a function response sees the request's abort signal
+function stubFetch(responses: Array<Response | ((signal: AbortSignal) => Promise<Response>)>): string[] {
+  const calls: string[] = [];
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    calls.push(url);
+    const next = responses.shift();
+    assert.ok(next, `unexpected request to ${url}`);
+    return typeof next === 'function' ? next(init.signal as AbortSignal) : next;
+  }) as typeof fetch;
+  return calls;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+function client(options: Partial<ConstructorParameters<typeof FigmaClient>[0]> = {}): FigmaClient {
+  return new FigmaClient({ token: 'token', baseUrl: 'https://figma.test/v1', baseDelayMs: 1, maxDelayMs: 5, ...options });
+}
+
+test('retries rate limits and server errors, then returns the body', async () => {
+  const calls = stubFetch([
+    json({ status: 429, err: 'Rate limited' }, 429, { 'retry-after': '0' }),
+    json({ status: 503 }, 503),
+    json({ name: 'Kit' }),
+  ]);
+  assert.deepEqual(await client().get('/files/KEY'), { name: 'Kit' });
+  assert.equal(calls.length, 3);
+  assert.equal(calls[0], 'https://figma.test/v1/files/KEY');
+});
+
+test('gives up after maxRetries with the rate-limit hint', async () => {
+  stubFetch([json({ err: 'Rate limited' }, 429, { 'retry-after': '0' }), json({ err: 'Rate limited' }, 429, { 'retry-after': '0' })]);
+  await assert.rejects(client({ maxRetries: 1 }).get('/files/KEY'), (error: unknown) => {
+    assert.ok(error instanceof FigmaApiError);
+    assert.equal(error.status, 429);
+    assert.match(error.hint, /rate limited by Figma after 2 attempts/);
+    return true;
+  });
+});
+
+test('maps error statuses to MCP codes and hints without retrying them', async () => {
+  const cases: Array<[number, ErrorCode, RegExp]> = [
+    [400, ErrorCode.InvalidParams, /node IDs/],
+    [401, ErrorCode.InvalidRequest, /invalid or expired/],
+    [403, ErrorCode.InvalidRequest, /file_read scope/],
+    [404, ErrorCode.InvalidParams, /file key not found/],
+  ];
+  for (const [status, code, hint] of cases) {
+    const calls = stubFetch([json({ err: 'nope' }, status)]);
+    await assert.rejects(client().get('/files/KEY'), (error: unknown) => {
+      assert.ok(error instanceof FigmaApiError);
+      assert.equal(error.code, code);
+      assert.match(error.hint, hint);
+      assert.match(error.message, /\(nope\)/);
+      return true;
+    });
+    assert.equal(calls.length, 1, `status ${status} was retried`);
+  }
+});
+
+test('an expired download URL gets its own hint', async () => {
+  stubFetch([new Response('AccessDenied', { status: 403 })]);
+  await assert.rejects(client().download('https://s3.test/render.png?sig=1'), /the download URL has expired/);
+});
+
+test('a request that outlives the timeout fails with RequestTimeout', async () => {
+  const stalled = (signal: AbortSignal) => new Promise<Response>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  });
+  stubFetch([stalled]);
+  await assert.rejects(client({ maxRetries: 0, timeoutMs: 20 }).get('/files/KEY'), (error: unknown) => {
+    assert.ok(error instanceof FigmaApiError);
+    assert.equal(error.code, ErrorCode.RequestTimeout);
+    assert.match(error.message, /timed out after 20ms/);
+    return true;
+  });
+});
+
+test('runs at most maxConcurrent requests at once', async () => {
+  let active = 0;
+  let peak = 0;
+  const slow = async () => {
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    active--;
+    return json({ ok: true });
+  };
+  stubFetch([slow, slow, slow, slow, slow]);
+  const figma = client({ maxConcurrent: 2 });
+  await Promise.all([1, 2, 3, 4, 5].map(n => figma.get(`/files/KEY${n}`)));
+  assert.equal(peak, 2);
+});
+
+test('a NaN concurrency limit falls back to the default instead of blocking every request', async () => {
+  stubFetch([json({ ok: true })]);
+  assert.deepEqual(await client({ maxConcurrent: NaN, timeoutMs: NaN }).get('/files/KEY'), { ok: true });
+});
+
+test('parseRetryAfter reads delta seconds and HTTP dates', () => {
+  assert.equal(parseRetryAfter('2'), 2000);
+  assert.equal(parseRetryAfter(null), undefined);
+  assert.equal(parseRetryAfter('soon'), undefined);
+  const inFiveSeconds = parseRetryAfter(new Date(Date.now() + 5000).toUTCString());
+  assert.ok(inFiveSeconds !== undefined && inFiveSeconds > 3000 && inFiveSeconds <= 5000, String(inFiveSeconds));
+  assert.equal(parseRetryAfter(new Date(Date.now() - 5000).toUTCString()), 0);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FigmaFileChange, FigmaWatcher } from '../src/utils/figma-watcher.js';
+
+test('a change seen by a poll that later fails is reported by the next poll', async () => {
+  const responses: Record<string, unknown> = {
+    '/projects/42/files': { files: [{ key: 'PROJECT_FILE', name: 'Tokens', last_modified: '2026-01-01T00:00:00Z' }] },
+    '/files/MAIN?depth=1': { name: 'Main', version: '1', lastModified: '2026-01-01T00:00:00Z' },
+  };
+  const notified: FigmaFileChange[] = [];
+  const watcher = new FigmaWatcher({
+    fileKeys: ['MAIN'],
+    projectIds: ['42'],
+    intervalMs: 60000,
+    maxBackoffMs: 600000,
+    fetch: async (endpoint) => {
+      const response = responses[endpoint];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    },
+    onChange: (change) => {
+      notified.push(change);
+    },
+  });
+
+  assert.deepEqual(await watcher.pollOnce(), []);
+
+  responses['/projects/42/files'] = { files: [{ key: 'PROJECT_FILE', name: 'Tokens', last_modified: '2026-01-02T00:00:00Z' }] };
+  responses['/files/MAIN?depth=1'] = new Error('socket hang up');
+  await assert.rejects(watcher.pollOnce(), /socket hang up/);
+  assert.equal(watcher.get('PROJECT_FILE')?.last_modified, '2026-01-01T00:00:00Z');
+
+  responses['/files/MAIN?depth=1'] = { name: 'Main', version: '2', lastModified: '2026-01-02T00:00:00Z' };
+  const changes = await watcher.pollOnce();
+  assert.deepEqual(changes.map(change => change.file_key).sort(), ['MAIN', 'PROJECT_FILE']);
+  assert.equal(changes.find(change => change.file_key === 'MAIN')?.previous_version, '1');
+  assert.deepEqual(notified, changes);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { FigmaApiError, FigmaClient } from '../src/utils/figma-client.js';
+import { FixtureStore } from '../src/utils/fixture-store.js';
+
+// Recorded with FIGMA_FIXTURE_MODE=record; see "Offline Fixtures" in the README
+const FIXTURE_DIR = path.join(process.cwd(), 'tests/fixtures/figma');
+const FILE_KEY = 'FixtureKit0000000000000';
+
+function replayClient(): FigmaClient {
+  return new FigmaClient({ baseUrl: 'http://127.0.0.1:9', fixtures: new FixtureStore(FIXTURE_DIR, 'replay') });
+}
+
+async function connectServer(): Promise<Client> {
+  process.env.FIGMA_FIXTURE_MODE = 'replay';
+  process.env.FIGMA_FIXTURE_DIR = FIXTURE_DIR;
+  process.env.FIGMA_CACHE = 'off';
+  const { FigmaMCPServer } = await import('../src/server/mcp-server.js');
+  // run() speaks stdio; tests talk to the same MCP server in memory
+  const server = (new FigmaMCPServer() as unknown as { server: Server }).server;
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'fixture-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function toolJson(result: Awaited<ReturnType<Client['callTool']>>): any {
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return JSON.parse(content.text);
+}
+
+test('replays a recorded file without a token or network', async () => {
+  const file = await replayClient().get(`/files/${FILE_KEY}`);
+  assert.equal(file.name, 'Fixture Kit');
+  assert.equal(file.version, '101');
+});
+
+test('fails with a hint when an endpoint was never recorded', async () => {
+  await assert.rejects(replayClient().get('/files/Unrecorded0000000000000'), (error: unknown) => {
+    assert.ok(error instanceof FigmaApiError);
+    assert.equal(error.status, 404);
+    assert.match(error.message, /FIGMA_FIXTURE_MODE=record/);
+    return true;
+  });
+});
+
+test('records team and project listings along with files and renders', () => {
+  const store = new FixtureStore(FIXTURE_DIR, 'record');
+  for (const endpoint of ['/files/KEY', '/images/KEY?ids=1:2', '/teams/123/projects', '/projects/42/files']) {
+    assert.ok(store.handles(endpoint), endpoint);
+  }
+  assert.equal(store.handles('/me'), false);
+});
+
+test('get_figma_file and get_figma_team_projects run against fixtures', async () => {
+  const client = await connectServer();
+  try {
+    const file = toolJson(await client.callTool({ name: 'get_figma_file', arguments: { file_key_or_url: FILE_KEY } }));
+    assert.equal(file.name, 'Fixture Kit');
+    assert.equal(file.components_count, 1);
+    assert.equal(file.summary.nodes_included, 4);
+
+    const team = toolJson(await client.callTool({ name: 'get_figma_team_projects', arguments: { team_id: '123' } }));
+    assert.deepEqual(team.projects, [{ id: '42', name: 'Design System' }]);
+  } finally {
+    await client.close();
+  }
+});
+
+test('diff_figma_versions defaults to the latest named version before the current one', async () => {
+  const client = await connectServer();
+  try {
+    const diff = toolJson(await client.callTool({ name: 'diff_figma_versions', arguments: { file_key_or_url: 'DiffKit0000000000000000' } }));
+    assert.equal(diff.from.id, '1');
+    assert.equal(diff.from.label, 'Release 1');
+    assert.equal(diff.to.current, true);
+    assert.deepEqual(diff.nodes.renamed.map((node: { name: string; before_name: string }) => [node.before_name, node.name]), [['Cart', 'Checkout']]);
+
+    await assert.rejects(
+      client.callTool({ name: 'diff_figma_versions', arguments: { file_key_or_url: 'DiffKit0000000000000000', to_version: '99' } }),
+      /Version 99 is not in the recent history/
+    );
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeSvg, toJsx } from '../src/utils/icon-pipeline.js';
+
+const options = { idPrefix: 'arrow-left', currentColor: true };
+
+test('a viewBox offset is moved into a transform so the viewBox starts at 0 0', () => {
+  const svg = normalizeSvg('<svg width="24" height="24" viewBox="2 4 20 16" fill="none"><path d="M0 0" fill="#000"/></svg>', options);
+  assert.equal(svg.viewBox, '0 0 20 16');
+  assert.deepEqual([svg.width, svg.height], [20, 16]);
+  assert.deepEqual(svg.attributes, { fill: 'none' });
+  assert.equal(svg.body, '<g transform="translate(-2 -4)"><path d="M0 0" fill="currentColor"/></g>');
+});
+
+test('referenced IDs get a separator icon names cannot produce, and unreferenced ones are dropped', () => {
+  const svg = normalizeSvg([
+    '<svg width="24" height="24" viewBox="0 0 24 24">',
+    '<g id="Frame" clip-path="url(#clip0)"><path d="M0 0" fill="#111"/></g>',
+    '<defs><clipPath id="clip0"><rect width="24" height="24" fill="white"/></clipPath></defs>',
+    '</svg>',
+  ].join(''), options);
+  assert.doesNotMatch(svg.body, /id="Frame"/);
+  assert.match(svg.body, /clip-path="url\(#arrow-left__1\)"/);
+  assert.match(svg.body, /<clipPath id="arrow-left__1">/);
+  // The clip path's coverage paint is neither counted nor rewritten
+  assert.match(svg.body, /<rect width="24" height="24" fill="white"\/>/);
+  assert.deepEqual(svg.colors, ['#111']);
+  assert.equal(svg.monochrome, true);
+});
+
+test('multicolor and gradient icons keep their paint', () => {
+  const twoColors = normalizeSvg('<svg width="16" height="16"><path fill="#F00"/><path stroke="#00f"/></svg>', options);
+  assert.equal(twoColors.monochrome, false);
+  assert.deepEqual(twoColors.colors, ['#f00', '#00f']);
+  assert.match(twoColors.body, /fill="#F00"/);
+
+  const gradient = normalizeSvg('<svg width="16" height="16"><path fill="url(#g)"/><defs><linearGradient id="g"/></defs></svg>', options);
+  assert.equal(gradient.monochrome, false);
+  assert.deepEqual(gradient.colors, ['gradient']);
+  assert.match(gradient.body, /fill="url\(#arrow-left__1\)"/);
+
+  const kept = normalizeSvg('<svg width="16" height="16"><path fill="#000"/></svg>', { ...options, currentColor: false });
+  assert.equal(kept.monochrome, true);
+  assert.match(kept.body, /fill="#000"/);
+});
+
+test('toJsx camelCases attributes and turns style strings into objects', () => {
+  assert.equal(
+    toJsx('<path fill-rule="evenodd" clip-path="url(#a)" xlink:href="#b" aria-label="x" style="mix-blend-mode: multiply; opacity: 0.5"/>'),
+    `<path fillRule="evenodd" clipPath="url(#a)" xlinkHref="#b" aria-label="x" style={{ mixBlendMode: 'multiply', opacity: '0.5' }} />`
+  );
+  assert.equal(toJsx('<g class="icon"></g>'), '<g className="icon"></g>');
+});
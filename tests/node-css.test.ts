@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { boxDeclarations, createStyleTokenIndex } from '../src/utils/node-css.js';
+import { FigmaEffect, FigmaNode } from '../src/types/figma.js';
+import { ResolvedToken } from '../src/types/tokens.js';
+
+const tokens: ResolvedToken[] = [
+  { path: ['color', 'brand'], type: 'color', value: '#ff0000' },
+  { path: ['blur', 'glass'], type: 'blur', value: '8px', css: 'blur(4px)', styleId: 'S:blur' },
+];
+
+const blur = (type: string, radius: number): FigmaEffect =>
+  ({ type, visible: true, radius, color: { r: 0, g: 0, b: 0, a: 0 }, blendMode: 'NORMAL', offset: { x: 0, y: 0 } });
+
+test('a single solid fill still resolves to its color token', () => {
+  const index = createStyleTokenIndex(tokens);
+  const css = boxDeclarations({ id: '1:1', name: 'Card', type: 'FRAME', fills: [{ type: 'SOLID', blendMode: 'NORMAL', color: { r: 1, g: 0, b: 0, a: 1 } }] }, index);
+  assert.equal(css.get('background'), 'var(--color-brand)');
+  assert.deepEqual([...index.omitted], []);
+});
+
+test('stacked fills, blend modes and blurs are kept, and image fills are reported', () => {
+  const index = createStyleTokenIndex(tokens);
+  const node: FigmaNode = {
+    id: '1:2',
+    name: 'Hero',
+    type: 'FRAME',
+    fills: [
+      { type: 'IMAGE', blendMode: 'NORMAL', imageRef: 'abc123', scaleMode: 'FILL' },
+      { type: 'SOLID', blendMode: 'NORMAL', color: { r: 1, g: 0, b: 0, a: 1 } },
+      { type: 'SOLID', blendMode: 'MULTIPLY', color: { r: 0, g: 0, b: 1, a: 1 }, opacity: 0.5 },
+    ],
+    effects: [blur('LAYER_BLUR', 8), blur('BACKGROUND_BLUR', 20)],
+  };
+  const css = boxDeclarations(node, index);
+
+  assert.match(css.get('background') || '', /^linear-gradient\(.+\), #ff0000$/);
+  assert.equal(css.get('background-blend-mode'), 'multiply, normal');
+  assert.equal(css.get('filter'), 'blur(4px)');
+  assert.equal(css.get('backdrop-filter'), 'blur(10px)');
+  assert.deepEqual([...index.omitted], ['Hero: image fill abc123']);
+
+  const styled = boxDeclarations({ ...node, styles: { effect: 'S:blur' }, effects: [blur('LAYER_BLUR', 8)] }, index);
+  assert.equal(styled.get('filter'), 'var(--blur-glass)');
+});
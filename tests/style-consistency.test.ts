@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findStyleInconsistencies } from '../src/utils/style-consistency.js';
+import { ResolvedToken } from '../src/types/tokens.js';
+
+const tokens: ResolvedToken[] = [
+  {
+    path: ['gradient', 'hero'],
+    type: 'gradient',
+    value: [{ color: '#ff0000', position: 0 }, { color: '#0000ff', position: 1 }],
+    css: 'linear-gradient(90deg, #FF0000 0%, #0000FF 100%)',
+    styleId: 'S:1',
+  },
+  { path: ['blur', 'glass'], type: 'blur', value: '8px', css: 'blur(4px)', styleId: 'S:2' },
+  { path: ['grid', 'columns'], type: 'grid', value: { pattern: 'COLUMNS', count: 12 }, styleId: 'S:3' },
+  { path: ['blur', 'heavy'], type: 'blur', value: '40px', css: 'blur(20px)', styleId: 'S:4' },
+];
+
+test('gradient and blur styles used in code are not reported as unused, and grids are never', () => {
+  const report = findStyleInconsistencies(tokens, [{
+    path: 'Hero.css',
+    content: '.hero {\n  background: linear-gradient(90deg, rgb(255, 0, 0) 0%, #00f 100%);\n  backdrop-filter: blur(0.25rem);\n}\n',
+  }]);
+  const unused = report.issues.filter(issue => issue.type === 'unused_figma_style').map(issue => issue.figma_style);
+  assert.deepEqual(unused, ['blur/heavy']);
+  assert.equal(report.total_styles, 3);
+  assert.equal(report.consistent_styles, 2);
+});
+
+test('short hex words outside a color context are not colors', () => {
+  const palette: ResolvedToken[] = [{ path: ['color', 'brand'], type: 'color', value: '#3366ff', styleId: 'S:5' }];
+  const report = findStyleInconsistencies(palette, [{
+    path: 'Nav.tsx',
+    content: [
+      '<a href="#add" id="bad">Add</a>',
+      'const anchor = "#face";',
+      '<div style={{ color: "#f00" }} className="bg-[#0f0]" />',
+      '<path fill="#00f" />',
+    ].join('\n'),
+  }]);
+  assert.deepEqual(report.issues.filter(issue => issue.property === 'color').map(issue => issue.code_value), ['#f00', '#0f0', '#00f']);
+});
+
+test('a font-family that matches a typography style marks it used', () => {
+  const typography: ResolvedToken[] = [{
+    path: ['font', 'body'],
+    type: 'typography',
+    value: { fontFamily: 'Inter', fontWeight: 400, fontSize: '16px', lineHeight: 1.5, letterSpacing: '0px' },
+    styleId: 'S:6',
+  }];
+  const report = findStyleInconsistencies(typography, [{ path: 'Body.css', content: 'body {\n  font-family: "Inter", sans-serif;\n}\n' }]);
+  assert.deepEqual(report.issues, []);
+  assert.equal(report.consistent_styles, 1);
+});
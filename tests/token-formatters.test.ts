@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lineHeightRatio } from '../src/utils/design-tokens.js';
+import { getTokenFormatter } from '../src/utils/token-formatters.js';
+import { ResolvedToken } from '../src/types/tokens.js';
+
+const heading = { fontFamily: 'Inter', fontWeight: 700, fontSize: '32px', lineHeight: 1.25, letterSpacing: '0px' };
+const tokens: ResolvedToken[] = [
+  { path: ['font', 'heading'], type: 'typography', value: heading },
+  { path: ['font', 'title'], type: 'typography', value: heading, alias: ['font', 'heading'] },
+  { path: ['color', 'brand'], type: 'color', value: '#3366ff' },
+  { path: ['color', 'primary'], type: 'color', value: '#3366ff', alias: ['color', 'brand'] },
+];
+
+test('css aliases to a typography token point at each of its properties', () => {
+  const css = getTokenFormatter('css')!.format({ tokens, tree: {} }, { naming: 'kebab', prefix: 'ds' });
+  assert.match(css, /--ds-font-heading-font-size: 32px;/);
+  assert.match(css, /--ds-font-title-font-size: var\(--ds-font-heading-font-size\);/);
+  assert.match(css, /--ds-font-title-line-height: var\(--ds-font-heading-line-height\);/);
+  assert.doesNotMatch(css, /var\(--ds-font-heading\)/);
+  assert.match(css, /--ds-color-primary: var\(--ds-color-brand\);/);
+});
+
+test('typography without a line height leaves it out instead of inventing one', () => {
+  const body = { fontFamily: 'Inter', fontWeight: 400, fontSize: '16px', letterSpacing: '0px' };
+  const css = getTokenFormatter('css')!.format({
+    tokens: [
+      { path: ['font', 'body'], type: 'typography', value: body },
+      { path: ['font', 'copy'], type: 'typography', value: body, alias: ['font', 'body'] },
+    ],
+    tree: {},
+  }, { naming: 'kebab' });
+  assert.match(css, /--font-body-font-size: 16px;/);
+  assert.doesNotMatch(css, /line-height/);
+
+  assert.equal(lineHeightRatio({ fontFamily: 'Inter', fontWeight: 400, fontSize: 16, letterSpacing: 0, lineHeightPx: 24 }), 1.5);
+  assert.equal(lineHeightRatio({ fontFamily: 'Inter', fontWeight: 400, fontSize: 16, letterSpacing: 0, lineHeightPx: 0, lineHeightPercentFontSize: 140 }), 1.4);
+  assert.equal(lineHeightRatio({ fontFamily: 'Inter', fontWeight: 400, fontSize: 16, letterSpacing: 0, lineHeightPx: 0 }), undefined);
+});